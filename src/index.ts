@@ -1,11 +1,10 @@
 // Hono
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { logger } from "hono/logger";
 import { cors } from "hono/cors";
+import { csrf } from "hono/csrf";
 import { resolver } from "hono-openapi/valibot";
 import * as v from "valibot";
-import { rateLimiter } from "hono-rate-limiter";
-import { nanoid } from "nanoid";
 
 /**
  * OpenAPI Docs
@@ -13,9 +12,37 @@ import { nanoid } from "nanoid";
 import { swaggerUI } from "@hono/swagger-ui";
 import { describeRoute, openAPISpecs } from "hono-openapi";
 import { defineCalendarRoutes } from "./routes/calendar";
+import { defineEventTypeRoutes } from "./routes/event-types";
+import { defineBookingRoutes } from "./routes/bookings";
+import { defineManageRoutes } from "./routes/manage";
+import { defineWebhookRoutes } from "./routes/webhooks";
+import { defineBookingPageRoutes } from "./routes/booking-page";
+import { startWebhookWorker } from "./lib/webhooks";
+import { ADMIN_PREFIX, requireScope } from "./lib/auth";
+import { limitBookingRequests } from "./lib/auth/rate-limit";
+import { getPublicUrl } from "./lib/bookings/links";
 
 export type HonoApp = Hono<{ Variables: {} }>;
 
+// Origins allowed to call the API from a browser, from CALENDAR_CORS_ORIGINS
+// (comma separated, "*" for all)
+function getCorsOrigins(): string | string[] {
+  const origins = (process.env.CALENDAR_CORS_ORIGINS ?? "*")
+    .split(",")
+    .map((origin) => origin.trim())
+    .filter(Boolean);
+  return origins.includes("*") ? "*" : origins;
+}
+
+// Origins the forms of the booking page may be sent from: the service
+// itself, also behind a proxy at CALENDAR_PUBLIC_URL
+function isPageOrigin(origin: string, c: Context): boolean {
+  return (
+    origin === new URL(c.req.url).origin ||
+    origin === new URL(getPublicUrl()).origin
+  );
+}
+
 /**
  * Init the main Hono app
  */
@@ -29,19 +56,35 @@ export const defineServer = () => {
   app.use(
     "/*",
     cors({
-      origin: "*",
+      origin: getCorsOrigins(),
+      allowHeaders: [
+        "Authorization",
+        "Content-Type",
+        "Idempotency-Key",
+        "X-API-Key",
+      ],
+      exposeHeaders: ["Idempotent-Replayed"],
     })
   );
 
-  // app.use(
-  //   "/*",
-  //   rateLimiter({
-  //     windowMs: 15 * 60 * 1000, // 15 minutes
-  //     limit: 1000, // limit each IP to 100 requests per windowMs
-  //     standardHeaders: "draft-6", // draft-6: `RateLimit-*` headers; draft-7: combined `RateLimit` header
-  //     keyGenerator: (c) => nanoid(),
-  //   })
-  // );
+  /**
+   * Admin routes need an API key with the admin scope. The other routes
+   * check their scope themselves.
+   */
+  app.use(`${ADMIN_PREFIX}/*`, requireScope("admin"));
+
+  /**
+   * Limits the requests per client that create or change bookings. Each
+   * booking creates a meeting, a calendar event and mails.
+   */
+  app.on(
+    "POST",
+    ["/calendar/holds", "/calendar/bookings", "/book/*", "/manage/*"],
+    limitBookingRequests()
+  );
+
+  // Forms of the booking and manage pages must be sent from the pages
+  app.on("POST", ["/book/*", "/manage/*"], csrf({ origin: isPageOrigin }));
 
   // app.use("/*", async (c, next) => {
   //   c.header("X-Content-Type-Options", "nosniff");
@@ -82,11 +125,27 @@ export const defineServer = () => {
     }),
 
     (c) => c.json({ online: true })
-  ); 
+  );
 
   // Calendar Routes
   defineCalendarRoutes(app);
 
+  // Event Type Routes
+  defineEventTypeRoutes(app);
+
+  // Booking Routes
+  defineBookingRoutes(app);
+
+  // Cancel and reschedule links for attendees
+  defineManageRoutes(app);
+
+  // Booking page and embed script for visitors
+  defineBookingPageRoutes(app);
+
+  // Webhook deliveries
+  defineWebhookRoutes(app);
+  startWebhookWorker();
+
   /**
    * OpenAPI docs
    */
@@ -0,0 +1,73 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { Hono } from "hono";
+
+const file = join(mkdtempSync(join(tmpdir(), "api-keys-")), "api-keys.json");
+process.env.CALENDAR_API_KEYS_FILE = file;
+
+const { hashApiKey, requireScope } = await import(".");
+
+writeFileSync(
+  file,
+  JSON.stringify([
+    { id: "site", hash: hashApiKey("site-key"), scopes: ["bookings:write"] },
+    { id: "ops", hash: hashApiKey("ops-key"), scopes: ["admin"] },
+  ])
+);
+
+// The public scopes are read when the routes are defined
+function createApp(): Hono {
+  const app = new Hono();
+  app.get("/slots", requireScope("slots:read"), (c) => c.text("slots"));
+  app.post("/book", requireScope("bookings:write"), (c) => c.text("booked"));
+  app.get("/admin/stats", requireScope("admin"), (c) => c.text("stats"));
+  return app;
+}
+
+const call = async (path: string, init?: RequestInit) =>
+  (await createApp().request(path, init)).status;
+
+afterEach(() => {
+  delete process.env.CALENDAR_PUBLIC_SCOPES;
+});
+
+describe("requireScope", () => {
+  test("lets public scopes pass without a key", async () => {
+    expect(await call("/slots")).toBe(200);
+    expect(await call("/book", { method: "POST" })).toBe(401);
+    expect(await call("/admin/stats")).toBe(401);
+
+    process.env.CALENDAR_PUBLIC_SCOPES = "slots:read,bookings:write";
+    expect(await call("/book", { method: "POST" })).toBe(200);
+  });
+
+  test("checks the scopes of the key", async () => {
+    process.env.CALENDAR_PUBLIC_SCOPES = "";
+
+    expect(await call("/slots")).toBe(401);
+    expect(
+      await call("/book", {
+        method: "POST",
+        headers: { Authorization: "Bearer site-key" },
+      })
+    ).toBe(200);
+    expect(
+      await call("/admin/stats", { headers: { "X-API-Key": "site-key" } })
+    ).toBe(403);
+    expect(
+      await call("/admin/stats", { headers: { "X-API-Key": "ops-key" } })
+    ).toBe(200);
+    expect(
+      await call("/slots", { headers: { Authorization: "Bearer wrong" } })
+    ).toBe(401);
+  });
+
+  test("rejects invalid public scopes when the routes are defined", () => {
+    process.env.CALENDAR_PUBLIC_SCOPES = "admin";
+    expect(() => requireScope("slots:read")).toThrow(
+      "Invalid CALENDAR_PUBLIC_SCOPES"
+    );
+  });
+});
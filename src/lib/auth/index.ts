@@ -0,0 +1,155 @@
+import fs from "fs";
+import path from "path";
+import { createHash, timingSafeEqual } from "crypto";
+import type { Context, MiddlewareHandler } from "hono";
+import * as v from "valibot";
+import log from "../log";
+
+// - slots:read: free slots, busy times and event types
+// - bookings:write: hold and book slots
+// - admin: the routes under /admin, includes all other scopes
+export const apiKeyScopes = ["slots:read", "bookings:write", "admin"] as const;
+
+export type ApiKeyScope = (typeof apiKeyScopes)[number];
+
+// Prefix of the routes that need the admin scope
+export const ADMIN_PREFIX = "/admin";
+
+const apiKeySchema = v.object({
+  id: v.pipe(v.string(), v.nonEmpty()),
+  // SHA-256 of the key as hex, the key itself is not stored
+  hash: v.pipe(
+    v.string(),
+    v.regex(/^[0-9a-f]{64}$/i, "The hash must be the SHA-256 hex digest")
+  ),
+  scopes: v.pipe(v.array(v.picklist(apiKeyScopes)), v.minLength(1)),
+});
+
+/**
+ * A client of the API with the scopes it may use
+ */
+export interface ApiKey {
+  id: string;
+  hash: Buffer;
+  scopes: ApiKeyScope[];
+}
+
+let cachedApiKeys: ApiKey[] | undefined;
+
+/**
+ * Load the API keys from the JSON file in CALENDAR_API_KEYS_FILE.
+ * Returns an empty list if no file is configured.
+ */
+export function getApiKeys(): ApiKey[] {
+  if (cachedApiKeys) {
+    return cachedApiKeys;
+  }
+
+  const file = process.env.CALENDAR_API_KEYS_FILE;
+  if (!file) {
+    cachedApiKeys = [];
+    return cachedApiKeys;
+  }
+
+  try {
+    const content = fs.readFileSync(path.resolve(process.cwd(), file), "utf8");
+    const parsed = v.parse(v.array(apiKeySchema), JSON.parse(content));
+    cachedApiKeys = parsed.map((apiKey) => ({
+      id: apiKey.id,
+      hash: Buffer.from(apiKey.hash, "hex"),
+      scopes: apiKey.scopes,
+    }));
+    log.info(`Loaded ${cachedApiKeys.length} API keys from ${file}`);
+    return cachedApiKeys;
+  } catch (error) {
+    throw new Error(
+      `Failed to load API keys from ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+// Hash a key like the hashes in the API keys file
+export function hashApiKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+/**
+ * Find the API key of a key sent by a client. All hashes are compared in
+ * constant time.
+ */
+export function findApiKey(key: string): ApiKey | undefined {
+  const hash = createHash("sha256").update(key).digest();
+  let found: ApiKey | undefined;
+  for (const apiKey of getApiKeys()) {
+    if (timingSafeEqual(apiKey.hash, hash)) {
+      found = apiKey;
+    }
+  }
+  return found;
+}
+
+/**
+ * Scopes that do not need an API key, from CALENDAR_PUBLIC_SCOPES
+ * (comma separated, default "slots:read"). The admin scope always needs
+ * a key. Throws if the variable lists other scopes.
+ */
+export function getPublicScopes(): ApiKeyScope[] {
+  const value = process.env.CALENDAR_PUBLIC_SCOPES ?? "slots:read";
+  return v.parse(
+    v.array(
+      v.picklist(
+        ["slots:read", "bookings:write"],
+        "Invalid CALENDAR_PUBLIC_SCOPES. Use slots:read, bookings:write or nothing."
+      )
+    ),
+    value
+      .split(",")
+      .map((scope) => scope.trim())
+      .filter(Boolean)
+  );
+}
+
+// Check if a list of scopes allows a scope
+export function hasScope(scopes: ApiKeyScope[], scope: ApiKeyScope): boolean {
+  return scopes.includes("admin") || scopes.includes(scope);
+}
+
+// Get the key of a request from "Authorization: Bearer <key>" or
+// "X-API-Key: <key>"
+function getRequestKey(c: Context): string | undefined {
+  const authorization = c.req.header("Authorization");
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+  return bearer?.[1].trim() || c.req.header("X-API-Key") || undefined;
+}
+
+/**
+ * Middleware that lets a request pass if the scope is public or the request
+ * has an API key with the scope. Answers 401 without a valid key and 403 if
+ * the key lacks the scope. The public scopes are read when the middleware
+ * is created, so that an invalid CALENDAR_PUBLIC_SCOPES fails at startup.
+ */
+export function requireScope(scope: ApiKeyScope): MiddlewareHandler {
+  const isPublic = hasScope(getPublicScopes(), scope);
+  return async (c, next) => {
+    if (isPublic) {
+      return next();
+    }
+
+    const key = getRequestKey(c);
+    const apiKey = key ? findApiKey(key) : undefined;
+    if (!apiKey) {
+      c.header("WWW-Authenticate", 'Bearer realm="calendar"');
+      return c.json(
+        { error: key ? "Invalid API key" : "An API key is required" },
+        401
+      );
+    }
+    if (!hasScope(apiKey.scopes, scope)) {
+      return c.json(
+        { error: `The API key ${apiKey.id} lacks the ${scope} scope` },
+        403
+      );
+    }
+    return next();
+  };
+}
@@ -0,0 +1,55 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { Hono } from "hono";
+import { limitBookingRequests } from "./rate-limit";
+
+// The limit is read when the routes are defined
+function createApp(): Hono {
+  const app = new Hono();
+  app.post("/book", limitBookingRequests(), (c) => c.text("booked"));
+  return app;
+}
+
+const book = (app: Hono, address: string) =>
+  app.request("/book", {
+    method: "POST",
+    headers: { "X-Forwarded-For": address },
+  });
+
+afterEach(() => {
+  delete process.env.CALENDAR_RATE_LIMIT;
+  delete process.env.CALENDAR_TRUST_PROXY;
+});
+
+describe("limitBookingRequests", () => {
+  test("answers 429 above the limit of a client", async () => {
+    process.env.CALENDAR_RATE_LIMIT = "2";
+    process.env.CALENDAR_TRUST_PROXY = "true";
+    const app = createApp();
+
+    expect((await book(app, "192.0.2.1")).status).toBe(200);
+    expect((await book(app, "192.0.2.1")).status).toBe(200);
+    const limited = await book(app, "192.0.2.1");
+    expect(limited.status).toBe(429);
+    expect(await limited.json()).toEqual({
+      error: "Too many requests, please try again later",
+    });
+    expect((await book(app, "192.0.2.2")).status).toBe(200);
+  });
+
+  test("ignores X-Forwarded-For without a trusted proxy", async () => {
+    process.env.CALENDAR_RATE_LIMIT = "1";
+    const app = createApp();
+
+    expect((await book(app, "192.0.2.1")).status).toBe(200);
+    expect((await book(app, "192.0.2.2")).status).toBe(429);
+  });
+
+  test("does not limit with a limit of 0", async () => {
+    process.env.CALENDAR_RATE_LIMIT = "0";
+    const app = createApp();
+
+    for (let i = 0; i < 30; i++) {
+      expect((await book(app, "192.0.2.1")).status).toBe(200);
+    }
+  });
+});
@@ -0,0 +1,49 @@
+import type { Context, MiddlewareHandler } from "hono";
+import { getConnInfo } from "hono/bun";
+import { rateLimiter } from "hono-rate-limiter";
+
+const WINDOW_MS = 15 * 60 * 1000;
+
+// Requests per client and 15 minutes that create or change bookings, from
+// CALENDAR_RATE_LIMIT (default 20, 0 for no limit)
+export function getRateLimit(): number {
+  const limit = Number(process.env.CALENDAR_RATE_LIMIT || 20);
+  return Number.isInteger(limit) && limit >= 0 ? limit : 20;
+}
+
+/**
+ * The address of the client. Behind a reverse proxy
+ * (CALENDAR_TRUST_PROXY=true), the first address of X-Forwarded-For.
+ */
+export function getClientAddress(c: Context): string {
+  if (process.env.CALENDAR_TRUST_PROXY === "true") {
+    const forwarded = c.req.header("X-Forwarded-For")?.split(",")[0].trim();
+    if (forwarded) {
+      return forwarded;
+    }
+  }
+  try {
+    return getConnInfo(c).remote.address || "unknown";
+  } catch {
+    // Not served by Bun, e.g. in tests
+    return "unknown";
+  }
+}
+
+/**
+ * Middleware that limits the requests of a client to the routes that
+ * create or change bookings. Answers 429 above the limit.
+ */
+export function limitBookingRequests(): MiddlewareHandler {
+  const limit = getRateLimit();
+  if (limit === 0) {
+    return (_c, next) => next();
+  }
+  return rateLimiter({
+    windowMs: WINDOW_MS,
+    limit,
+    standardHeaders: "draft-6",
+    keyGenerator: getClientAddress,
+    message: { error: "Too many requests, please try again later" },
+  });
+}
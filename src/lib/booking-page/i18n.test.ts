@@ -0,0 +1,32 @@
+import { describe, test, expect, afterEach } from "bun:test";
+import { getPageMessages, resolvePageLanguage } from "./i18n";
+
+afterEach(() => {
+  delete process.env.CALENDAR_PAGE_LANGUAGE;
+});
+
+describe("resolvePageLanguage", () => {
+  test("prefers the requested language", () => {
+    expect(resolvePageLanguage("de", "en-US,en;q=0.9")).toBe("de");
+  });
+
+  test("uses the first supported language of the browser", () => {
+    expect(resolvePageLanguage(undefined, "fr-CH,fr;q=0.9,de;q=0.8")).toBe(
+      "de"
+    );
+    expect(resolvePageLanguage("xx", "en;q=0.5,de-DE;q=0.7")).toBe("de");
+  });
+
+  test("falls back to CALENDAR_PAGE_LANGUAGE", () => {
+    expect(resolvePageLanguage(undefined, "fr")).toBe("en");
+    process.env.CALENDAR_PAGE_LANGUAGE = "de";
+    expect(resolvePageLanguage(undefined, undefined)).toBe("de");
+  });
+});
+
+describe("getPageMessages", () => {
+  test("inserts values into the texts", () => {
+    expect(getPageMessages("de").minutes(30)).toBe("30 Min.");
+    expect(getPageMessages("en").meetingWith("Jane")).toBe("Meeting with Jane");
+  });
+});
@@ -0,0 +1,198 @@
+export const pageLanguages = ["en", "de"] as const;
+
+export type PageLanguage = (typeof pageLanguages)[number];
+
+/**
+ * The texts of the booking page. Functions get the values to insert.
+ */
+export interface PageMessages {
+  title: string;
+  chooseEventType: string;
+  minutes: (count: number) => string;
+  previousMonth: string;
+  nextMonth: string;
+  chooseDay: string;
+  noSlotsInMonth: string;
+  chooseTime: (day: string) => string;
+  noSlotsOnDay: string;
+  timesIn: (timeZone: string) => string;
+  back: string;
+  yourDetails: string;
+  name: string;
+  email: string;
+  notes: string;
+  confirm: string;
+  meetingWith: (name: string) => string;
+  invalidName: string;
+  invalidEmail: string;
+  slotTaken: string;
+  invalidSlot: string;
+  bookingFailed: string;
+  booked: string;
+  pending: string;
+  confirmationSent: (email: string) => string;
+  joinMeeting: string;
+  meetingPassword: string;
+  unknownEventType: string;
+  loadingFailed: string;
+  // Pages of the cancel and reschedule links
+  cancelBooking: string;
+  cancelQuestion: string;
+  cancelled: string;
+  isCancelled: string;
+  rescheduleBooking: string;
+  chooseNewTime: string;
+  currentTime: string;
+  newTime: string;
+  moveBooking: string;
+  rescheduled: string;
+  changeFailed: string;
+  invalidLink: string;
+  wrongLink: string;
+  unknownBooking: string;
+  bookingStarted: string;
+}
+
+const messages: Record<PageLanguage, PageMessages> = {
+  en: {
+    title: "Book a meeting",
+    chooseEventType: "What would you like to book?",
+    minutes: (count) => `${count} min`,
+    previousMonth: "Previous month",
+    nextMonth: "Next month",
+    chooseDay: "Choose a day",
+    noSlotsInMonth: "No free times this month.",
+    chooseTime: (day) => `Free times on ${day}`,
+    noSlotsOnDay: "No free times on this day.",
+    timesIn: (timeZone) => `Times in ${timeZone}`,
+    back: "Back",
+    yourDetails: "Your details",
+    name: "Name",
+    email: "Email",
+    notes: "Anything we should know?",
+    confirm: "Book",
+    meetingWith: (name) => `Meeting with ${name}`,
+    invalidName: "Please enter your name.",
+    invalidEmail: "Please enter a valid email address.",
+    slotTaken: "This time was just booked. Please choose another one.",
+    invalidSlot: "This time is not available. Please choose another one.",
+    bookingFailed: "The booking failed. Please try again later.",
+    booked: "Your meeting is booked",
+    pending: "Your request was sent and waits for confirmation",
+    confirmationSent: (email) => `A confirmation was sent to ${email}.`,
+    joinMeeting: "Join the meeting",
+    meetingPassword: "Password",
+    unknownEventType: "This booking page does not exist.",
+    loadingFailed:
+      "The free times could not be loaded. Please try again later.",
+    cancelBooking: "Cancel booking",
+    cancelQuestion: "Do you want to cancel this booking?",
+    cancelled: "Your booking has been cancelled",
+    isCancelled: "This booking is cancelled.",
+    rescheduleBooking: "Reschedule",
+    chooseNewTime: "Choose a new time",
+    currentTime: "Current time",
+    newTime: "New time",
+    moveBooking: "Move booking",
+    rescheduled: "Your booking has been moved",
+    changeFailed: "The change failed. Please try again later.",
+    invalidLink: "This link is invalid or has expired.",
+    wrongLink: "This link does not allow this change.",
+    unknownBooking: "This booking does not exist.",
+    bookingStarted: "This booking has already started.",
+  },
+  de: {
+    title: "Termin buchen",
+    chooseEventType: "Was möchten Sie buchen?",
+    minutes: (count) => `${count} Min.`,
+    previousMonth: "Vorheriger Monat",
+    nextMonth: "Nächster Monat",
+    chooseDay: "Tag auswählen",
+    noSlotsInMonth: "Keine freien Termine in diesem Monat.",
+    chooseTime: (day) => `Freie Zeiten am ${day}`,
+    noSlotsOnDay: "Keine freien Zeiten an diesem Tag.",
+    timesIn: (timeZone) => `Zeiten in ${timeZone}`,
+    back: "Zurück",
+    yourDetails: "Ihre Angaben",
+    name: "Name",
+    email: "E-Mail",
+    notes: "Möchten Sie uns etwas mitteilen?",
+    confirm: "Buchen",
+    meetingWith: (name) => `Termin mit ${name}`,
+    invalidName: "Bitte geben Sie Ihren Namen ein.",
+    invalidEmail: "Bitte geben Sie eine gültige E-Mail-Adresse ein.",
+    slotTaken:
+      "Dieser Termin wurde gerade gebucht. Bitte wählen Sie einen anderen.",
+    invalidSlot:
+      "Dieser Termin ist nicht verfügbar. Bitte wählen Sie einen anderen.",
+    bookingFailed:
+      "Die Buchung ist fehlgeschlagen. Bitte versuchen Sie es später erneut.",
+    booked: "Ihr Termin ist gebucht",
+    pending: "Ihre Anfrage wurde gesendet und wartet auf Bestätigung",
+    confirmationSent: (email) => `Eine Bestätigung wurde an ${email} gesendet.`,
+    joinMeeting: "Am Meeting teilnehmen",
+    meetingPassword: "Passwort",
+    unknownEventType: "Diese Buchungsseite existiert nicht.",
+    loadingFailed:
+      "Die freien Termine konnten nicht geladen werden. Bitte versuchen Sie es später erneut.",
+    cancelBooking: "Termin absagen",
+    cancelQuestion: "Möchten Sie diesen Termin absagen?",
+    cancelled: "Ihr Termin wurde abgesagt",
+    isCancelled: "Dieser Termin ist abgesagt.",
+    rescheduleBooking: "Verschieben",
+    chooseNewTime: "Neue Zeit wählen",
+    currentTime: "Bisherige Zeit",
+    newTime: "Neue Zeit",
+    moveBooking: "Termin verschieben",
+    rescheduled: "Ihr Termin wurde verschoben",
+    changeFailed:
+      "Die Änderung ist fehlgeschlagen. Bitte versuchen Sie es später erneut.",
+    invalidLink: "Dieser Link ist ungültig oder abgelaufen.",
+    wrongLink: "Dieser Link erlaubt diese Änderung nicht.",
+    unknownBooking: "Dieser Termin existiert nicht.",
+    bookingStarted: "Dieser Termin hat bereits begonnen.",
+  },
+};
+
+function isPageLanguage(language: string): language is PageLanguage {
+  return (pageLanguages as readonly string[]).includes(language);
+}
+
+/**
+ * Pick the language of the page: the requested one, the first supported
+ * one of the Accept-Language header or CALENDAR_PAGE_LANGUAGE (default en)
+ */
+export function resolvePageLanguage(
+  requested?: string,
+  acceptLanguage?: string
+): PageLanguage {
+  if (requested && isPageLanguage(requested)) {
+    return requested;
+  }
+
+  // e.g. "de-CH,de;q=0.9,en;q=0.8"
+  const accepted = (acceptLanguage || "")
+    .split(",")
+    .map((entry) => {
+      const [tag, ...params] = entry.trim().split(";");
+      const quality = params.find((param) => param.trim().startsWith("q="));
+      return {
+        language: tag.split("-")[0].toLowerCase(),
+        quality: quality ? Number(quality.trim().slice(2)) : 1,
+      };
+    })
+    .filter((entry) => entry.quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+  const match = accepted.find((entry) => isPageLanguage(entry.language));
+  if (match) {
+    return match.language as PageLanguage;
+  }
+
+  const fallback = process.env.CALENDAR_PAGE_LANGUAGE || "en";
+  return isPageLanguage(fallback) ? fallback : "en";
+}
+
+// Get the texts of a language
+export function getPageMessages(language: PageLanguage): PageMessages {
+  return messages[language];
+}
@@ -0,0 +1,51 @@
+export const themeModes = ["light", "dark", "auto"] as const;
+
+export type ThemeMode = (typeof themeModes)[number];
+
+/**
+ * The look of the booking page, set by query parameters of the page or
+ * the data attributes of the embed script
+ */
+export interface PageTheme {
+  // "auto" follows the color scheme of the visitor
+  mode: ThemeMode;
+  // Color of buttons and links as #rrggbb or #rgb
+  accent: string;
+  // Rendered in the iframe of the embed script, without the page header
+  embed: boolean;
+}
+
+const DEFAULT_ACCENT = "#0067b8";
+
+// Add the # to a hex color, undefined if it is not a hex color
+function parseHexColor(value?: string): string | undefined {
+  const match = value?.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  return match ? `#${match[1].toLowerCase()}` : undefined;
+}
+
+/**
+ * Get the theme of a request. Invalid values fall back to
+ * CALENDAR_PAGE_THEME and CALENDAR_PAGE_ACCENT.
+ */
+export function resolvePageTheme(query: {
+  theme?: string;
+  accent?: string;
+  embed?: string;
+}): PageTheme {
+  const isMode = (mode?: string): mode is ThemeMode =>
+    (themeModes as readonly (string | undefined)[]).includes(mode);
+  const fallbackMode = process.env.CALENDAR_PAGE_THEME;
+
+  return {
+    mode: isMode(query.theme)
+      ? query.theme
+      : isMode(fallbackMode)
+        ? fallbackMode
+        : "auto",
+    accent:
+      parseHexColor(query.accent) ??
+      parseHexColor(process.env.CALENDAR_PAGE_ACCENT) ??
+      DEFAULT_ACCENT,
+    embed: query.embed === "1" || query.embed === "true",
+  };
+}
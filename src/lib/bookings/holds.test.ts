@@ -0,0 +1,87 @@
+import { describe, test, expect, afterEach, setSystemTime } from "bun:test";
+import { createHold, getHeldRanges, getHold, releaseHold } from "./holds";
+
+const slot = (start: string, end: string, hostIds: string[] = []) => ({
+  start: new Date(start),
+  end: new Date(end),
+  hostIds,
+});
+
+const created: string[] = [];
+function hold(params: Parameters<typeof createHold>[0]) {
+  const result = createHold(params);
+  if (result) created.push(result.id);
+  return result;
+}
+
+afterEach(() => {
+  setSystemTime();
+  created.splice(0).forEach(releaseHold);
+});
+
+describe("createHold", () => {
+  test("rejects a hold that overlaps another one", () => {
+    expect(
+      hold(slot("2026-11-09T09:00:00Z", "2026-11-09T10:00:00Z"))
+    ).toBeDefined();
+    expect(
+      hold(slot("2026-11-09T09:30:00Z", "2026-11-09T10:30:00Z"))
+    ).toBeUndefined();
+    expect(
+      hold(slot("2026-11-09T10:00:00Z", "2026-11-09T11:00:00Z"))
+    ).toBeDefined();
+  });
+
+  test("only blocks the held hosts", () => {
+    const anna = slot("2026-11-09T09:00:00Z", "2026-11-09T10:00:00Z", ["anna"]);
+    expect(hold(anna)).toBeDefined();
+    expect(hold({ ...anna, hostIds: ["anna"] })).toBeUndefined();
+    expect(hold({ ...anna, hostIds: ["ben"] })).toBeDefined();
+    // The calendar owner is not a host
+    expect(hold({ ...anna, hostIds: [] })).toBeDefined();
+    expect(getHeldRanges("anna")).toHaveLength(1);
+  });
+
+  test("moves a hold to another slot", () => {
+    const first = hold(slot("2026-11-09T09:00:00Z", "2026-11-09T10:00:00Z"))!;
+    expect(
+      hold({
+        ...slot("2026-11-09T09:30:00Z", "2026-11-09T10:30:00Z"),
+        ignoreHoldId: first.id,
+      })
+    ).toBeDefined();
+  });
+});
+
+describe("releaseHold", () => {
+  test("frees the slot", () => {
+    const first = hold(slot("2026-11-09T09:00:00Z", "2026-11-09T10:00:00Z"))!;
+    expect(releaseHold(first.id)).toBe(true);
+    expect(releaseHold(first.id)).toBe(false);
+    expect(getHold(first.id)).toBeUndefined();
+    expect(
+      hold(slot("2026-11-09T09:00:00Z", "2026-11-09T10:00:00Z"))
+    ).toBeDefined();
+  });
+});
+
+describe("hold expiry", () => {
+  test("frees the slot after the hold minutes", () => {
+    setSystemTime(new Date("2026-11-01T08:00:00Z"));
+    const first = hold({
+      ...slot("2026-11-09T09:00:00Z", "2026-11-09T10:00:00Z"),
+      minutes: 5,
+    })!;
+    expect(first.expiresAt.toISOString()).toBe("2026-11-01T08:05:00.000Z");
+
+    setSystemTime(new Date("2026-11-01T08:04:59Z"));
+    expect(getHold(first.id)).toBeDefined();
+
+    setSystemTime(new Date("2026-11-01T08:05:00Z"));
+    expect(getHold(first.id)).toBeUndefined();
+    expect(getHeldRanges()).toHaveLength(0);
+    expect(
+      hold(slot("2026-11-09T09:00:00Z", "2026-11-09T10:00:00Z"))
+    ).toBeDefined();
+  });
+});
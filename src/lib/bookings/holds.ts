@@ -0,0 +1,105 @@
+import { randomUUID } from "crypto";
+import log from "../log";
+
+/**
+ * A short-lived reservation of a slot, e.g. while a visitor fills in the
+ * booking form. Held slots are not offered to other visitors.
+ * "hostIds" holds the assigned hosts of team event types and is empty for
+ * the calendar owner.
+ */
+export interface SlotHold {
+  id: string;
+  start: Date;
+  end: Date;
+  eventType?: string;
+  hostIds: string[];
+  expiresAt: Date;
+}
+
+const holds = new Map<string, SlotHold>();
+
+// Get the lifetime of a hold in minutes
+export function getHoldMinutes(): number {
+  return Number(process.env.CALENDAR_HOLD_MINUTES) || 5;
+}
+
+// Remove expired holds
+function purgeExpiredHolds(now: number = Date.now()): void {
+  for (const [id, hold] of holds) {
+    if (hold.expiresAt.getTime() <= now) {
+      holds.delete(id);
+    }
+  }
+}
+
+// Check if a hold blocks the calendar of a host (or of the owner)
+function holdsHost(hold: SlotHold, hostId?: string): boolean {
+  return hostId === undefined
+    ? hold.hostIds.length === 0
+    : hold.hostIds.includes(hostId);
+}
+
+/**
+ * Get the held time ranges of a host or, without a host, of the calendar
+ * owner. The hold with the id "ignoreHoldId" is skipped.
+ */
+export function getHeldRanges(
+  hostId?: string,
+  ignoreHoldId?: string
+): { start: Date; end: Date }[] {
+  purgeExpiredHolds();
+  return [...holds.values()]
+    .filter((hold) => hold.id !== ignoreHoldId && holdsHost(hold, hostId))
+    .map((hold) => ({ start: hold.start, end: hold.end }));
+}
+
+/**
+ * Hold a slot for the given hosts. Returns undefined if an overlapping hold
+ * exists. The check and the insert run without await, so that two requests
+ * can never hold the same slot.
+ */
+export function createHold(params: {
+  start: Date;
+  end: Date;
+  eventType?: string;
+  hostIds: string[];
+  minutes?: number;
+  ignoreHoldId?: string;
+}): SlotHold | undefined {
+  const hostIds = params.hostIds.length > 0 ? params.hostIds : [undefined];
+  const conflict = hostIds.some((hostId) =>
+    getHeldRanges(hostId, params.ignoreHoldId).some(
+      (range) => range.start < params.end && range.end > params.start
+    )
+  );
+  if (conflict) {
+    return undefined;
+  }
+
+  const hold: SlotHold = {
+    id: randomUUID(),
+    start: params.start,
+    end: params.end,
+    eventType: params.eventType,
+    hostIds: params.hostIds,
+    expiresAt: new Date(
+      Date.now() + (params.minutes ?? getHoldMinutes()) * 60 * 1000
+    ),
+  };
+  holds.set(hold.id, hold);
+  log.info(
+    `Holding slot ${hold.start.toISOString()} until ${hold.expiresAt.toISOString()} (${hold.id})`
+  );
+  return hold;
+}
+
+// Get a hold that has not expired yet
+export function getHold(id: string): SlotHold | undefined {
+  purgeExpiredHolds();
+  return holds.get(id);
+}
+
+// Release a hold. Returns false if it did not exist (anymore).
+export function releaseHold(id: string): boolean {
+  return holds.delete(id);
+}
@@ -0,0 +1,66 @@
+import { describe, test, expect } from "bun:test";
+import { runIdempotent } from "./idempotency";
+
+describe("runIdempotent", () => {
+  test("replays the result of a key", async () => {
+    let runs = 0;
+    const run = async () => ({ booking: ++runs });
+
+    expect(await runIdempotent("replay", { start: "09:00" }, run)).toEqual({
+      status: "new",
+      result: { booking: 1 },
+    });
+    expect(await runIdempotent("replay", { start: "09:00" }, run)).toEqual({
+      status: "replayed",
+      result: { booking: 1 },
+    });
+    expect(runs).toBe(1);
+  });
+
+  test("shares a run that is still running", async () => {
+    let runs = 0;
+    let finish = () => {};
+    const run = () =>
+      new Promise<number>((resolve) => {
+        runs++;
+        finish = () => resolve(runs);
+      });
+
+    const first = runIdempotent("concurrent", {}, run);
+    const second = runIdempotent("concurrent", {}, run);
+    finish();
+
+    expect(await first).toEqual({ status: "new", result: 1 });
+    expect(await second).toEqual({ status: "replayed", result: 1 });
+    expect(runs).toBe(1);
+  });
+
+  test("rejects a key reused for another request", async () => {
+    await runIdempotent("reused", { start: "09:00" }, async () => "booked");
+    expect(
+      await runIdempotent("reused", { start: "10:00" }, async () => "booked")
+    ).toEqual({ status: "conflict" });
+  });
+
+  test("runs again after a result that is not kept or an error", async () => {
+    let runs = 0;
+    const run = async () => ++runs;
+    const keep = (result: number) => result > 1;
+
+    await runIdempotent("retry", {}, run, keep);
+    expect(await runIdempotent("retry", {}, run, keep)).toEqual({
+      status: "new",
+      result: 2,
+    });
+
+    await expect(
+      runIdempotent("failed", {}, async () => {
+        throw new Error("CalDAV server down");
+      })
+    ).rejects.toThrow("CalDAV server down");
+    expect(await runIdempotent("failed", {}, run)).toEqual({
+      status: "new",
+      result: 3,
+    });
+  });
+});
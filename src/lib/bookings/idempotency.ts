@@ -0,0 +1,71 @@
+import { createHash } from "crypto";
+
+interface IdempotencyEntry {
+  fingerprint: string;
+  result: Promise<unknown>;
+  createdAt: number;
+}
+
+const entries = new Map<string, IdempotencyEntry>();
+
+// Get the time an idempotency key is remembered in milliseconds
+function getIdempotencyTtlMs(): number {
+  return (
+    (Number(process.env.CALENDAR_IDEMPOTENCY_HOURS) || 24) * 60 * 60 * 1000
+  );
+}
+
+// Remove expired keys
+function purgeExpiredEntries(now: number = Date.now()): void {
+  for (const [key, entry] of entries) {
+    if (now - entry.createdAt >= getIdempotencyTtlMs()) {
+      entries.delete(key);
+    }
+  }
+}
+
+export type IdempotentResult<T> =
+  | { status: "new" | "replayed"; result: T }
+  // The key was used before with a different request
+  | { status: "conflict" };
+
+/**
+ * Run "run" at most once per idempotency key. A retry with the same key and
+ * the same request gets the result of the first run, also while it is still
+ * running. Results for which "keep" returns false (e.g. temporary errors)
+ * are forgotten, so that a retry runs again.
+ */
+export async function runIdempotent<T>(
+  key: string,
+  request: unknown,
+  run: () => Promise<T>,
+  keep: (result: T) => boolean = () => true
+): Promise<IdempotentResult<T>> {
+  purgeExpiredEntries();
+
+  const fingerprint = createHash("sha256")
+    .update(JSON.stringify(request))
+    .digest("hex");
+
+  const existing = entries.get(key);
+  if (existing) {
+    if (existing.fingerprint !== fingerprint) {
+      return { status: "conflict" };
+    }
+    return { status: "replayed", result: (await existing.result) as T };
+  }
+
+  const result = run();
+  entries.set(key, { fingerprint, result, createdAt: Date.now() });
+
+  try {
+    const value = await result;
+    if (!keep(value)) {
+      entries.delete(key);
+    }
+    return { status: "new", result: value };
+  } catch (error) {
+    entries.delete(key);
+    throw error;
+  }
+}
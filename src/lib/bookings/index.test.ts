@@ -0,0 +1,124 @@
+import { describe, test, expect, beforeAll, afterAll, mock } from "bun:test";
+import { urlContains } from "tsdav";
+
+const calendar = { url: "https://dav.example.com/check-slot/calendar/" };
+const objects: { url: string; etag: string; data: string }[] = [];
+mock.module("tsdav", () => ({
+  urlContains,
+  createDAVClient: async () => ({
+    fetchCalendars: async () => [calendar],
+    isCollectionDirty: async () => ({
+      isDirty: true,
+      newCtag: String(objects.length),
+    }),
+    fetchCalendarObjects: async () => [...objects],
+  }),
+}));
+
+const { checkSlot, holdSlot } = await import(".");
+const { releaseHold } = await import("./holds");
+
+// An event written to the calendar by someone else
+function addEvent(uid: string, start: string, end: string) {
+  objects.push({
+    url: `${calendar.url}${uid}.ics`,
+    etag: `"${objects.length}"`,
+    data: [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      `UID:${uid}`,
+      `DTSTART:${start}`,
+      `DTEND:${end}`,
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n"),
+  });
+}
+
+describe("checkSlot", () => {
+  const environment = {
+    CALENDAR_CALDAV_URL: "https://dav.example.com/",
+    CALENDAR_CALDAV_USER: "check-slot",
+    CALENDAR_CALDAV_PASSWORD: "secret",
+    CALENDAR_CALDAV_CALENDARNAME: "",
+    CALENDAR_CALENDARS_FILE: "",
+    CALENDAR_HOSTS_FILE: "",
+    CALENDAR_AVAILABLE_MON: "09:00-17:00",
+    CALENDAR_TIMEZONE: "UTC",
+    CALENDAR_SLOTS_LENGTH: "1",
+    CALENDAR_MIN_NOTICE: "0",
+    CALENDAR_MAX_DAYS_AHEAD: "3650",
+    CALENDAR_BUFFER_BEFORE: "0",
+    CALENDAR_BUFFER_AFTER: "0",
+    CALENDAR_SYNC_INTERVAL: "3600",
+  };
+  const previous = Object.fromEntries(
+    Object.keys(environment).map((key) => [key, process.env[key]])
+  );
+
+  beforeAll(() => {
+    Object.assign(process.env, environment);
+  });
+
+  afterAll(() => {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  test("checks the calendar for new events", async () => {
+    const slot = { start: "2026-11-09T09:00:00.000Z", duration: 1 };
+    expect((await checkSlot(slot)).success).toBe(true);
+
+    // Within CALENDAR_SYNC_INTERVAL of the last check
+    addEvent("other", "20261109T090000Z", "20261109T100000Z");
+    expect(await checkSlot(slot)).toMatchObject({
+      success: false,
+      errorCode: "SLOT_TAKEN",
+    });
+  });
+
+  test("lets only the holder book a held slot", async () => {
+    const held = await holdSlot({
+      start: "2026-11-09T11:00:00.000Z",
+      duration: 1,
+    });
+    if (!held.success) throw new Error(held.error);
+
+    expect(
+      await checkSlot({ start: "2026-11-09T11:00:00.000Z", duration: 1 })
+    ).toMatchObject({ success: false, errorCode: "SLOT_TAKEN" });
+    expect(
+      (
+        await checkSlot({
+          start: "2026-11-09T11:00:00.000Z",
+          duration: 1,
+          holdId: held.hold.id,
+        })
+      ).success
+    ).toBe(true);
+    releaseHold(held.hold.id);
+  });
+
+  test("rejects a hold of another slot", async () => {
+    const held = await holdSlot({
+      start: "2026-11-09T13:00:00.000Z",
+      duration: 1,
+    });
+    if (!held.success) throw new Error(held.error);
+
+    expect(
+      await checkSlot({
+        start: "2026-11-09T14:00:00.000Z",
+        duration: 1,
+        holdId: held.hold.id,
+      })
+    ).toEqual({
+      success: false,
+      error: "The hold does not match the requested slot",
+      errorCode: "INVALID_SLOT",
+    });
+    releaseHold(held.hold.id);
+  });
+});
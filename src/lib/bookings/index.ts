@@ -0,0 +1,246 @@
+import {
+  checkBookingWindow,
+  getAvailableHostsForSlot,
+  getAvailableSlotsForDay,
+  getCalendarConfig,
+  type SlotOptions,
+} from "../calendar";
+import { formatDateInTimeZone } from "../calendar/timezone";
+import type { EventType } from "../event-types";
+import { getEventTypeHosts, type Host } from "../hosts";
+import { selectRoundRobinHost } from "../hosts/round-robin";
+import log from "../log";
+import { createHold, getHold, type SlotHold } from "./holds";
+
+/**
+ * Reasons why a booking can fail
+ * - INVALID_SLOT: the requested start/duration can never be booked
+ * - SLOT_TAKEN: the slot is valid but not (or no longer) available
+ * - PROVIDER_ERROR: the meeting provider or the CalDAV server failed
+ */
+export type BookingErrorCode = "INVALID_SLOT" | "SLOT_TAKEN" | "PROVIDER_ERROR";
+
+export interface SlotRequest {
+  start: string; // date and time in ISO format
+  duration?: number; // in hours, defaults to the duration of the event type
+  eventType?: EventType;
+  // Hold of the visitor for this slot, it does not block the slot for them
+  holdId?: string;
+  // Events that do not block the slot, e.g. of the booking to reschedule
+  ignoreEventUids?: string[];
+  // Only assign these hosts of a round-robin event type
+  hostIds?: string[];
+}
+
+export type SlotCheckResult =
+  | {
+      success: true;
+      start: Date;
+      end: Date;
+      duration: number;
+      // Assigned hosts of team event types, empty for the calendar owner
+      hosts: Host[];
+    }
+  | { success: false; error: string; errorCode: BookingErrorCode };
+
+/**
+ * Check if a slot can be booked and assign the hosts of team event types.
+ * Collective event types need all hosts, round-robin event types get the
+ * free host with the lowest load (or the host of the hold).
+ */
+export async function checkSlot(params: SlotRequest): Promise<SlotCheckResult> {
+  const eventType = params.eventType;
+  const duration = params.duration ?? eventType?.duration;
+  if (duration === undefined) {
+    return {
+      success: false,
+      error: "Duration is required",
+      errorCode: "INVALID_SLOT",
+    };
+  }
+
+  const startTime = new Date(params.start);
+  if (isNaN(startTime.getTime())) {
+    return {
+      success: false,
+      error: "Invalid start time",
+      errorCode: "INVALID_SLOT",
+    };
+  }
+
+  const config = await getCalendarConfig(eventType);
+  if (!config.slotLengths.includes(duration)) {
+    return {
+      success: false,
+      error: `Invalid duration. Allowed values: ${config.slotLengths.join(", ")}`,
+      errorCode: "INVALID_SLOT",
+    };
+  }
+
+  const endTime = new Date(
+    startTime.getTime() + Math.round(duration * 60 * 60 * 1000)
+  );
+
+  // check if the start day is the same as the end day (for the calendar owner)
+  if (
+    formatDateInTimeZone(startTime, config.timezone) !==
+    formatDateInTimeZone(new Date(endTime.getTime() - 1), config.timezone)
+  ) {
+    return {
+      success: false,
+      error: "The start date and end date are not the same",
+      errorCode: "INVALID_SLOT",
+    };
+  }
+
+  // check the minimum notice and the maximum days ahead
+  const bookingWindowError = await checkBookingWindow(startTime);
+  if (bookingWindowError) {
+    return {
+      success: false,
+      error: bookingWindowError,
+      errorCode: "INVALID_SLOT",
+    };
+  }
+
+  // An expired hold is ignored, the slot may still be free
+  const hold = params.holdId ? getHold(params.holdId) : undefined;
+  if (
+    hold &&
+    (hold.start.getTime() !== startTime.getTime() ||
+      hold.end.getTime() !== endTime.getTime() ||
+      hold.eventType !== eventType?.slug)
+  ) {
+    return {
+      success: false,
+      error: "The hold does not match the requested slot",
+      errorCode: "INVALID_SLOT",
+    };
+  }
+
+  // The cached events may miss a booking made since the last sync
+  const slotOptions: SlotOptions = {
+    ignoreHoldId: hold?.id,
+    ignoreEventUids: params.ignoreEventUids,
+    fresh: true,
+  };
+  const allowedHostIds = params.hostIds ?? hold?.hostIds;
+
+  try {
+    // Team event types are assigned to hosts that are free for the slot
+    const hosts = getEventTypeHosts(eventType);
+    if (eventType && hosts.length > 0) {
+      const freeHosts = await getAvailableHostsForSlot(
+        startTime,
+        duration,
+        eventType,
+        slotOptions
+      );
+
+      let assignedHosts: Host[];
+      if (eventType.schedulingType === "collective") {
+        assignedHosts = freeHosts.length === hosts.length ? freeHosts : [];
+      } else if (allowedHostIds) {
+        assignedHosts = freeHosts.filter((host) =>
+          allowedHostIds.includes(host.id)
+        );
+      } else {
+        assignedHosts =
+          freeHosts.length > 0
+            ? [await selectRoundRobinHost(freeHosts, startTime)]
+            : [];
+      }
+
+      if (assignedHosts.length === 0) {
+        return {
+          success: false,
+          error: "The requested time slot is no longer available",
+          errorCode: "SLOT_TAKEN",
+        };
+      }
+      return {
+        success: true,
+        start: startTime,
+        end: endTime,
+        duration,
+        hosts: assignedHosts,
+      };
+    }
+
+    const availableSlots = await getAvailableSlotsForDay(
+      startTime,
+      duration,
+      undefined,
+      eventType,
+      slotOptions
+    );
+
+    // Check if the requested time slot is available
+    const isSlotAvailable = availableSlots.some((slot) => {
+      const slotDuration =
+        new Date(slot.end).getTime() - new Date(slot.start).getTime();
+      const requestedDuration = Math.round(duration * 60 * 60 * 1000);
+
+      return (
+        slot.start === startTime.toISOString() &&
+        slotDuration === requestedDuration
+      );
+    });
+
+    if (!isSlotAvailable) {
+      return {
+        success: false,
+        error: "The requested time slot is no longer available",
+        errorCode: "SLOT_TAKEN",
+      };
+    }
+    return {
+      success: true,
+      start: startTime,
+      end: endTime,
+      duration,
+      hosts: [],
+    };
+  } catch (error) {
+    log.error("Error checking availability:", error + "");
+    return {
+      success: false,
+      error: `Failed to check availability: ${error instanceof Error ? error.message : String(error)}`,
+      errorCode: "PROVIDER_ERROR",
+    };
+  }
+}
+
+/**
+ * Check a slot and hold it for CALENDAR_HOLD_MINUTES (or "minutes").
+ * Fails with SLOT_TAKEN if another request holds the slot in the meantime.
+ */
+export async function holdSlot(
+  params: SlotRequest & { minutes?: number }
+): Promise<
+  | { success: true; hold: SlotHold; hosts: Host[] }
+  | { success: false; error: string; errorCode: BookingErrorCode }
+> {
+  const check = await checkSlot(params);
+  if (!check.success) {
+    return check;
+  }
+
+  // No await between here and the insert, see createHold
+  const hold = createHold({
+    start: check.start,
+    end: check.end,
+    eventType: params.eventType?.slug,
+    hostIds: check.hosts.map((host) => host.id),
+    minutes: params.minutes,
+    ignoreHoldId: params.holdId,
+  });
+  if (!hold) {
+    return {
+      success: false,
+      error: "The requested time slot is no longer available",
+      errorCode: "SLOT_TAKEN",
+    };
+  }
+  return { success: true, hold, hosts: check.hosts };
+}
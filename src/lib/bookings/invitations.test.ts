@@ -0,0 +1,79 @@
+import { describe, test, expect, beforeAll, afterAll } from "bun:test";
+import { getMailer, setMailer, type Mailer, type MailMessage } from "../mail";
+import { sendBookingMail } from "./invitations";
+import type { Booking } from "./store";
+
+const sent: MailMessage[] = [];
+let previousMailer: Mailer | undefined;
+beforeAll(() => {
+  previousMailer = getMailer();
+  setMailer({
+    send: async (message) => {
+      sent.push(message);
+    },
+  });
+});
+afterAll(() => {
+  setMailer(previousMailer ?? null);
+});
+
+const booking: Booking = {
+  id: "booking-1",
+  status: "confirmed",
+  title: "Intro call",
+  description: "Agenda, notes",
+  start: "2026-11-09T09:00:00.000Z",
+  end: "2026-11-09T10:00:00.000Z",
+  attendees: ["jane@example.com"],
+  meetingUrl: "https://meet.example.com/1",
+  sequence: 0,
+  events: [
+    {
+      eventUid: "uid-1",
+      uid: "uid-1",
+      url: "https://dav.example.com/cal/uid-1.ics",
+    },
+  ],
+  createdAt: "2026-11-01T00:00:00.000Z",
+  updatedAt: "2026-11-01T00:00:00.000Z",
+};
+
+describe("sendBookingMail", () => {
+  test("sends a REQUEST with the UID of the calendar event", async () => {
+    await sendBookingMail(booking, "booked");
+    const message = sent.pop()!;
+    expect(message.to).toEqual(["jane@example.com"]);
+    expect(message.subject).toStartWith("Invitation: Intro call @ ");
+    expect(message.ics?.method).toBe("REQUEST");
+    expect(message.ics?.content).toContain("METHOD:REQUEST");
+    expect(message.ics?.content).toContain("UID:uid-1");
+    expect(message.ics?.content).toContain("SEQUENCE:0");
+    expect(message.text).toContain("https://meet.example.com/1");
+    expect(message.html).toContain('<a href="https://meet.example.com/1">');
+  });
+
+  test("sends a CANCEL with the increased sequence", async () => {
+    await sendBookingMail(
+      { ...booking, status: "cancelled", sequence: 2 },
+      "cancelled"
+    );
+    const message = sent.pop()!;
+    expect(message.subject).toStartWith("Cancelled: Intro call");
+    expect(message.ics?.content).toContain("METHOD:CANCEL");
+    expect(message.ics?.content).toContain("STATUS:CANCELLED");
+    expect(message.ics?.content).toContain("SEQUENCE:2");
+  });
+
+  test("sends a notice without invitation while waiting for approval", async () => {
+    await sendBookingMail({ ...booking, status: "pending" }, "requested");
+    const message = sent.pop()!;
+    expect(message.subject).toStartWith("Request received: Intro call");
+    expect(message.text).toContain("waits for confirmation");
+    expect(message.ics).toBeUndefined();
+  });
+
+  test("sends nothing without attendees", async () => {
+    await sendBookingMail({ ...booking, attendees: [] }, "booked");
+    expect(sent).toHaveLength(0);
+  });
+});
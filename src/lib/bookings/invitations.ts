@@ -0,0 +1,166 @@
+import log from "../log";
+import { getCalendarTimezone } from "../calendar/config";
+import {
+  generateICSContent,
+  type EventAttendee,
+} from "../calendar/create-event";
+import { getHost } from "../hosts";
+import { getMailer } from "../mail";
+import { getMeetingEventFields } from "../meetings";
+import { getBookingLinks } from "./links";
+import type { Booking } from "./store";
+
+// "requested" and "request-cancelled" are the notices of bookings that wait
+// for approval. They have no invitation, it is sent once approved.
+export type BookingMailKind =
+  | "booked"
+  | "rescheduled"
+  | "cancelled"
+  | "requested"
+  | "request-cancelled";
+
+const subjects: Record<BookingMailKind, string> = {
+  booked: "Invitation",
+  rescheduled: "Updated invitation",
+  cancelled: "Cancelled",
+  requested: "Request received",
+  "request-cancelled": "Request cancelled",
+};
+
+const headings: Record<BookingMailKind, (title: string) => string> = {
+  booked: (title) => `You are invited to ${title}.`,
+  rescheduled: (title) => `${title} has been moved.`,
+  cancelled: (title) => `${title} has been cancelled.`,
+  requested: (title) =>
+    `Your request for ${title} was received and waits for confirmation.`,
+  "request-cancelled": (title) =>
+    `Your request for ${title} has been cancelled.`,
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Format the time of a booking for the mail, e.g.
+// "Monday, 9 November 2026, 10:00 – 11:00 (Europe/Berlin)"
+function formatBookingTime(booking: Booking): string {
+  const timeZone = getCalendarTimezone();
+  const start = new Date(booking.start).toLocaleString("en-GB", {
+    timeZone,
+    dateStyle: "full",
+    timeStyle: "short",
+  });
+  const end = new Date(booking.end).toLocaleTimeString("en-GB", {
+    timeZone,
+    timeStyle: "short",
+  });
+  return `${start} – ${end} (${timeZone})`;
+}
+
+// The attendees of a booking and its assigned hosts
+function getBookingAttendees(booking: Booking): EventAttendee[] {
+  const hosts = booking.events
+    .map((event) => (event.hostId ? getHost(event.hostId) : undefined))
+    .filter((host) => host !== undefined)
+    .map((host) => ({ email: host.email, name: host.name }));
+  return [...booking.attendees.map((email) => ({ email })), ...hosts];
+}
+
+/**
+ * Send the iTIP message of a booking to its attendees: a REQUEST when it is
+ * booked or rescheduled and a CANCEL when it is cancelled. The UID and
+ * SEQUENCE match the calendar events, so mail clients update the invitation
+ * they received before. The notices of requests have no iTIP message.
+ * Failures are logged and do not fail the booking.
+ */
+export async function sendBookingMail(
+  booking: Booking,
+  kind: BookingMailKind
+): Promise<void> {
+  const mailer = getMailer();
+  if (!mailer || booking.attendees.length === 0 || !booking.events[0]) {
+    return;
+  }
+
+  const { location, url, description } = getMeetingEventFields(
+    {
+      url: booking.meetingUrl,
+      password: booking.meetingPassword,
+      location: booking.location,
+    },
+    booking.description
+  );
+  const invitation = kind !== "requested" && kind !== "request-cancelled";
+  const method = kind === "cancelled" ? "CANCEL" : "REQUEST";
+  const ics = generateICSContent({
+    title: booking.title,
+    startTime: booking.start,
+    endTime: booking.end,
+    description,
+    attendees: getBookingAttendees(booking),
+    status:
+      kind === "cancelled"
+        ? "CANCELLED"
+        : booking.status === "pending"
+          ? "TENTATIVE"
+          : "CONFIRMED",
+    method,
+    location,
+    url,
+    uid: booking.events[0].uid,
+    sequence: booking.sequence,
+  });
+
+  const when = formatBookingTime(booking);
+  const links =
+    kind === "cancelled" || kind === "request-cancelled"
+      ? undefined
+      : getBookingLinks(booking);
+  const lines: [string, string | undefined][] = [
+    ["When", when],
+    ["Where", location],
+    ["Details", description || undefined],
+    ["Cancel", links?.cancelUrl],
+    ["Reschedule", links?.rescheduleUrl],
+  ];
+  const fields = lines.filter(
+    (line): line is [string, string] => line[1] !== undefined
+  );
+
+  const heading = headings[kind](booking.title);
+  const text = [
+    heading,
+    "",
+    ...fields.map(([label, value]) => `${label}: ${value}`),
+  ].join("\n");
+  const html = [
+    `<p>${escapeHtml(heading)}</p>`,
+    "<table>",
+    ...fields.map(([label, value]) => {
+      const content = /^https?:\/\//.test(value)
+        ? `<a href="${escapeHtml(value)}">${escapeHtml(value)}</a>`
+        : escapeHtml(value).replace(/\n/g, "<br>");
+      return `<tr><th align="left" valign="top">${label}</th><td>${content}</td></tr>`;
+    }),
+    "</table>",
+  ].join("\n");
+
+  try {
+    await mailer.send({
+      to: booking.attendees,
+      subject: `${subjects[kind]}: ${booking.title} @ ${when}`,
+      text,
+      html,
+      ics: invitation ? { method, content: ics } : undefined,
+    });
+  } catch (error) {
+    log.error(
+      `Failed to send mail of booking ${booking.id}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
@@ -0,0 +1,85 @@
+import { describe, test, expect } from "bun:test";
+import {
+  createBookingToken,
+  getBookingLinks,
+  verifyBookingToken,
+} from "./links";
+import type { Booking } from "./store";
+
+process.env.CALENDAR_LINK_SECRET = "test-secret";
+process.env.CALENDAR_PUBLIC_URL = "https://booking.example.com/";
+
+const booking = (start: string): Booking => ({
+  id: "booking-1",
+  status: "confirmed",
+  title: "Intro call",
+  start,
+  end: start,
+  attendees: [],
+  sequence: 0,
+  events: [],
+  createdAt: start,
+  updatedAt: start,
+});
+
+const future = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString();
+
+describe("booking links", () => {
+  test("verifies a token with its booking and action", () => {
+    const token = createBookingToken(booking(future), "reschedule")!;
+    expect(verifyBookingToken(token)).toEqual({
+      bookingId: "booking-1",
+      action: "reschedule",
+      sequence: 0,
+    });
+  });
+
+  test("signs the sequence of the booking", () => {
+    const token = createBookingToken(
+      { ...booking(future), sequence: 2 },
+      "cancel"
+    )!;
+    expect(verifyBookingToken(token)?.sequence).toBe(2);
+  });
+
+  test("rejects a changed token", () => {
+    const token = createBookingToken(booking(future), "cancel")!;
+    const [data, signature] = token.split(".");
+    const changed = Buffer.from(
+      Buffer.from(data, "base64url").toString().replace("cancel", "reschedule")
+    ).toString("base64url");
+    expect(verifyBookingToken(`${changed}.${signature}`)).toBeUndefined();
+    expect(verifyBookingToken(`${data}.x${signature}`)).toBeUndefined();
+    expect(verifyBookingToken("garbage")).toBeUndefined();
+  });
+
+  test("rejects a token after the booking started", () => {
+    const token = createBookingToken(
+      booking(new Date().toISOString()),
+      "cancel"
+    )!;
+    expect(verifyBookingToken(token)).toBeUndefined();
+  });
+
+  test("rejects tokens signed with another secret", () => {
+    const token = createBookingToken(booking(future), "cancel")!;
+    process.env.CALENDAR_LINK_SECRET = "other-secret";
+    expect(verifyBookingToken(token)).toBeUndefined();
+    process.env.CALENDAR_LINK_SECRET = "test-secret";
+  });
+
+  test("builds the links with the public URL", () => {
+    const links = getBookingLinks(booking(future))!;
+    expect(links.cancelUrl).toStartWith("https://booking.example.com/manage/");
+    expect(links.rescheduleUrl).toStartWith(
+      "https://booking.example.com/manage/"
+    );
+    expect(links.cancelUrl).not.toBe(links.rescheduleUrl);
+  });
+
+  test("creates no links without a secret", () => {
+    delete process.env.CALENDAR_LINK_SECRET;
+    expect(getBookingLinks(booking(future))).toBeUndefined();
+    process.env.CALENDAR_LINK_SECRET = "test-secret";
+  });
+});
@@ -0,0 +1,100 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { Booking } from "./store";
+
+export type BookingLinkAction = "cancel" | "reschedule";
+
+interface BookingTokenPayload {
+  b: string; // booking id
+  a: BookingLinkAction;
+  s: number; // sequence of the booking, a change invalidates the link
+  e: number; // expiry in seconds since 1970
+}
+
+// Get the secret to sign the links, links are disabled without it
+function getLinkSecret(): string | undefined {
+  return process.env.CALENDAR_LINK_SECRET || undefined;
+}
+
+// Get the URL the service is reachable at for attendees
+export function getPublicUrl(): string {
+  return (process.env.CALENDAR_PUBLIC_URL || "http://localhost:3001").replace(
+    /\/+$/,
+    ""
+  );
+}
+
+function sign(data: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(data).digest();
+}
+
+/**
+ * Create a signed token that allows the attendees to cancel or reschedule a
+ * booking without an account. The token expires when the booking starts and
+ * is only valid for the current sequence of the booking.
+ */
+export function createBookingToken(
+  booking: Booking,
+  action: BookingLinkAction
+): string | undefined {
+  const secret = getLinkSecret();
+  if (!secret) return undefined;
+
+  const payload: BookingTokenPayload = {
+    b: booking.id,
+    a: action,
+    s: booking.sequence,
+    e: Math.floor(new Date(booking.start).getTime() / 1000),
+  };
+  const data = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${data}.${sign(data, secret).toString("base64url")}`;
+}
+
+/**
+ * Check the signature and expiry of a token. Returns the booking id, the
+ * allowed action and the sequence of the booking it was created for, or
+ * undefined if the token is invalid or expired.
+ */
+export function verifyBookingToken(
+  token: string
+):
+  | { bookingId: string; action: BookingLinkAction; sequence: number }
+  | undefined {
+  const secret = getLinkSecret();
+  if (!secret) return undefined;
+
+  const [data, signature] = token.split(".");
+  if (!data || !signature) return undefined;
+
+  const expected = sign(data, secret);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return undefined;
+  }
+
+  try {
+    const payload = JSON.parse(
+      Buffer.from(data, "base64url").toString()
+    ) as BookingTokenPayload;
+    if (payload.e * 1000 <= Date.now()) return undefined;
+    return { bookingId: payload.b, action: payload.a, sequence: payload.s };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Get the cancel and reschedule URLs of a booking for the confirmation.
+ * Undefined if CALENDAR_LINK_SECRET is not set.
+ */
+export function getBookingLinks(
+  booking: Booking
+): { cancelUrl: string; rescheduleUrl: string } | undefined {
+  const cancelToken = createBookingToken(booking, "cancel");
+  const rescheduleToken = createBookingToken(booking, "reschedule");
+  if (!cancelToken || !rescheduleToken) return undefined;
+
+  return {
+    cancelUrl: `${getPublicUrl()}/manage/${cancelToken}`,
+    rescheduleUrl: `${getPublicUrl()}/manage/${rescheduleToken}`,
+  };
+}
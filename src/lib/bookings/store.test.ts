@@ -0,0 +1,65 @@
+import { describe, test, expect } from "bun:test";
+
+process.env.CALENDAR_BOOKINGS_DB = ":memory:";
+const { getBooking, saveBooking, updateBooking } = await import("./store");
+
+const newBooking = () =>
+  saveBooking({
+    status: "confirmed",
+    title: "Intro call",
+    start: "2026-11-09T09:00:00.000Z",
+    end: "2026-11-09T09:30:00.000Z",
+    eventType: "intro",
+    attendees: ["guest@example.com"],
+    meetingId: "room-1",
+    meetingUrl: "https://kmeet.infomaniak.com/room-1",
+    events: [
+      {
+        hostId: "alice",
+        eventUid: "calendar-event-1",
+        uid: "event-1@calendar.service",
+        url: "https://dav.example.com/alice/calendar-event-1.ics",
+        etag: '"1"',
+      },
+      {
+        hostId: "bob",
+        eventUid: "calendar-event-2",
+        uid: "event-2@calendar.service",
+        url: "https://dav.example.com/bob/calendar-event-2.ics",
+      },
+    ],
+  });
+
+describe("booking store", () => {
+  test("reads a saved booking with its events", () => {
+    const booking = newBooking();
+    expect(booking.sequence).toBe(0);
+    expect(getBooking(booking.id)).toEqual(booking);
+  });
+
+  test("returns undefined for unknown ids", () => {
+    expect(getBooking("unknown")).toBeUndefined();
+  });
+
+  test("updates the time, sequence and etags", () => {
+    const booking = newBooking();
+    const updated = updateBooking({
+      ...booking,
+      start: "2026-11-10T09:00:00.000Z",
+      end: "2026-11-10T09:30:00.000Z",
+      sequence: 1,
+      events: booking.events.map((event) => ({ ...event, etag: '"2"' })),
+    });
+
+    const stored = getBooking(booking.id);
+    expect(stored).toEqual(updated);
+    expect(stored?.start).toBe("2026-11-10T09:00:00.000Z");
+    expect(stored?.events.map((event) => event.etag)).toEqual(['"2"', '"2"']);
+  });
+
+  test("marks a booking as cancelled", () => {
+    const booking = newBooking();
+    updateBooking({ ...booking, status: "cancelled" });
+    expect(getBooking(booking.id)?.status).toBe("cancelled");
+  });
+});
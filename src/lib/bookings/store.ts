@@ -0,0 +1,280 @@
+import { Database } from "bun:sqlite";
+import { randomUUID } from "crypto";
+import log from "../log";
+import type { MeetingProviderConfig } from "../meetings";
+
+export type BookingStatus = "confirmed" | "pending" | "cancelled";
+
+/**
+ * A calendar event of a booking. Team bookings have one event per assigned
+ * host (in the calendar of the host), other bookings one event in the
+ * target calendar.
+ */
+export interface BookingEvent {
+  hostId?: string;
+  eventUid: string; // name of the calendar object
+  uid: string; // UID of the event in the ICS content
+  url: string;
+  etag?: string;
+}
+
+export interface Booking {
+  id: string;
+  status: BookingStatus;
+  title: string;
+  description?: string;
+  start: string; // ISO timestamps
+  end: string;
+  eventType?: string;
+  attendees: string[];
+  meetingProvider?: MeetingProviderConfig;
+  meetingId?: string;
+  meetingUrl?: string;
+  meetingPassword?: string;
+  // Address or phone number of in-person meetings
+  location?: string;
+  // Sequence number of the calendar events, increased on every change
+  sequence: number;
+  events: BookingEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface BookingRow {
+  id: string;
+  status: BookingStatus;
+  title: string;
+  description: string | null;
+  start: string;
+  end: string;
+  event_type: string | null;
+  attendees: string;
+  meeting_provider: string | null;
+  meeting_id: string | null;
+  meeting_url: string | null;
+  meeting_password: string | null;
+  location: string | null;
+  sequence: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface BookingEventRow {
+  host_id: string | null;
+  event_uid: string;
+  uid: string;
+  url: string;
+  etag: string | null;
+}
+
+let db: Database | undefined;
+
+/**
+ * Open the database at CALENDAR_BOOKINGS_DB and create the tables.
+ * Other modules may add tables of their own to it.
+ */
+export function getDatabase(): Database {
+  if (db) return db;
+
+  const path = process.env.CALENDAR_BOOKINGS_DB || "./bookings.sqlite";
+  db = new Database(path, { create: true });
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec(`CREATE TABLE IF NOT EXISTS bookings (
+    id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT,
+    start TEXT NOT NULL,
+    end TEXT NOT NULL,
+    event_type TEXT,
+    attendees TEXT NOT NULL,
+    meeting_id TEXT,
+    meeting_url TEXT,
+    meeting_password TEXT,
+    meeting_provider TEXT,
+    location TEXT,
+    sequence INTEGER NOT NULL DEFAULT 0,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  )`);
+  db.exec(`CREATE TABLE IF NOT EXISTS booking_events (
+    booking_id TEXT NOT NULL REFERENCES bookings(id),
+    host_id TEXT,
+    event_uid TEXT NOT NULL,
+    uid TEXT NOT NULL,
+    url TEXT NOT NULL,
+    etag TEXT
+  )`);
+  db.exec(
+    "CREATE INDEX IF NOT EXISTS booking_events_booking_id ON booking_events (booking_id)"
+  );
+
+  log.info(`Opened booking store ${path}`);
+  return db;
+}
+
+// Replace the calendar events of a booking
+function writeEvents(database: Database, booking: Booking): void {
+  database
+    .query("DELETE FROM booking_events WHERE booking_id = ?")
+    .run(booking.id);
+  const insert = database.query(
+    "INSERT INTO booking_events (booking_id, host_id, event_uid, uid, url, etag) VALUES (?, ?, ?, ?, ?, ?)"
+  );
+  for (const event of booking.events) {
+    insert.run(
+      booking.id,
+      event.hostId ?? null,
+      event.eventUid,
+      event.uid,
+      event.url,
+      event.etag ?? null
+    );
+  }
+}
+
+/**
+ * Store a new booking and return it with its id
+ */
+export function saveBooking(
+  booking: Omit<Booking, "id" | "sequence" | "createdAt" | "updatedAt">
+): Booking {
+  const database = getDatabase();
+  const now = new Date().toISOString();
+  const saved: Booking = {
+    ...booking,
+    id: randomUUID(),
+    sequence: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  database.transaction(() => {
+    database
+      .query(
+        `INSERT INTO bookings (id, status, title, description, start, end, event_type, attendees, meeting_provider, meeting_id, meeting_url, meeting_password, location, sequence, created_at, updated_at)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        saved.id,
+        saved.status,
+        saved.title,
+        saved.description ?? null,
+        saved.start,
+        saved.end,
+        saved.eventType ?? null,
+        JSON.stringify(saved.attendees),
+        saved.meetingProvider ? JSON.stringify(saved.meetingProvider) : null,
+        saved.meetingId ?? null,
+        saved.meetingUrl ?? null,
+        saved.meetingPassword ?? null,
+        saved.location ?? null,
+        saved.sequence,
+        saved.createdAt,
+        saved.updatedAt
+      );
+    writeEvents(database, saved);
+  })();
+
+  return saved;
+}
+
+/**
+ * Get a booking by its id
+ */
+export function getBooking(id: string): Booking | undefined {
+  const database = getDatabase();
+  const row = database
+    .query("SELECT * FROM bookings WHERE id = ?")
+    .get(id) as BookingRow | null;
+  if (!row) return undefined;
+
+  const events = database
+    .query(
+      "SELECT host_id, event_uid, uid, url, etag FROM booking_events WHERE booking_id = ? ORDER BY rowid"
+    )
+    .all(id) as BookingEventRow[];
+
+  return {
+    id: row.id,
+    status: row.status,
+    title: row.title,
+    description: row.description ?? undefined,
+    start: row.start,
+    end: row.end,
+    eventType: row.event_type ?? undefined,
+    attendees: JSON.parse(row.attendees),
+    meetingProvider: row.meeting_provider
+      ? JSON.parse(row.meeting_provider)
+      : undefined,
+    meetingId: row.meeting_id ?? undefined,
+    meetingUrl: row.meeting_url ?? undefined,
+    meetingPassword: row.meeting_password ?? undefined,
+    location: row.location ?? undefined,
+    sequence: row.sequence,
+    events: events.map((event) => ({
+      hostId: event.host_id ?? undefined,
+      eventUid: event.event_uid,
+      uid: event.uid,
+      url: event.url,
+      etag: event.etag ?? undefined,
+    })),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+/**
+ * Save the changed status, time, meeting or events of a booking
+ */
+export function updateBooking(booking: Booking): Booking {
+  const database = getDatabase();
+  const updated: Booking = { ...booking, updatedAt: new Date().toISOString() };
+
+  database.transaction(() => {
+    database
+      .query(
+        `UPDATE bookings SET status = ?, start = ?, end = ?, meeting_id = ?, meeting_url = ?, meeting_password = ?, location = ?, sequence = ?, updated_at = ?
+        WHERE id = ?`
+      )
+      .run(
+        updated.status,
+        updated.start,
+        updated.end,
+        updated.meetingId ?? null,
+        updated.meetingUrl ?? null,
+        updated.meetingPassword ?? null,
+        updated.location ?? null,
+        updated.sequence,
+        updated.updatedAt,
+        updated.id
+      );
+    writeEvents(database, updated);
+  })();
+
+  return updated;
+}
+
+/**
+ * The public fields of a booking, e.g. for API responses and webhooks
+ */
+export function toPublicBooking(booking: Booking) {
+  const hostIds = booking.events
+    .map((event) => event.hostId)
+    .filter((hostId): hostId is string => hostId !== undefined);
+  return {
+    id: booking.id,
+    status: booking.status,
+    title: booking.title,
+    start: booking.start,
+    end: booking.end,
+    eventType: booking.eventType,
+    attendees: booking.attendees,
+    meetingUrl: booking.meetingUrl,
+    meetingId: booking.meetingId,
+    eventUid: booking.events[0]?.eventUid,
+    hostIds: hostIds.length > 0 ? hostIds : undefined,
+    createdAt: booking.createdAt,
+    updatedAt: booking.updatedAt,
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, test, expect } from "bun:test";
+import { resolveCalendarList } from "./calendars";
+
+const work = {
+  id: "work",
+  url: "https://dav.example.com/",
+  username: "max",
+  password: "secret",
+  calendarName: "Work",
+};
+
+describe("resolveCalendarList", () => {
+  test("uses a conflict calendar as the target calendar", () => {
+    const list = resolveCalendarList({
+      conflictCalendars: [work],
+      targetCalendar: "work",
+    });
+    expect(list.targetCalendar.id).toBe("work");
+    expect(list.conflictCalendars.map((calendar) => calendar.id)).toEqual([
+      "work",
+    ]);
+  });
+
+  test("reads the busy times of a target calendar of its own", () => {
+    const list = resolveCalendarList({
+      conflictCalendars: [{ id: "holidays", icsFile: "./holidays.ics" }],
+      targetCalendar: { ...work, id: "bookings", calendarName: "Bookings" },
+    });
+    expect(list.conflictCalendars.map((calendar) => calendar.id)).toEqual([
+      "holidays",
+      "bookings",
+    ]);
+  });
+
+  test("does not read the same calendar twice", () => {
+    const list = resolveCalendarList({
+      conflictCalendars: [work],
+      targetCalendar: { ...work, id: "bookings" },
+    });
+    expect(list.conflictCalendars.map((calendar) => calendar.id)).toEqual([
+      "work",
+    ]);
+  });
+
+  test("rejects a read-only target calendar", () => {
+    expect(() =>
+      resolveCalendarList({
+        conflictCalendars: [{ id: "holidays", icsFile: "./holidays.ics" }],
+        targetCalendar: "holidays",
+      })
+    ).toThrow("Target calendar holidays is a read-only ICS calendar");
+  });
+});
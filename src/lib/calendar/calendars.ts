@@ -0,0 +1,339 @@
+import fs from "fs";
+import path from "path";
+import * as v from "valibot";
+import { createDAVClient, type DAVCalendar } from "tsdav";
+import log from "../log";
+import { getEnvConfig } from "./config";
+
+export type DAVClientInstance = Awaited<ReturnType<typeof createDAVClient>>;
+
+// How the busy times of a calendar are read:
+// - events: fetch the events (default)
+// - free-busy-query: CalDAV free-busy-query REPORT on the calendar
+// - schedule-outbox: free/busy request through the scheduling outbox
+export const availabilityModes = [
+  "events",
+  "free-busy-query",
+  "schedule-outbox",
+] as const;
+export type CalendarAvailabilityMode = (typeof availabilityModes)[number];
+
+/**
+ * A CalDAV calendar with its own server and credentials
+ */
+export interface CalDAVCalendarConfig {
+  id: string;
+  url: string;
+  username: string;
+  password: string;
+  // Display name of the calendar. If empty, the first calendar is used.
+  calendarName?: string;
+  // Falls back to "events" if the server does not support the mode
+  availabilityMode?: CalendarAvailabilityMode;
+  // User whose free/busy is requested through the scheduling outbox,
+  // defaults to the username
+  freeBusyEmail?: string;
+}
+
+/**
+ * A read-only calendar from an ICS URL (e.g. a webcal subscription) or a
+ * local .ics file. Its events count as busy, but bookings cannot be
+ * written to it.
+ */
+export interface ICSCalendarConfig {
+  id: string;
+  source: "ics-url" | "ics-file";
+  // URL or path of the .ics file
+  location: string;
+}
+
+// A calendar whose events count as busy
+export type CalendarSource = CalDAVCalendarConfig | ICSCalendarConfig;
+
+// Check if a calendar is read from an ICS URL or file
+export function isICSCalendar(
+  calendar: CalendarSource
+): calendar is ICSCalendarConfig {
+  return "source" in calendar;
+}
+
+const calendarSchema = v.object({
+  id: v.pipe(v.string(), v.nonEmpty()),
+  url: v.pipe(v.string(), v.url()),
+  username: v.string(),
+  password: v.optional(v.string()),
+  // Name of an environment variable that holds the password
+  passwordEnv: v.optional(v.string()),
+  calendarName: v.optional(v.string()),
+  availabilityMode: v.optional(v.picklist(availabilityModes)),
+  freeBusyEmail: v.optional(v.pipe(v.string(), v.email())),
+});
+
+const icsCalendarSchema = v.union([
+  v.object({
+    id: v.pipe(v.string(), v.nonEmpty()),
+    icsUrl: v.pipe(
+      v.string(),
+      v.regex(/^(https?|webcals?):\/\//i, "Use an http(s) or webcal URL")
+    ),
+  }),
+  v.object({
+    id: v.pipe(v.string(), v.nonEmpty()),
+    // Relative to the working directory
+    icsFile: v.pipe(v.string(), v.nonEmpty()),
+  }),
+]);
+
+// Conflict calendars and target calendar, also used for the hosts of teams
+export const calendarListEntries = {
+  // All calendars whose events count as busy
+  conflictCalendars: v.pipe(
+    v.array(v.union([calendarSchema, icsCalendarSchema])),
+    v.minLength(1)
+  ),
+  // The calendar where bookings are written. Either the id of a conflict
+  // calendar or a calendar of its own, which then counts as busy too.
+  targetCalendar: v.union([v.string(), calendarSchema]),
+};
+
+const calendarsFileSchema = v.object(calendarListEntries);
+
+export interface CalendarList {
+  conflictCalendars: CalendarSource[];
+  targetCalendar: CalDAVCalendarConfig;
+}
+
+let cachedCalendars: CalendarList | undefined;
+
+// Resolve the password of a calendar from the file or the environment
+function toCalendarConfig(
+  calendar: v.InferOutput<typeof calendarSchema>
+): CalDAVCalendarConfig {
+  const password = calendar.passwordEnv
+    ? process.env[calendar.passwordEnv]
+    : calendar.password;
+  if (password === undefined) {
+    throw new Error(
+      `No password configured for calendar ${calendar.id}${calendar.passwordEnv ? ` (${calendar.passwordEnv} is not set)` : ""}`
+    );
+  }
+  return {
+    id: calendar.id,
+    url: calendar.url,
+    username: calendar.username,
+    password,
+    calendarName: calendar.calendarName,
+    availabilityMode: calendar.availabilityMode,
+    freeBusyEmail: calendar.freeBusyEmail,
+  };
+}
+
+// Convert a parsed conflict calendar to a CalDAV or ICS calendar
+function toCalendarSource(
+  calendar:
+    | v.InferOutput<typeof calendarSchema>
+    | v.InferOutput<typeof icsCalendarSchema>
+): CalendarSource {
+  if ("icsUrl" in calendar) {
+    return { id: calendar.id, source: "ics-url", location: calendar.icsUrl };
+  }
+  if ("icsFile" in calendar) {
+    return { id: calendar.id, source: "ics-file", location: calendar.icsFile };
+  }
+  return toCalendarConfig(calendar);
+}
+
+// Resolve the passwords and the target calendar of a parsed calendar list.
+// A target calendar of its own is added to the conflict calendars.
+export function resolveCalendarList(
+  parsed: v.InferOutput<typeof calendarsFileSchema>
+): CalendarList {
+  const conflictCalendars = parsed.conflictCalendars.map(toCalendarSource);
+
+  let targetCalendar: CalDAVCalendarConfig | undefined;
+  if (typeof parsed.targetCalendar === "string") {
+    const calendar = conflictCalendars.find(
+      (calendar) => calendar.id === parsed.targetCalendar
+    );
+    if (!calendar) {
+      throw new Error(
+        `Target calendar ${parsed.targetCalendar} is not a conflict calendar`
+      );
+    }
+    if (isICSCalendar(calendar)) {
+      throw new Error(
+        `Target calendar ${parsed.targetCalendar} is a read-only ICS calendar`
+      );
+    }
+    targetCalendar = calendar;
+  } else {
+    targetCalendar = toCalendarConfig(parsed.targetCalendar);
+    // Bookings in the target calendar block their slots as well
+    const key = getCalendarKey(targetCalendar);
+    if (
+      !conflictCalendars.some(
+        (calendar) =>
+          !isICSCalendar(calendar) && getCalendarKey(calendar) === key
+      )
+    ) {
+      conflictCalendars.push(targetCalendar);
+    }
+  }
+
+  return { conflictCalendars, targetCalendar };
+}
+
+/**
+ * Get the conflict calendars and the target calendar.
+ * They are read from the JSON file in CALENDAR_CALENDARS_FILE. Without a
+ * file, the single calendar from the CALENDAR_CALDAV_* variables is used
+ * for both.
+ */
+function getCalendars(): CalendarList {
+  if (cachedCalendars) {
+    return cachedCalendars;
+  }
+
+  const file = process.env.CALENDAR_CALENDARS_FILE;
+  if (!file) {
+    const config = getEnvConfig();
+    const calendar: CalDAVCalendarConfig = {
+      id: "default",
+      url: config.CALENDAR_CALDAV_URL,
+      username: config.CALENDAR_CALDAV_USER,
+      password: config.CALENDAR_CALDAV_PASSWORD,
+      calendarName: config.CALENDAR_CALDAV_CALENDARNAME || undefined,
+      availabilityMode: v.parse(
+        v.picklist(
+          availabilityModes,
+          `Invalid CALENDAR_CALDAV_AVAILABILITY_MODE. Use ${availabilityModes.join(", ")}.`
+        ),
+        config.CALENDAR_CALDAV_AVAILABILITY_MODE
+      ),
+      freeBusyEmail: config.CALENDAR_CALDAV_FREEBUSY_EMAIL || undefined,
+    };
+    // Not cached, so that changes of the environment are picked up
+    return { conflictCalendars: [calendar], targetCalendar: calendar };
+  }
+
+  try {
+    const parsed = v.parse(
+      calendarsFileSchema,
+      JSON.parse(fs.readFileSync(path.resolve(process.cwd(), file), "utf8"))
+    );
+    cachedCalendars = resolveCalendarList(parsed);
+    log.info(
+      `Loaded ${cachedCalendars.conflictCalendars.length} conflict calendars and target calendar ${cachedCalendars.targetCalendar.id} from ${file}`
+    );
+    return cachedCalendars;
+  } catch (error) {
+    throw new Error(
+      `Failed to load calendars from ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+// Get all calendars whose events count as busy
+export function getConflictCalendars(): CalendarSource[] {
+  return getCalendars().conflictCalendars;
+}
+
+// Get the calendar where bookings are written
+export function getTargetCalendar(): CalDAVCalendarConfig {
+  return getCalendars().targetCalendar;
+}
+
+export interface CalendarConnection {
+  client: DAVClientInstance;
+  calendar: DAVCalendar;
+  calendars: DAVCalendar[];
+}
+
+// Open connections by calendar key, shared by all requests
+const connections = new Map<
+  string,
+  { connection: Promise<CalendarConnection>; connectedAt: number }
+>();
+
+// Get the lifetime of cached connections and calendar lists in milliseconds
+export function getCacheTtlMs(): number {
+  return (Number(getEnvConfig().CALENDAR_CACHE_TTL) || 0) * 1000;
+}
+
+// Get a key that identifies a calendar on its server
+export function getCalendarKey(config: CalDAVCalendarConfig): string {
+  return `${config.url}|${config.username}|${config.calendarName || ""}`;
+}
+
+/**
+ * Connect to the server of a calendar and find the calendar by its name.
+ * Throws if a calendar name is configured but does not exist.
+ * The connection and the calendar list are reused for CALENDAR_CACHE_TTL
+ * seconds, unless "refresh" is set.
+ */
+export async function connectCalendar(
+  config: CalDAVCalendarConfig,
+  options: { refresh?: boolean } = {}
+): Promise<CalendarConnection> {
+  const key = getCalendarKey(config);
+  const cached = connections.get(key);
+  if (
+    cached &&
+    !options.refresh &&
+    Date.now() - cached.connectedAt < getCacheTtlMs()
+  ) {
+    return cached.connection;
+  }
+
+  const connection = openConnection(config);
+  connections.set(key, { connection, connectedAt: Date.now() });
+  // Do not keep failed connections
+  connection.catch(() => {
+    if (connections.get(key)?.connection === connection) {
+      connections.delete(key);
+    }
+  });
+  return connection;
+}
+
+// Drop all cached connections and calendar lists
+export function invalidateConnections(): void {
+  connections.clear();
+}
+
+async function openConnection(
+  config: CalDAVCalendarConfig
+): Promise<CalendarConnection> {
+  const client = await createDAVClient({
+    serverUrl: config.url,
+    credentials: {
+      username: config.username,
+      password: config.password,
+    },
+    authMethod: "Basic",
+    defaultAccountType: "caldav",
+  });
+
+  const calendars = await client.fetchCalendars();
+  log.info(`Found ${calendars.length} calendars for ${config.id}`);
+
+  const calendar = config.calendarName
+    ? calendars.find((cal) => cal.displayName === config.calendarName)
+    : calendars[0];
+
+  if (!calendar) {
+    const available = calendars
+      .map((cal) => cal.displayName || "Unnamed")
+      .join(", ");
+    throw new Error(
+      config.calendarName
+        ? `Calendar "${config.calendarName}" not found for ${config.id}. Available calendars: ${available || "none"}`
+        : `No calendar found for ${config.id}`
+    );
+  }
+
+  log.info(
+    `Using calendar: ${calendar.displayName || "Unnamed"} (${calendar.url})`
+  );
+  return { client, calendar, calendars };
+}
@@ -1,6 +1,26 @@
 // src/lib/calendar/config.ts
 
+import * as v from "valibot";
 import log from "../log";
+import { getSystemTimeZone, isValidTimeZone } from "./timezone";
+
+// Available time ranges per weekday in the format of the CALENDAR_AVAILABLE_*
+// variables, e.g. { MON: "8-12,13-17" }. Missing days keep their default.
+export const dayRangesSchema = v.object({
+  MON: v.optional(v.string()),
+  TUE: v.optional(v.string()),
+  WED: v.optional(v.string()),
+  THU: v.optional(v.string()),
+  FRI: v.optional(v.string()),
+  SAT: v.optional(v.string()),
+  SUN: v.optional(v.string()),
+});
+
+export type DayRanges = v.InferOutput<typeof dayRangesSchema>;
+
+// Maximum number of days that can be requested at once by
+// getBusyTimesForRange, e.g. for the free/busy feed
+export const MAX_BUSY_RANGE_DAYS = 92;
 
 interface CalendarConfig {
   CALENDAR_AVAILABLE_MON: string;
@@ -14,7 +34,24 @@ interface CalendarConfig {
   CALENDAR_CALDAV_PASSWORD: string;
   CALENDAR_CALDAV_URL: string;
   CALENDAR_CALDAV_CALENDARNAME: string;
+  CALENDAR_CALDAV_AVAILABILITY_MODE: string;
+  CALENDAR_CALDAV_FREEBUSY_EMAIL: string;
   CALENDAR_SLOTS_LENGTH: string;
+  CALENDAR_SLOT_INTERVAL: string;
+  CALENDAR_SLOT_ALIGNMENT: string;
+  CALENDAR_TIMEZONE: string;
+  CALENDAR_OWNER_EMAIL: string;
+  CALENDAR_BLOCK_ALL_DAY: string;
+  CALENDAR_BLOCK_TENTATIVE: string;
+  CALENDAR_BLOCK_DECLINED: string;
+  CALENDAR_BLOCK_TRANSPARENT: string;
+  CALENDAR_BUFFER_BEFORE: string;
+  CALENDAR_BUFFER_AFTER: string;
+  CALENDAR_MIN_NOTICE: string;
+  CALENDAR_MAX_DAYS_AHEAD: string;
+  CALENDAR_ROUND_ROBIN_WINDOW_DAYS: string;
+  CALENDAR_CACHE_TTL: string;
+  CALENDAR_SYNC_INTERVAL: string;
 }
 
 // Get calendar configuration from environment variables
@@ -32,7 +69,31 @@ export function getEnvConfig(): CalendarConfig {
     CALENDAR_CALDAV_URL: process.env.CALENDAR_CALDAV_URL || "",
     CALENDAR_CALDAV_CALENDARNAME:
       process.env.CALENDAR_CALDAV_CALENDARNAME || "",
+    CALENDAR_CALDAV_AVAILABILITY_MODE:
+      process.env.CALENDAR_CALDAV_AVAILABILITY_MODE || "events",
+    CALENDAR_CALDAV_FREEBUSY_EMAIL:
+      process.env.CALENDAR_CALDAV_FREEBUSY_EMAIL || "",
     CALENDAR_SLOTS_LENGTH: process.env.CALENDAR_SLOTS_LENGTH || "1",
+    CALENDAR_SLOT_INTERVAL: process.env.CALENDAR_SLOT_INTERVAL || "30",
+    CALENDAR_SLOT_ALIGNMENT: process.env.CALENDAR_SLOT_ALIGNMENT || "",
+    CALENDAR_TIMEZONE: getCalendarTimezone(),
+    CALENDAR_OWNER_EMAIL:
+      process.env.CALENDAR_OWNER_EMAIL ||
+      process.env.CALENDAR_CALDAV_USER ||
+      "",
+    CALENDAR_BLOCK_ALL_DAY: process.env.CALENDAR_BLOCK_ALL_DAY || "false",
+    CALENDAR_BLOCK_TENTATIVE: process.env.CALENDAR_BLOCK_TENTATIVE || "true",
+    CALENDAR_BLOCK_DECLINED: process.env.CALENDAR_BLOCK_DECLINED || "false",
+    CALENDAR_BLOCK_TRANSPARENT:
+      process.env.CALENDAR_BLOCK_TRANSPARENT || "false",
+    CALENDAR_BUFFER_BEFORE: process.env.CALENDAR_BUFFER_BEFORE || "0",
+    CALENDAR_BUFFER_AFTER: process.env.CALENDAR_BUFFER_AFTER || "0",
+    CALENDAR_MIN_NOTICE: process.env.CALENDAR_MIN_NOTICE || "0",
+    CALENDAR_MAX_DAYS_AHEAD: process.env.CALENDAR_MAX_DAYS_AHEAD || "",
+    CALENDAR_ROUND_ROBIN_WINDOW_DAYS:
+      process.env.CALENDAR_ROUND_ROBIN_WINDOW_DAYS || "14",
+    CALENDAR_CACHE_TTL: process.env.CALENDAR_CACHE_TTL || "3600",
+    CALENDAR_SYNC_INTERVAL: process.env.CALENDAR_SYNC_INTERVAL || "60",
   };
 
   // Log connection details for debugging (mask password)
@@ -44,7 +105,21 @@ export function getEnvConfig(): CalendarConfig {
     url: debugConfig.CALENDAR_CALDAV_URL,
     username: debugConfig.CALENDAR_CALDAV_USER,
     calendarName: debugConfig.CALENDAR_CALDAV_CALENDARNAME,
+    timezone: debugConfig.CALENDAR_TIMEZONE,
   });
 
   return config;
 }
+
+// Get the timezone of the calendar owner. The working hours and floating
+// event times are read in this timezone. Defaults to the server timezone.
+export function getCalendarTimezone(): string {
+  const timeZone = process.env.CALENDAR_TIMEZONE;
+  if (!timeZone) {
+    return getSystemTimeZone();
+  }
+  if (!isValidTimeZone(timeZone)) {
+    throw new Error(`Invalid CALENDAR_TIMEZONE: ${timeZone}`);
+  }
+  return timeZone;
+}
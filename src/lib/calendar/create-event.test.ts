@@ -0,0 +1,44 @@
+import { describe, test, expect, mock } from "bun:test";
+import { urlContains } from "tsdav";
+
+const calendar = { url: "https://dav.example.com/max/calendar/" };
+const requests: string[] = [];
+mock.module("tsdav", () => ({
+  urlContains,
+  createDAVClient: async () => ({
+    fetchCalendars: async () => [calendar],
+    createCalendarObject: async ({ filename }: { filename: string }) => {
+      requests.push(`PUT ${filename}`);
+      return new Response(null, {
+        status: 507,
+        statusText: "Insufficient Storage",
+      });
+    },
+  }),
+}));
+
+const { createCalendarEvent } = await import("./create-event");
+
+describe("createCalendarEvent", () => {
+  test("throws if the server rejects the event", async () => {
+    await expect(
+      createCalendarEvent(
+        {
+          title: "Intro call",
+          startTime: "2026-11-09T09:00:00.000Z",
+          endTime: "2026-11-09T09:30:00.000Z",
+          uid: "event-1",
+        },
+        {
+          id: "create-event-test",
+          url: "https://dav.example.com/",
+          username: "max",
+          password: "secret",
+        }
+      )
+    ).rejects.toThrow(
+      "Failed to create calendar event: 507 Insufficient Storage"
+    );
+    expect(requests).toEqual(["PUT event-1.ics"]);
+  });
+});
@@ -1,6 +1,24 @@
-import { createDAVClient } from "tsdav";
+import { randomUUID } from "crypto";
 import log from "../log";
-import { getEnvConfig } from "./config";
+import {
+  connectCalendar,
+  getTargetCalendar,
+  type CalDAVCalendarConfig,
+} from "./calendars";
+import { markCalendarChanged } from "./event-store";
+import {
+  escapeText,
+  formatDateTime,
+  formatParamValue,
+  serializeICS,
+  type ICSProperty,
+} from "./ics";
+
+// An organizer or attendee of an event
+export interface EventAttendee {
+  email: string;
+  name?: string;
+}
 
 export interface EventParams {
   title: string;
@@ -8,126 +26,177 @@ export interface EventParams {
   endTime: string;
   description?: string;
   participantEmails?: string[];
+  // Attendees with their names, replaces "participantEmails"
+  attendees?: EventAttendee[];
+  // Defaults to CALENDAR_ORGANIZER_EMAIL and CALENDAR_ORGANIZER_NAME
+  organizer?: EventAttendee;
+  status?: "CONFIRMED" | "TENTATIVE" | "CANCELLED";
+  // iTIP method for invitations sent by mail. Calendar objects stored
+  // through CalDAV must not have one.
+  method?: "REQUEST" | "CANCEL";
+  // Address or phone number of in-person meetings
+  location?: string;
+  // Link to join the meeting
+  url?: string;
+  // Minutes before the start of the reminders, defaults to
+  // CALENDAR_REMINDER_MINUTES
+  reminders?: number[];
+  // Id of the team host the booking is assigned to
+  hostId?: string;
+  // UID and sequence number of an existing event, e.g. to reschedule it
+  uid?: string;
+  sequence?: number;
+}
+
+/**
+ * A calendar event written by the service. "eventUid" is the name of the
+ * calendar object, "uid" the UID of the event in its ICS content. Events
+ * created by the service use the same UUID for both.
+ */
+export interface CalendarEventRef {
+  eventUid: string;
+  uid: string;
+  url: string;
+  etag?: string;
+}
+
+// Custom property that marks the host of a team booking
+export const BOOKING_HOST_PROPERTY = "X-BOOKING-HOST";
+
+// Organizer of the created events
+function getOrganizer(): EventAttendee {
+  return {
+    email: process.env.CALENDAR_ORGANIZER_EMAIL || "no-reply@calendar.service",
+    name: process.env.CALENDAR_ORGANIZER_NAME || undefined,
+  };
+}
+
+// Minutes before the event of the reminders, e.g. "15,60"
+function getReminderMinutes(): number[] {
+  return (process.env.CALENDAR_REMINDER_MINUTES || "")
+    .split(",")
+    .map((minutes) => parseInt(minutes.trim(), 10))
+    .filter((minutes) => !isNaN(minutes) && minutes >= 0);
+}
+
+// Write an ORGANIZER or ATTENDEE with its name
+function attendeeProperty(
+  name: "ORGANIZER" | "ATTENDEE",
+  attendee: EventAttendee,
+  params: Record<string, string> = {}
+): ICSProperty {
+  return {
+    name,
+    params: {
+      ...(attendee.name ? { CN: formatParamValue(attendee.name) } : {}),
+      ...params,
+    },
+    value: `mailto:${attendee.email}`,
+  };
 }
 
 /**
  * Generate ICS content for a calendar event
  */
 export function generateICSContent(event: EventParams): string {
-  const now =
-    new Date().toISOString().replace(/[-:.]/g, "").split("T")[0] +
-    "T" +
-    new Date().toISOString().split("T")[1].replace(/[-:.]/g, "").split(".")[0] +
-    "Z";
-
-  const startDate =
-    new Date(event.startTime)
-      .toISOString()
-      .replace(/[-:.]/g, "")
-      .split("T")[0] +
-    "T" +
-    new Date(event.startTime)
-      .toISOString()
-      .split("T")[1]
-      .replace(/[-:.]/g, "")
-      .split(".")[0] +
-    "Z";
-
-  const endDate =
-    new Date(event.endTime).toISOString().replace(/[-:.]/g, "").split("T")[0] +
-    "T" +
-    new Date(event.endTime)
-      .toISOString()
-      .split("T")[1]
-      .replace(/[-:.]/g, "")
-      .split(".")[0] +
-    "Z";
-
-  const uid = `event-${Date.now()}@calendar.service`;
+  const now = formatDateTime(new Date());
   const attendees =
-    event.participantEmails
-      ?.map(
-        (email) =>
-          `ATTENDEE;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION:mailto:${email}`
-      )
-      .join("\r\n") || "";
-
-  return `BEGIN:VCALENDAR
-VERSION:2.0
-PRODID:-//Calendar Service//Meeting//EN
-CALSCALE:GREGORIAN
-METHOD:REQUEST
-BEGIN:VEVENT
-DTSTART:${startDate}
-DTEND:${endDate}
-DTSTAMP:${now}
-ORGANIZER:mailto:no-reply@calendar.service
-UID:${uid}
-CREATED:${now}
-DESCRIPTION:${event.description || ""}
-LAST-MODIFIED:${now}
-SEQUENCE:0
-STATUS:CONFIRMED
-SUMMARY:${event.title}
-TRANSP:OPAQUE
-${attendees}
-END:VEVENT
-END:VCALENDAR`;
+    event.attendees ||
+    (event.participantEmails || []).map((email) => ({ email }));
+
+  const lines: (ICSProperty | string)[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Calendar Service//Meeting//EN",
+    "CALSCALE:GREGORIAN",
+    ...(event.method ? [`METHOD:${event.method}`] : []),
+    "BEGIN:VEVENT",
+    { name: "UID", value: event.uid || randomUUID() },
+    { name: "DTSTAMP", value: now },
+    { name: "CREATED", value: now },
+    { name: "LAST-MODIFIED", value: now },
+    { name: "DTSTART", value: formatDateTime(event.startTime) },
+    { name: "DTEND", value: formatDateTime(event.endTime) },
+    { name: "SEQUENCE", value: String(event.sequence ?? 0) },
+    { name: "STATUS", value: event.status || "CONFIRMED" },
+    { name: "SUMMARY", value: escapeText(event.title) },
+    { name: "DESCRIPTION", value: escapeText(event.description || "") },
+    { name: "TRANSP", value: "OPAQUE" },
+    attendeeProperty("ORGANIZER", event.organizer || getOrganizer()),
+    ...attendees.map((attendee) =>
+      attendeeProperty("ATTENDEE", attendee, {
+        CUTYPE: "INDIVIDUAL",
+        ROLE: "REQ-PARTICIPANT",
+        PARTSTAT: "NEEDS-ACTION",
+        RSVP: "TRUE",
+      })
+    ),
+  ];
+  if (event.location) {
+    lines.push({ name: "LOCATION", value: escapeText(event.location) });
+  }
+  if (event.url) {
+    lines.push({ name: "URL", params: { VALUE: "URI" }, value: event.url });
+  }
+  if (event.hostId) {
+    lines.push({
+      name: BOOKING_HOST_PROPERTY,
+      value: escapeText(event.hostId),
+    });
+  }
+  for (const minutes of event.reminders ?? getReminderMinutes()) {
+    lines.push(
+      "BEGIN:VALARM",
+      { name: "ACTION", value: "DISPLAY" },
+      { name: "DESCRIPTION", value: escapeText(event.title) },
+      { name: "TRIGGER", value: `-PT${minutes}M` },
+      "END:VALARM"
+    );
+  }
+  lines.push("END:VEVENT", "END:VCALENDAR");
+
+  return serializeICS(lines);
 }
 
 /**
- * Create calendar event
+ * Create calendar event in the target calendar
  */
 export async function createCalendarEvent(
   eventData: EventParams,
-  calendarName?: string
-): Promise<string> {
+  calendarConfig: CalDAVCalendarConfig = getTargetCalendar()
+): Promise<CalendarEventRef> {
   // Generate ICS content for the event
-  const icsContent = generateICSContent(eventData);
+  const uid = eventData.uid || randomUUID();
+  const icsContent = generateICSContent({ ...eventData, uid });
 
   // Use CalDAV to create the event
   try {
-    // Get calendar configuration from existing module
-    const config = getEnvConfig();
-
-    // Create DAV client
-    const client = await createDAVClient({
-      serverUrl: config.CALENDAR_CALDAV_URL,
-      credentials: {
-        username: config.CALENDAR_CALDAV_USER,
-        password: config.CALENDAR_CALDAV_PASSWORD,
-      },
-      authMethod: "Basic",
-      defaultAccountType: "caldav",
-    });
+    // Connect to the calendar. Fails if the configured calendar is missing.
+    const { client, calendar } = await connectCalendar(calendarConfig);
 
-    // Fetch calendars
-    const calendars = await client.fetchCalendars();
+    // Create the event, named after its UID to find it again
+    const eventUid = uid;
+    const filename = `${encodeURIComponent(eventUid)}.ics`;
 
-    // Find the calendar with matching name or use the first one
-    const targetCalendarName =
-      calendarName || config.CALENDAR_CALDAV_CALENDARNAME;
-    const calendar =
-      calendars.find((cal) => cal.displayName === targetCalendarName) ||
-      calendars[0];
-
-    if (!calendar) {
-      throw new Error("No calendar found");
-    }
-
-    // Create the event
-    const eventUid = `calendar-event-${Date.now()}`;
-
-    await client.createCalendarObject({
+    const response = await client.createCalendarObject({
       calendar,
       iCalString: icsContent,
-      filename: `${eventUid}.ics`,
+      filename,
       headers: {
         "Content-Type": "text/calendar; charset=utf-8",
       },
     });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    markCalendarChanged(calendarConfig);
 
-    return eventUid;
+    return {
+      eventUid,
+      uid,
+      url: new URL(filename, calendar.url).href,
+      etag: response.headers.get("etag") ?? undefined,
+    };
   } catch (error) {
     log.error("Error creating calendar event:", error + "");
     throw new Error(
@@ -135,3 +204,63 @@ export async function createCalendarEvent(
     );
   }
 }
+
+/**
+ * Replace a calendar event created by the service. Pass the UID of the event
+ * and an increased sequence number in "eventData". Returns the new etag.
+ */
+export async function updateCalendarEvent(
+  event: { url: string; etag?: string },
+  eventData: EventParams,
+  calendarConfig: CalDAVCalendarConfig = getTargetCalendar()
+): Promise<string | undefined> {
+  try {
+    const { client } = await connectCalendar(calendarConfig);
+
+    // Fails with 412 if the event was changed in the calendar in the meantime
+    const response = await client.updateCalendarObject({
+      calendarObject: {
+        url: event.url,
+        etag: event.etag,
+        data: generateICSContent(eventData),
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    markCalendarChanged(calendarConfig);
+
+    return response.headers.get("etag") ?? undefined;
+  } catch (error) {
+    log.error("Error updating calendar event:", error + "");
+    throw new Error(
+      `Failed to update calendar event: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Delete a calendar event created by the service. An event that was already
+ * deleted in the calendar is ignored.
+ */
+export async function deleteCalendarEvent(
+  event: { url: string; etag?: string },
+  calendarConfig: CalDAVCalendarConfig = getTargetCalendar()
+): Promise<void> {
+  try {
+    const { client } = await connectCalendar(calendarConfig);
+
+    const response = await client.deleteCalendarObject({
+      calendarObject: { url: event.url, etag: event.etag },
+    });
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    markCalendarChanged(calendarConfig);
+  } catch (error) {
+    log.error("Error deleting calendar event:", error + "");
+    throw new Error(
+      `Failed to delete calendar event: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, test, expect, mock } from "bun:test";
+import { urlContains } from "tsdav";
+
+process.env.CALENDAR_SYNC_INTERVAL = "3600";
+process.env.CALENDAR_CACHE_TTL = "3600";
+
+const calendar = { url: "https://dav.example.com/event-store/calendar/" };
+const objects: { url: string; etag: string; data: string }[] = [];
+// Holds the next download until it is released
+let gate: Promise<void> | undefined;
+let downloading = () => {};
+mock.module("tsdav", () => ({
+  urlContains,
+  createDAVClient: async () => ({
+    fetchCalendars: async () => [calendar],
+    isCollectionDirty: async () => ({ isDirty: true, newCtag: "1" }),
+    fetchCalendarObjects: async () => {
+      const loaded = [...objects];
+      downloading();
+      await gate;
+      return loaded;
+    },
+  }),
+}));
+
+const { fetchEventsFromCalendar, markCalendarChanged } = await import(
+  "./event-store"
+);
+
+const config = {
+  id: "event-store-test",
+  url: "https://dav.example.com/",
+  username: "event-store",
+  password: "secret",
+};
+const start = new Date("2026-11-09T00:00:00Z");
+const end = new Date("2026-11-10T00:00:00Z");
+
+describe("fetchEventsFromCalendar", () => {
+  test("does not keep a refresh that started before a change", async () => {
+    let release = () => {};
+    gate = new Promise((resolve) => (release = resolve));
+    const started = new Promise<void>((resolve) => (downloading = resolve));
+    const before = fetchEventsFromCalendar(config, start, end);
+    await started;
+
+    // A booking is written while the events are downloaded
+    objects.push({
+      url: `${calendar.url}booking.ics`,
+      etag: '"1"',
+      data: [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "UID:booking",
+        "DTSTART:20261109T090000Z",
+        "DTEND:20261109T100000Z",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n"),
+    });
+    markCalendarChanged(config);
+    release();
+    gate = undefined;
+
+    expect(await before).toHaveLength(0);
+    const after = await fetchEventsFromCalendar(config, start, end);
+    expect(after.map((object) => object.url)).toEqual([
+      `${calendar.url}booking.ics`,
+    ]);
+  });
+});
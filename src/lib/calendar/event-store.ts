@@ -0,0 +1,300 @@
+import { urlContains, type DAVCalendar, type DAVCalendarObject } from "tsdav";
+import log from "../log";
+import {
+  connectCalendar,
+  getCacheTtlMs,
+  getCalendarKey,
+  invalidateConnections,
+  type CalDAVCalendarConfig,
+  type CalendarConnection,
+} from "./calendars";
+import { getEnvConfig } from "./config";
+import { invalidateICSSources } from "./ics-source";
+import {
+  fetchFreeBusyFromCalendar,
+  FreeBusyUnsupportedError,
+} from "./freebusy-query";
+import { parseICalDuration, parseICSEvents, resolveICalDate } from "./parser";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A calendar object with the time span its events can cover
+interface StoredObject {
+  object: DAVCalendarObject;
+  start: number;
+  end: number;
+}
+
+/**
+ * In-memory copy of all objects of a calendar. It is loaded once and then
+ * kept current with WebDAV sync-collection (sync token) or, if the server
+ * does not support it, with ctag checks.
+ */
+interface CalendarStore {
+  objects: Map<string, StoredObject>;
+  syncToken?: string;
+  ctag?: string;
+  loadedAt: number;
+  checkedAt: number;
+  // Generation of the calendar the store was refreshed in
+  generation: number;
+}
+
+const stores = new Map<string, CalendarStore>();
+const refreshes = new Map<
+  string,
+  { generation: number; refresh: Promise<CalendarStore> }
+>();
+// Counts the changes of each calendar made by this service. A store or a
+// refresh started before the last change is outdated.
+const generations = new Map<string, number>();
+
+// Get the minimum time between two checks for changes in milliseconds
+function getSyncIntervalMs(): number {
+  return (Number(getEnvConfig().CALENDAR_SYNC_INTERVAL) || 0) * 1000;
+}
+
+// Get the time span of the events of an object. Recurring events and
+// objects that cannot be parsed are never filtered out.
+function toStoredObject(object: DAVCalendarObject): StoredObject {
+  const stored = { object, start: -Infinity, end: Infinity };
+  if (!object.data) return stored;
+
+  try {
+    let start = Infinity;
+    let end = -Infinity;
+    for (const event of parseICSEvents(object.data)) {
+      if (!event.start) continue;
+      if (event.rrule || event.rdates.length > 0) return stored;
+
+      const eventStart = resolveICalDate(event.start).getTime();
+      const duration = event.end
+        ? resolveICalDate(event.end).getTime() - eventStart
+        : event.duration
+          ? (parseICalDuration(event.duration) ?? DAY_MS)
+          : DAY_MS;
+      start = Math.min(start, eventStart);
+      end = Math.max(end, eventStart + duration);
+    }
+    // Add a margin for floating times and all-day events
+    return start <= end
+      ? { object, start: start - DAY_MS, end: end + DAY_MS }
+      : stored;
+  } catch {
+    return stored;
+  }
+}
+
+// Normalize object URLs, the server may return absolute or relative URLs
+function getObjectKey(url: string, calendar: DAVCalendar): string {
+  return new URL(url, calendar.url).href;
+}
+
+// Download all objects of a calendar
+async function loadStore(
+  connection: CalendarConnection
+): Promise<CalendarStore> {
+  const { client, calendar } = connection;
+
+  // Read the ctag before the objects, so that changes in between are not lost
+  const { newCtag } = await client.isCollectionDirty({ collection: calendar });
+  const objects = await client.fetchCalendarObjects({ calendar });
+
+  log.info(
+    `Loaded ${objects.length} objects of ${calendar.displayName || calendar.url}`
+  );
+
+  const now = Date.now();
+  return {
+    objects: new Map(
+      objects.map((object) => [
+        getObjectKey(object.url, calendar),
+        toStoredObject(object),
+      ])
+    ),
+    syncToken: calendar.syncToken ? String(calendar.syncToken) : undefined,
+    ctag: newCtag,
+    loadedAt: now,
+    checkedAt: now,
+    generation: 0,
+  };
+}
+
+// Apply the changes since the last sync token
+async function syncStore(
+  connection: CalendarConnection,
+  store: CalendarStore
+): Promise<CalendarStore> {
+  const { client, calendar } = connection;
+  const result = await client.smartCollectionSync({
+    collection: {
+      ...calendar,
+      syncToken: store.syncToken,
+      objects: [...store.objects.values()].map((stored) => stored.object),
+      objectMultiGet: client.calendarMultiGet,
+    },
+    method: "webdav",
+    detailedResult: true,
+  });
+
+  const { created, updated, deleted } = result.objects;
+  for (const object of deleted) {
+    for (const key of store.objects.keys()) {
+      if (urlContains(key, object.url)) {
+        store.objects.delete(key);
+      }
+    }
+  }
+  for (const object of [...created, ...updated]) {
+    store.objects.set(
+      getObjectKey(object.url, calendar),
+      toStoredObject(object)
+    );
+  }
+
+  if (created.length + updated.length + deleted.length > 0) {
+    log.info(
+      `Synced ${calendar.displayName || calendar.url}: ${created.length} created, ${updated.length} updated, ${deleted.length} deleted`
+    );
+  }
+
+  return {
+    ...store,
+    syncToken: result.syncToken ? String(result.syncToken) : store.syncToken,
+    checkedAt: Date.now(),
+  };
+}
+
+// Bring the store of a calendar up to date
+async function refreshStore(
+  config: CalDAVCalendarConfig,
+  store?: CalendarStore
+): Promise<CalendarStore> {
+  // Reload everything after the cache TTL, e.g. to pick up missed changes
+  if (!store || Date.now() - store.loadedAt >= getCacheTtlMs()) {
+    return loadStore(await connectCalendar(config));
+  }
+
+  const connection = await connectCalendar(config);
+  const { client, calendar } = connection;
+
+  if (store.syncToken && calendar.reports?.includes("syncCollection")) {
+    try {
+      return await syncStore(connection, store);
+    } catch (error) {
+      // E.g. an expired sync token
+      log.warn(
+        `Sync of ${calendar.displayName || calendar.url} failed, reloading: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return loadStore(connection);
+    }
+  }
+
+  const { isDirty } = await client.isCollectionDirty({
+    collection: { ...calendar, ctag: store.ctag },
+  });
+  return isDirty ? loadStore(connection) : { ...store, checkedAt: Date.now() };
+}
+
+// Get the store of a calendar, checked for changes at most every
+// CALENDAR_SYNC_INTERVAL seconds (always if "fresh") and after each change
+// of this service. Concurrent requests share one refresh.
+async function getStore(
+  config: CalDAVCalendarConfig,
+  fresh = false
+): Promise<CalendarStore> {
+  const key = getCalendarKey(config);
+  const generation = generations.get(key) ?? 0;
+  const store = stores.get(key);
+  if (
+    !fresh &&
+    store &&
+    store.generation === generation &&
+    Date.now() - store.checkedAt < getSyncIntervalMs()
+  ) {
+    return store;
+  }
+
+  // A refresh started before the last change may miss it
+  const pending = refreshes.get(key);
+  if (pending && pending.generation === generation) {
+    return pending.refresh;
+  }
+
+  const refresh = refreshStore(config, store)
+    .then((refreshed) => {
+      const result = { ...refreshed, generation };
+      // Never replace the store of a later refresh
+      if ((stores.get(key)?.generation ?? -1) <= generation) {
+        stores.set(key, result);
+      }
+      return result;
+    })
+    .finally(() => {
+      if (refreshes.get(key)?.refresh === refresh) {
+        refreshes.delete(key);
+      }
+    });
+  refreshes.set(key, { generation, refresh });
+  return refresh;
+}
+
+// Calendars whose server does not support their free/busy mode
+const freeBusyUnsupported = new Set<string>();
+
+/**
+ * Get the objects of one calendar with events between start and end.
+ * Calendars with a free/busy mode return their busy periods as events
+ * without details. With "fresh", the calendar is checked for changes even
+ * if it was checked within CALENDAR_SYNC_INTERVAL.
+ */
+export async function fetchEventsFromCalendar(
+  config: CalDAVCalendarConfig,
+  start: Date,
+  end: Date,
+  options: { fresh?: boolean } = {}
+): Promise<DAVCalendarObject[]> {
+  const key = getCalendarKey(config);
+  if (
+    config.availabilityMode &&
+    config.availabilityMode !== "events" &&
+    !freeBusyUnsupported.has(key)
+  ) {
+    try {
+      return await fetchFreeBusyFromCalendar(config, start, end);
+    } catch (error) {
+      if (!(error instanceof FreeBusyUnsupportedError)) {
+        throw error;
+      }
+      log.warn(
+        `${config.availabilityMode} is not supported for ${config.id}, fetching events instead: ${error.message}`
+      );
+      freeBusyUnsupported.add(key);
+    }
+  }
+
+  const store = await getStore(config, options.fresh);
+  return [...store.objects.values()]
+    .filter(
+      (stored) => stored.start <= end.getTime() && stored.end >= start.getTime()
+    )
+    .map((stored) => stored.object);
+}
+
+// Check a calendar for changes on the next read, e.g. after a booking
+export function markCalendarChanged(config: CalDAVCalendarConfig): void {
+  const key = getCalendarKey(config);
+  generations.set(key, (generations.get(key) ?? 0) + 1);
+}
+
+// Drop all cached connections, calendar lists and events
+export function invalidateCalendarCache(): void {
+  invalidateConnections();
+  stores.clear();
+  // Refreshes in flight must not bring the old events back
+  for (const key of refreshes.keys()) {
+    generations.set(key, (generations.get(key) ?? 0) + 1);
+  }
+  freeBusyUnsupported.clear();
+  invalidateICSSources();
+}
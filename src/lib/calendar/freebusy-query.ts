@@ -0,0 +1,240 @@
+// src/lib/calendar/freebusy-query.ts
+
+import { randomUUID } from "crypto";
+import type { DAVCalendarObject } from "tsdav";
+import log from "../log";
+import { connectCalendar, type CalDAVCalendarConfig } from "./calendars";
+import { formatDateTime, serializeICS } from "./ics";
+import { parseFreeBusyPeriods, type FreeBusyPeriod } from "./freebusy";
+
+/**
+ * The server does not support the free/busy mode of a calendar.
+ * The events of the calendar are fetched instead.
+ */
+export class FreeBusyUnsupportedError extends Error {}
+
+// Status codes of servers that do not know the REPORT or POST
+const UNSUPPORTED_STATUS = [400, 404, 405, 415, 501];
+
+function getAuthHeaders(config: CalDAVCalendarConfig): Record<string, string> {
+  const credentials = Buffer.from(
+    `${config.username}:${config.password}`
+  ).toString("base64");
+  return { Authorization: `Basic ${credentials}` };
+}
+
+// Send a WebDAV request and return the body. Throws FreeBusyUnsupportedError
+// if the server does not support it.
+async function davRequest(
+  config: CalDAVCalendarConfig,
+  url: string,
+  method: string,
+  headers: Record<string, string>,
+  body: string
+): Promise<string> {
+  const response = await fetch(url, {
+    method,
+    headers: { ...getAuthHeaders(config), ...headers },
+    body,
+  });
+  const text = await response.text();
+  if (UNSUPPORTED_STATUS.includes(response.status)) {
+    throw new FreeBusyUnsupportedError(
+      `${method} ${url} is not supported: ${response.status} ${response.statusText}`
+    );
+  }
+  if (!response.ok) {
+    throw new Error(
+      `${method} ${url} failed: ${response.status} ${response.statusText}`
+    );
+  }
+  return text;
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCharCode(+code))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code: string) =>
+      String.fromCharCode(parseInt(code, 16))
+    )
+    .replace(/&amp;/g, "&");
+}
+
+// Get the text of the first element with a local name, e.g. "href"
+function getXmlElement(xml: string, name: string): string | undefined {
+  const match = xml.match(
+    new RegExp(
+      `<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`,
+      "i"
+    )
+  );
+  if (!match) return undefined;
+  const cdata = match[1].match(/^\s*<!\[CDATA\[([\s\S]*)\]\]>\s*$/);
+  return cdata ? cdata[1] : unescapeXml(match[1].trim());
+}
+
+// Get the value of a property from a PROPFIND of a URL
+async function findHref(
+  config: CalDAVCalendarConfig,
+  url: string,
+  property: string,
+  namespace: string
+): Promise<string> {
+  const xml = await davRequest(
+    config,
+    url,
+    "PROPFIND",
+    { Depth: "0", "Content-Type": "application/xml; charset=utf-8" },
+    `<?xml version="1.0" encoding="utf-8"?>
+<D:propfind xmlns:D="DAV:" xmlns:P="${namespace}"><D:prop><P:${property}/></D:prop></D:propfind>`
+  );
+  const propertyXml = xml.match(
+    new RegExp(
+      `<(?:[\\w-]+:)?${property}[^>]*>([\\s\\S]*?)</(?:[\\w-]+:)?${property}>`,
+      "i"
+    )
+  );
+  const href = propertyXml ? getXmlElement(propertyXml[1], "href") : undefined;
+  if (!href) {
+    throw new FreeBusyUnsupportedError(`No ${property} found at ${url}`);
+  }
+  return new URL(href, url).href;
+}
+
+// Free/busy of a calendar collection (RFC 4791, 7.10)
+async function queryCalendarFreeBusy(
+  config: CalDAVCalendarConfig,
+  start: Date,
+  end: Date
+): Promise<string> {
+  const { calendar } = await connectCalendar(config);
+  return await davRequest(
+    config,
+    calendar.url,
+    "REPORT",
+    { Depth: "1", "Content-Type": "application/xml; charset=utf-8" },
+    `<?xml version="1.0" encoding="utf-8"?>
+<C:free-busy-query xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <C:time-range start="${formatDateTime(start)}" end="${formatDateTime(end)}"/>
+</C:free-busy-query>`
+  );
+}
+
+// Free/busy of a user through the scheduling outbox (RFC 6638, 5),
+// e.g. for a delegate account that may only see the free/busy times
+async function queryOutboxFreeBusy(
+  config: CalDAVCalendarConfig,
+  start: Date,
+  end: Date
+): Promise<string> {
+  const { calendar } = await connectCalendar(config);
+  const principal = await findHref(
+    config,
+    calendar.url,
+    "current-user-principal",
+    "DAV:"
+  );
+  const outbox = await findHref(
+    config,
+    principal,
+    "schedule-outbox-URL",
+    "urn:ietf:params:xml:ns:caldav"
+  );
+  const attendee = config.freeBusyEmail || config.username;
+
+  const xml = await davRequest(
+    config,
+    outbox,
+    "POST",
+    {
+      "Content-Type": "text/calendar; charset=utf-8",
+      Originator: `mailto:${config.username}`,
+      Recipient: `mailto:${attendee}`,
+    },
+    serializeICS([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "PRODID:-//Calendar Service//Free Busy//EN",
+      "METHOD:REQUEST",
+      "BEGIN:VFREEBUSY",
+      { name: "UID", value: randomUUID() },
+      { name: "DTSTAMP", value: formatDateTime(new Date()) },
+      { name: "DTSTART", value: formatDateTime(start) },
+      { name: "DTEND", value: formatDateTime(end) },
+      { name: "ORGANIZER", value: `mailto:${config.username}` },
+      { name: "ATTENDEE", value: `mailto:${attendee}` },
+      "END:VFREEBUSY",
+      "END:VCALENDAR",
+    ])
+  );
+
+  const status = getXmlElement(xml, "request-status");
+  if (status && !status.startsWith("2.")) {
+    throw new FreeBusyUnsupportedError(
+      `Free/busy of ${attendee} is not available: ${status}`
+    );
+  }
+  const data = getXmlElement(xml, "calendar-data");
+  if (!data) {
+    throw new Error(`No free/busy data for ${attendee} in the response`);
+  }
+  return data;
+}
+
+// Write a busy period as an event, so that it passes the same busy rules
+// as the fetched events. BUSY-TENTATIVE becomes a tentative event.
+function toCalendarObject(
+  config: CalDAVCalendarConfig,
+  period: FreeBusyPeriod,
+  index: number
+): DAVCalendarObject {
+  const uid = `freebusy-${config.id}-${index}`;
+  return {
+    url: `${uid}.ics`,
+    etag: "",
+    data: serializeICS([
+      "BEGIN:VCALENDAR",
+      "VERSION:2.0",
+      "BEGIN:VEVENT",
+      { name: "UID", value: uid },
+      { name: "DTSTART", value: formatDateTime(period.start) },
+      { name: "DTEND", value: formatDateTime(period.end) },
+      {
+        name: "STATUS",
+        value: period.type === "BUSY-TENTATIVE" ? "TENTATIVE" : "CONFIRMED",
+      },
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ]),
+  };
+}
+
+/**
+ * Get the busy periods of a calendar between start and end with the
+ * free/busy mode of the calendar, as events without details. The events of
+ * bookings cannot be told apart, so they always block their time.
+ */
+export async function fetchFreeBusyFromCalendar(
+  config: CalDAVCalendarConfig,
+  start: Date,
+  end: Date
+): Promise<DAVCalendarObject[]> {
+  const data =
+    config.availabilityMode === "schedule-outbox"
+      ? await queryOutboxFreeBusy(config, start, end)
+      : await queryCalendarFreeBusy(config, start, end);
+
+  const periods = parseFreeBusyPeriods(data).filter(
+    (period) => period.type !== "FREE"
+  );
+  log.info(
+    `Found ${periods.length} busy periods in ${config.id} (${config.availabilityMode})`
+  );
+  return periods.map((period, index) =>
+    toCalendarObject(config, period, index)
+  );
+}
@@ -0,0 +1,88 @@
+import { describe, test, expect } from "bun:test";
+import {
+  generateFreeBusyICS,
+  getFreeBusyDays,
+  isFreeBusyTokenValid,
+  parseFreeBusyPeriods,
+} from "./freebusy";
+
+describe("generateFreeBusyICS", () => {
+  test("writes one busy period per busy time", () => {
+    const ics = generateFreeBusyICS(
+      [
+        {
+          start: new Date("2025-06-02T08:00:00Z"),
+          end: new Date("2025-06-02T09:30:00Z"),
+        },
+      ],
+      new Date("2025-06-02T00:00:00Z"),
+      new Date("2025-06-03T00:00:00Z"),
+      "max@example.com"
+    );
+
+    expect(ics).toContain("BEGIN:VFREEBUSY\r\n");
+    expect(ics).toContain("DTSTART:20250602T000000Z\r\n");
+    expect(ics).toContain("DTEND:20250603T000000Z\r\n");
+    expect(ics).toContain("ORGANIZER:mailto:max@example.com\r\n");
+    expect(ics).toContain(
+      "FREEBUSY;FBTYPE=BUSY:20250602T080000Z/20250602T093000Z\r\n"
+    );
+    expect(ics).not.toContain("SUMMARY");
+  });
+});
+
+describe("parseFreeBusyPeriods", () => {
+  test("reads periods with an end or a duration and their type", () => {
+    const periods = parseFreeBusyPeriods(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VFREEBUSY",
+        "FREEBUSY:20250602T080000Z/20250602T090000Z,20250602T100000Z/PT30M",
+        "FREEBUSY;FBTYPE=BUSY-TENTATIVE:20250602T120000Z/20250602T1300",
+        " 00Z",
+        "END:VFREEBUSY",
+        "END:VCALENDAR",
+      ].join("\r\n")
+    );
+
+    expect(
+      periods.map((period) => [
+        period.start.toISOString(),
+        period.end.toISOString(),
+        period.type,
+      ])
+    ).toEqual([
+      ["2025-06-02T08:00:00.000Z", "2025-06-02T09:00:00.000Z", "BUSY"],
+      ["2025-06-02T10:00:00.000Z", "2025-06-02T10:30:00.000Z", "BUSY"],
+      [
+        "2025-06-02T12:00:00.000Z",
+        "2025-06-02T13:00:00.000Z",
+        "BUSY-TENTATIVE",
+      ],
+    ]);
+  });
+});
+
+describe("isFreeBusyTokenValid", () => {
+  test("allows all requests without configured tokens", () => {
+    delete process.env.CALENDAR_FREEBUSY_TOKENS;
+    expect(isFreeBusyTokenValid()).toBe(true);
+  });
+
+  test("checks the token against the configured ones", () => {
+    process.env.CALENDAR_FREEBUSY_TOKENS = "first, second";
+    expect(isFreeBusyTokenValid("second")).toBe(true);
+    expect(isFreeBusyTokenValid("third")).toBe(false);
+    expect(isFreeBusyTokenValid()).toBe(false);
+    delete process.env.CALENDAR_FREEBUSY_TOKENS;
+  });
+});
+
+describe("getFreeBusyDays", () => {
+  test("caps the days at the maximum range of busy times", () => {
+    process.env.CALENDAR_FREEBUSY_DAYS = "365";
+    expect(getFreeBusyDays()).toBe(92);
+    delete process.env.CALENDAR_FREEBUSY_DAYS;
+    expect(getFreeBusyDays()).toBe(60);
+  });
+});
@@ -0,0 +1,120 @@
+// src/lib/calendar/freebusy.ts
+
+import { timingSafeEqual } from "crypto";
+import { MAX_BUSY_RANGE_DAYS } from "./config";
+import { formatDateTime, serializeICS, type ICSProperty } from "./ics";
+import {
+  parseICalDateValue,
+  parseICalDuration,
+  parseICalProperty,
+  unfoldLines,
+} from "./parser";
+
+// A period of a FREEBUSY property, e.g. FBTYPE=BUSY-TENTATIVE
+export interface FreeBusyPeriod {
+  start: Date;
+  end: Date;
+  type: string;
+}
+
+/**
+ * Generate a VFREEBUSY calendar with one FBTYPE=BUSY period per busy time
+ * (RFC 5545, 3.6.4). Only the times are published, no event details.
+ */
+export function generateFreeBusyICS(
+  busyTimes: { start: Date; end: Date }[],
+  from: Date,
+  to: Date,
+  ownerEmail?: string
+): string {
+  const lines: (ICSProperty | string)[] = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Calendar Service//Free Busy//EN",
+    "METHOD:PUBLISH",
+    "BEGIN:VFREEBUSY",
+    { name: "UID", value: `freebusy-${ownerEmail || "calendar"}` },
+    { name: "DTSTAMP", value: formatDateTime(new Date()) },
+    { name: "DTSTART", value: formatDateTime(from) },
+    { name: "DTEND", value: formatDateTime(to) },
+  ];
+  if (ownerEmail) {
+    lines.push({ name: "ORGANIZER", value: `mailto:${ownerEmail}` });
+  }
+  for (const busy of busyTimes) {
+    lines.push({
+      name: "FREEBUSY",
+      params: { FBTYPE: "BUSY" },
+      value: `${formatDateTime(busy.start)}/${formatDateTime(busy.end)}`,
+    });
+  }
+  lines.push("END:VFREEBUSY", "END:VCALENDAR");
+
+  return serializeICS(lines);
+}
+
+/**
+ * Parse the FREEBUSY periods of the VFREEBUSY components of an ICS string.
+ * Periods are "start/end" or "start/duration" in UTC (RFC 5545, 3.3.9).
+ */
+export function parseFreeBusyPeriods(icsData: string): FreeBusyPeriod[] {
+  const periods: FreeBusyPeriod[] = [];
+  let inFreeBusy = false;
+
+  for (const line of unfoldLines(icsData)) {
+    if (line === "BEGIN:VFREEBUSY") inFreeBusy = true;
+    else if (line === "END:VFREEBUSY") inFreeBusy = false;
+    if (!inFreeBusy) continue;
+
+    const property = parseICalProperty(line);
+    if (property?.name !== "FREEBUSY") continue;
+
+    for (const value of property.value.split(",")) {
+      const [startValue, endValue = ""] = value.split("/");
+      const start = parseICalDateValue(startValue);
+      if (!start) continue;
+
+      const startTime = start.wallClock.getTime();
+      const end = parseICalDateValue(endValue);
+      const duration = end ? undefined : parseICalDuration(endValue);
+      const endTime = end
+        ? end.wallClock.getTime()
+        : duration !== undefined
+          ? startTime + duration
+          : undefined;
+      if (endTime === undefined) continue;
+
+      periods.push({
+        start: new Date(startTime),
+        end: new Date(endTime),
+        type: (property.params.FBTYPE || "BUSY").toUpperCase(),
+      });
+    }
+  }
+  return periods;
+}
+
+/**
+ * Check the token of a free/busy feed against CALENDAR_FREEBUSY_TOKENS
+ * (comma separated). Without configured tokens the feed is public.
+ */
+export function isFreeBusyTokenValid(token?: string): boolean {
+  const tokens = (process.env.CALENDAR_FREEBUSY_TOKENS || "")
+    .split(",")
+    .map((value) => value.trim())
+    .filter(Boolean);
+  if (tokens.length === 0) return true;
+  if (!token) return false;
+
+  const given = Buffer.from(token);
+  return tokens.some((value) => {
+    const expected = Buffer.from(value);
+    return expected.length === given.length && timingSafeEqual(expected, given);
+  });
+}
+
+// Days from today that the feed covers, at most MAX_BUSY_RANGE_DAYS
+export function getFreeBusyDays(): number {
+  const days = Number(process.env.CALENDAR_FREEBUSY_DAYS) || 60;
+  return Math.min(days, MAX_BUSY_RANGE_DAYS);
+}
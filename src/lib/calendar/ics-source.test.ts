@@ -0,0 +1,72 @@
+import { describe, test, expect, beforeEach, afterAll } from "bun:test";
+import { readFileSync } from "fs";
+import { join } from "path";
+import { fetchEventsFromICSSource, invalidateICSSources } from "./ics-source";
+import { getICSOccurrences } from "./recurrence";
+
+const fixture = join(import.meta.dir, "fixtures", "busy.ics");
+
+beforeEach(() => {
+  process.env.CALENDAR_SYNC_INTERVAL = "0";
+  invalidateICSSources();
+});
+
+describe("fetchEventsFromICSSource", () => {
+  test("reads the events of a local file", async () => {
+    const [object] = await fetchEventsFromICSSource({
+      id: "fixture",
+      source: "ics-file",
+      location: fixture,
+    });
+
+    const occurrences = getICSOccurrences(
+      object.data,
+      new Date("2025-06-02T00:00:00Z"),
+      new Date("2025-06-03T00:00:00Z")
+    );
+    expect(occurrences).toHaveLength(1);
+    expect(occurrences[0].start.toISOString()).toBe("2025-06-02T08:00:00.000Z");
+  });
+
+  test("fails for a missing file", async () => {
+    await expect(
+      fetchEventsFromICSSource({
+        id: "missing",
+        source: "ics-file",
+        location: join(import.meta.dir, "fixtures", "missing.ics"),
+      })
+    ).rejects.toThrow("Failed to load ICS calendar missing");
+  });
+
+  describe("URLs", () => {
+    const requests: (string | null)[] = [];
+    const server = Bun.serve({
+      port: 0,
+      fetch(request) {
+        requests.push(request.headers.get("if-none-match"));
+        if (request.headers.get("if-none-match") === '"v1"') {
+          return new Response(null, { status: 304 });
+        }
+        return new Response(readFileSync(fixture, "utf8"), {
+          headers: { "Content-Type": "text/calendar", ETag: '"v1"' },
+        });
+      },
+    });
+    afterAll(() => server.stop(true));
+
+    test("keeps the loaded calendar if it was not modified", async () => {
+      const config = {
+        id: "remote",
+        source: "ics-url" as const,
+        location: `http://localhost:${server.port}/calendar.ics`,
+      };
+
+      const [first] = await fetchEventsFromICSSource(config);
+      const [second] = await fetchEventsFromICSSource(config);
+
+      expect(requests).toEqual([null, '"v1"']);
+      expect(second.data).toBe(first.data);
+      expect(second.data).toContain("UID:fixture-2@calendar.service");
+    });
+  });
+});
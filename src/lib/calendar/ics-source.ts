@@ -0,0 +1,131 @@
+// src/lib/calendar/ics-source.ts
+
+import fs from "fs";
+import path from "path";
+import type { DAVCalendarObject } from "tsdav";
+import log from "../log";
+import type { ICSCalendarConfig } from "./calendars";
+import { getEnvConfig } from "./config";
+
+/**
+ * The last loaded content of an ICS source with the validators to check it
+ * for changes: ETag and Last-Modified of URLs, the modification time of
+ * files.
+ */
+interface ICSSourceState {
+  data: string;
+  etag?: string;
+  lastModified?: string;
+  mtimeMs?: number;
+  checkedAt: number;
+}
+
+const states = new Map<string, ICSSourceState>();
+const refreshes = new Map<string, Promise<ICSSourceState>>();
+
+function getSourceKey(config: ICSCalendarConfig): string {
+  return `${config.source}|${config.location}`;
+}
+
+// webcal:// is the same as https:// for subscriptions
+function toHttpUrl(url: string): string {
+  return url.replace(/^webcals?:\/\//i, "https://");
+}
+
+// Download an ICS URL unless the server reports it as not modified
+async function loadUrl(
+  config: ICSCalendarConfig,
+  state?: ICSSourceState
+): Promise<ICSSourceState> {
+  const headers: Record<string, string> = { Accept: "text/calendar" };
+  if (state?.etag) headers["If-None-Match"] = state.etag;
+  if (state?.lastModified) headers["If-Modified-Since"] = state.lastModified;
+
+  const response = await fetch(toHttpUrl(config.location), {
+    headers,
+    signal: AbortSignal.timeout(30_000),
+  });
+  if (response.status === 304 && state) {
+    return { ...state, checkedAt: Date.now() };
+  }
+  if (!response.ok) {
+    throw new Error(`${response.status} ${response.statusText}`);
+  }
+
+  const data = await response.text();
+  if (!data.includes("BEGIN:VCALENDAR")) {
+    throw new Error("The response is not an iCalendar file");
+  }
+  log.info(`Loaded ICS calendar ${config.id} (${data.length} bytes)`);
+  return {
+    data,
+    etag: response.headers.get("etag") ?? undefined,
+    lastModified: response.headers.get("last-modified") ?? undefined,
+    checkedAt: Date.now(),
+  };
+}
+
+// Read a local ICS file unless it did not change
+function loadFile(
+  config: ICSCalendarConfig,
+  state?: ICSSourceState
+): ICSSourceState {
+  const file = path.resolve(process.cwd(), config.location);
+  const { mtimeMs } = fs.statSync(file);
+  if (state && state.mtimeMs === mtimeMs) {
+    return { ...state, checkedAt: Date.now() };
+  }
+
+  const data = fs.readFileSync(file, "utf8");
+  log.info(`Loaded ICS calendar ${config.id} from ${config.location}`);
+  return { data, mtimeMs, checkedAt: Date.now() };
+}
+
+// Get the content of a source, checked for changes at most every
+// CALENDAR_SYNC_INTERVAL seconds. Concurrent requests share one refresh.
+async function getState(config: ICSCalendarConfig): Promise<ICSSourceState> {
+  const key = getSourceKey(config);
+  const state = states.get(key);
+  const syncIntervalMs =
+    (Number(getEnvConfig().CALENDAR_SYNC_INTERVAL) || 0) * 1000;
+  if (state && Date.now() - state.checkedAt < syncIntervalMs) {
+    return state;
+  }
+
+  let refresh = refreshes.get(key);
+  if (!refresh) {
+    refresh = (async () =>
+      config.source === "ics-url"
+        ? await loadUrl(config, state)
+        : loadFile(config, state))()
+      .then((refreshed) => {
+        states.set(key, refreshed);
+        return refreshed;
+      })
+      .finally(() => refreshes.delete(key));
+    refreshes.set(key, refresh);
+  }
+  return refresh;
+}
+
+/**
+ * Get the events of a read-only ICS calendar as one calendar object.
+ * The events are filtered to the requested time by the busy-time parsing.
+ */
+export async function fetchEventsFromICSSource(
+  config: ICSCalendarConfig
+): Promise<DAVCalendarObject[]> {
+  try {
+    const state = await getState(config);
+    return [{ url: config.location, etag: state.etag ?? "", data: state.data }];
+  } catch (error) {
+    throw new Error(
+      `Failed to load ICS calendar ${config.id}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+// Drop the loaded ICS calendars
+export function invalidateICSSources(): void {
+  states.clear();
+}
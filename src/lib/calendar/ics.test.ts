@@ -0,0 +1,64 @@
+import { describe, test, expect } from "bun:test";
+import { escapeText, foldLine, formatDateTime, formatParamValue } from "./ics";
+import { generateICSContent } from "./create-event";
+import { parseICSEvents } from "./parser";
+
+describe("ICS helpers", () => {
+  test("escapes text values", () => {
+    expect(escapeText("Agenda; notes, more\\\nline")).toBe(
+      "Agenda\\; notes\\, more\\\\\\nline"
+    );
+  });
+
+  test("quotes parameter values", () => {
+    expect(formatParamValue("Doe, Jane")).toBe('"Doe, Jane"');
+    expect(formatParamValue('Jane "JD" Doe')).toBe("Jane JD Doe");
+  });
+
+  test("formats UTC date-times", () => {
+    expect(formatDateTime("2025-06-02T08:00:00.000Z")).toBe("20250602T080000Z");
+  });
+
+  test("folds long lines without splitting characters", () => {
+    const folded = foldLine(`DESCRIPTION:${"ä".repeat(60)}`);
+    const lines = folded.split("\r\n");
+    expect(lines.length).toBe(2);
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(folded.replace(/\r\n /g, "")).toBe(`DESCRIPTION:${"ä".repeat(60)}`);
+  });
+});
+
+describe("generateICSContent", () => {
+  test("writes a valid event that parses back", () => {
+    const ics = generateICSContent({
+      title: "Intro call, part 1",
+      startTime: "2025-06-02T08:00:00.000Z",
+      endTime: "2025-06-02T08:30:00.000Z",
+      description: "Agenda:\n- Intro; Q&A, wrap-up",
+      attendees: [{ email: "jane@example.com", name: "Doe, Jane" }],
+      organizer: { email: "max@example.com", name: "Max" },
+      url: "https://meet.example.com/1",
+      reminders: [15],
+      uid: "uid-1",
+    });
+
+    expect(ics).toContain("\r\nDTSTART:20250602T080000Z\r\n");
+    expect(ics.replace(/\r\n /g, "")).toContain(
+      'ATTENDEE;CN="Doe, Jane";CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:jane@example.com'
+    );
+    expect(ics).toContain("ORGANIZER;CN=Max:mailto:max@example.com");
+    expect(ics).toContain("BEGIN:VALARM\r\nACTION:DISPLAY");
+    expect(ics).toContain("TRIGGER:-PT15M");
+    expect(ics).not.toContain("METHOD:");
+
+    const [event] = parseICSEvents(ics);
+    expect(event.uid).toBe("uid-1");
+    expect(event.summary).toBe("Intro call, part 1");
+    expect(
+      event.properties.find((property) => property.name === "DESCRIPTION")
+        ?.value
+    ).toBe("Agenda:\\n- Intro\\; Q&A\\, wrap-up");
+  });
+});
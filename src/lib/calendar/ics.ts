@@ -0,0 +1,90 @@
+// src/lib/calendar/ics.ts
+
+// Helpers to write iCalendar content (RFC 5545)
+
+/**
+ * Escape a TEXT value: backslashes, semicolons, commas and newlines
+ * (RFC 5545, 3.3.11)
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r\n|\r|\n/g, "\\n");
+}
+
+/**
+ * Write a parameter value, e.g. the CN of an attendee. Values with a colon,
+ * semicolon or comma are quoted, double quotes are not allowed at all
+ * (RFC 5545, 3.2).
+ */
+export function formatParamValue(value: string): string {
+  const cleaned = value.replace(/["\r\n]/g, "");
+  return /[:;,]/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * Format a date as UTC DATE-TIME, e.g. 20250602T080000Z
+ */
+export function formatDateTime(date: Date | string): string {
+  return new Date(date)
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+}
+
+/**
+ * Fold a content line into lines of at most 75 octets (RFC 5545, 3.1).
+ * Multi-byte characters are never split.
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+
+  const lines: string[] = [];
+  let current = "";
+  let currentLength = 0;
+  for (const char of line) {
+    const charLength = encoder.encode(char).length;
+    // Continuation lines start with a space that counts towards the limit
+    const limit = lines.length === 0 ? 75 : 74;
+    if (currentLength + charLength > limit) {
+      lines.push(current);
+      current = "";
+      currentLength = 0;
+    }
+    current += char;
+    currentLength += charLength;
+  }
+  lines.push(current);
+  return lines.join("\r\n ");
+}
+
+/**
+ * A content line with its parameters. Parameter values are written as
+ * given, use formatParamValue for user input.
+ */
+export interface ICSProperty {
+  name: string;
+  params?: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Write content lines with CRLF line endings and folding. Plain strings are
+ * written as they are, e.g. "BEGIN:VEVENT".
+ */
+export function serializeICS(lines: (ICSProperty | string)[]): string {
+  return (
+    lines
+      .map((line) => {
+        if (typeof line === "string") return foldLine(line);
+        const params = Object.entries(line.params || {})
+          .map(([name, value]) => `;${name}=${value}`)
+          .join("");
+        return foldLine(`${line.name}${params}:${line.value}`);
+      })
+      .join("\r\n") + "\r\n"
+  );
+}
@@ -0,0 +1,257 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  beforeEach,
+  afterAll,
+  afterEach,
+  mock,
+  setSystemTime,
+} from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { urlContains } from "tsdav";
+import { getDateOverridesInRange } from "./overrides";
+
+// One busy event on Monday 2030-06-03 from 11:00 to 12:00
+const calendar = { url: "https://dav.example.com/slots/calendar/" };
+mock.module("tsdav", () => ({
+  urlContains,
+  createDAVClient: async () => ({
+    fetchCalendars: async () => [calendar],
+    isCollectionDirty: async () => ({ isDirty: true, newCtag: "1" }),
+    fetchCalendarObjects: async () => [
+      {
+        url: `${calendar.url}meeting.ics`,
+        etag: '"1"',
+        data: [
+          "BEGIN:VCALENDAR",
+          "BEGIN:VEVENT",
+          "UID:meeting",
+          "DTSTART:20300603T110000Z",
+          "DTEND:20300603T120000Z",
+          "END:VEVENT",
+          "END:VCALENDAR",
+        ].join("\r\n"),
+      },
+    ],
+  }),
+}));
+
+const { checkBookingWindow, getAvailableSlotsForDay, parseSlotLength } =
+  await import(".");
+
+// An open Saturday, a closed Monday, a blackout over an override and a holiday
+const directory = mkdtempSync(join(tmpdir(), "slots-"));
+const overridesFile = join(directory, "date-overrides.json");
+writeFileSync(
+  overridesFile,
+  JSON.stringify({
+    overrides: [
+      { date: "2030-06-08", hours: "10:00-12:00", reason: "Open Saturday" },
+      { date: "2030-06-10", hours: "" },
+      { date: "2030-06-17", hours: "09:00-10:00" },
+    ],
+    blackouts: [{ from: "2030-06-17", to: "2030-06-18", reason: "Offsite" }],
+  })
+);
+const holidaysFile = join(directory, "holidays.ics");
+writeFileSync(
+  holidaysFile,
+  [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT",
+    "UID:midsummer",
+    "DTSTART;VALUE=DATE:20300624",
+    "DTEND;VALUE=DATE:20300625",
+    "SUMMARY:Midsummer",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n")
+);
+
+// Start times (HH:MM in UTC) of the free slots of a day
+async function getStartTimes(date: string, slotLength = 1) {
+  const slots = await getAvailableSlotsForDay(new Date(date), slotLength);
+  return slots.map((slot) => slot.start.slice(11, 16));
+}
+
+describe("getAvailableSlotsForDay", () => {
+  const environment = {
+    CALENDAR_CALDAV_URL: "https://dav.example.com/",
+    CALENDAR_CALDAV_USER: "slots",
+    CALENDAR_CALDAV_PASSWORD: "secret",
+    CALENDAR_CALDAV_CALENDARNAME: "",
+    CALENDAR_CALDAV_AVAILABILITY_MODE: "events",
+    CALENDAR_CALENDARS_FILE: "",
+    CALENDAR_HOSTS_FILE: "",
+    CALENDAR_AVAILABLE_MON: "09:00-14:00",
+    CALENDAR_AVAILABLE_SAT: "",
+    CALENDAR_TIMEZONE: "UTC",
+    CALENDAR_SLOTS_LENGTH: "1",
+    CALENDAR_SLOT_INTERVAL: "30",
+    CALENDAR_SLOT_ALIGNMENT: "",
+    CALENDAR_MIN_NOTICE: "0",
+    CALENDAR_MAX_DAYS_AHEAD: "",
+    CALENDAR_BUFFER_BEFORE: "0",
+    CALENDAR_BUFFER_AFTER: "0",
+    CALENDAR_SYNC_INTERVAL: "3600",
+    CALENDAR_DATE_OVERRIDES_FILE: "",
+    CALENDAR_HOLIDAYS_FILE: "",
+  };
+  const previous = Object.fromEntries(
+    Object.keys(environment).map((key) => [key, process.env[key]])
+  );
+
+  // The tests change single variables of the environment
+  beforeEach(() => {
+    Object.assign(process.env, environment);
+  });
+
+  beforeAll(() => {
+    setSystemTime(new Date("2030-06-01T00:00:00Z"));
+  });
+
+  afterEach(() => {
+    setSystemTime(new Date("2030-06-01T00:00:00Z"));
+  });
+
+  afterAll(() => {
+    setSystemTime();
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  test("keeps the buffers free around busy events", async () => {
+    expect(await getStartTimes("2030-06-03")).toEqual([
+      "09:00",
+      "09:30",
+      "10:00",
+      "12:00",
+      "12:30",
+      "13:00",
+    ]);
+
+    process.env.CALENDAR_BUFFER_BEFORE = "30";
+    process.env.CALENDAR_BUFFER_AFTER = "15";
+    expect(await getStartTimes("2030-06-03")).toEqual([
+      "09:00",
+      "09:30",
+      "12:30",
+      "13:00",
+    ]);
+  });
+
+  test("offers no slots within the minimum notice", async () => {
+    process.env.CALENDAR_MIN_NOTICE = "2";
+    setSystemTime(new Date("2030-06-10T09:10:00Z"));
+
+    expect(await getStartTimes("2030-06-10")).toEqual([
+      "11:30",
+      "12:00",
+      "12:30",
+      "13:00",
+    ]);
+    expect(await checkBookingWindow(new Date("2030-06-10T11:00:00Z"))).toBe(
+      "Bookings require at least 2 hours notice"
+    );
+    expect(
+      await checkBookingWindow(new Date("2030-06-10T11:30:00Z"))
+    ).toBeUndefined();
+  });
+
+  test("offers no slots beyond the maximum days ahead", async () => {
+    process.env.CALENDAR_MAX_DAYS_AHEAD = "10";
+
+    expect(await getStartTimes("2030-06-10")).toHaveLength(9);
+    expect(await getStartTimes("2030-06-17")).toEqual([]);
+    expect(await checkBookingWindow(new Date("2030-06-17T09:00:00Z"))).toBe(
+      "Bookings are only possible up to 10 days ahead"
+    );
+  });
+
+  test("reads working hours with minutes", async () => {
+    process.env.CALENDAR_AVAILABLE_MON = "08:30-10:15,13:00-14:00";
+    process.env.CALENDAR_SLOTS_LENGTH = "45m";
+    process.env.CALENDAR_SLOT_INTERVAL = "15";
+
+    expect(await getStartTimes("2030-06-10", 0.75)).toEqual([
+      "08:30",
+      "08:45",
+      "09:00",
+      "09:15",
+      "09:30",
+      "13:00",
+      "13:15",
+    ]);
+  });
+
+  test("aligns the slots to the alignment minutes", async () => {
+    process.env.CALENDAR_AVAILABLE_MON = "09:10-11:00";
+    process.env.CALENDAR_SLOT_ALIGNMENT = "15";
+
+    expect(await getStartTimes("2030-06-10")).toEqual(["09:15", "09:45"]);
+  });
+
+  test("keeps reading hours with fractions", async () => {
+    process.env.CALENDAR_AVAILABLE_MON = "8-10,14.5-16";
+    process.env.CALENDAR_SLOTS_LENGTH = "0.5,1";
+
+    expect(await getStartTimes("2030-06-10")).toEqual([
+      "08:00",
+      "08:30",
+      "09:00",
+      "14:30",
+      "15:00",
+    ]);
+  });
+
+  test("rejects invalid working hours", async () => {
+    process.env.CALENDAR_AVAILABLE_MON = "10:00-09:00";
+
+    await expect(getStartTimes("2030-06-10")).rejects.toThrow(
+      "Invalid time range: 10:00-09:00"
+    );
+  });
+
+  test("applies date overrides, blackouts and holidays", async () => {
+    process.env.CALENDAR_DATE_OVERRIDES_FILE = overridesFile;
+    process.env.CALENDAR_HOLIDAYS_FILE = holidaysFile;
+
+    expect(await getStartTimes("2030-06-08")).toEqual([
+      "10:00",
+      "10:30",
+      "11:00",
+    ]);
+    expect(await getStartTimes("2030-06-10")).toEqual([]);
+    expect(await getStartTimes("2030-06-17")).toEqual([]);
+    expect(await getStartTimes("2030-06-24")).toEqual([]);
+    expect(await getStartTimes("2030-07-01")).toHaveLength(9);
+
+    expect(getDateOverridesInRange("2030-06-01", "2030-06-30")).toEqual([
+      {
+        date: "2030-06-08",
+        type: "hours",
+        hours: "10:00-12:00",
+        reason: "Open Saturday",
+      },
+      { date: "2030-06-10", type: "hours", hours: "", reason: undefined },
+      { date: "2030-06-17", type: "blackout", reason: "Offsite" },
+      { date: "2030-06-18", type: "blackout", reason: "Offsite" },
+      { date: "2030-06-24", type: "holiday", reason: "Midsummer" },
+    ]);
+  });
+});
+
+describe("parseSlotLength", () => {
+  test("reads hours and minutes", () => {
+    expect(parseSlotLength("1")).toBe(1);
+    expect(parseSlotLength("0.5")).toBe(0.5);
+    expect(parseSlotLength("45m")).toBe(0.75);
+    expect(parseSlotLength("1.5h")).toBe(1.5);
+  });
+});
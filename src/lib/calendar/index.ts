@@ -1,30 +1,99 @@
 import type { DAVCalendarObject } from "tsdav";
-import { parseICS } from "./parser";
-import { getEnvConfig } from "./config";
-import { createDAVClient, fetchCalendarObjects } from "tsdav";
+import { getICSOccurrences } from "./recurrence";
+import { getOwnerPartstat, type ICalEvent } from "./parser";
+import { getEnvConfig, MAX_BUSY_RANGE_DAYS } from "./config";
+import { getDateOverride } from "./overrides";
+import {
+  formatDateInTimeZone,
+  formatInTimeZone,
+  utcToWallClock,
+  wallClockToUtc,
+} from "./timezone";
+import {
+  connectCalendar,
+  getConflictCalendars,
+  getTargetCalendar,
+  isICSCalendar,
+} from "./calendars";
+import { fetchEventsFromCalendar } from "./event-store";
+import { fetchEventsFromICSSource } from "./ics-source";
 import log from "../log";
+import type { EventType } from "../event-types";
+import { getEventTypeHosts, type Host } from "../hosts";
+import { getHeldRanges } from "../bookings/holds";
 
 // Type for day keys
 type DayKey = "MON" | "TUE" | "WED" | "THU" | "FRI" | "SAT" | "SUN";
 
-// Get calendar configuration from environment variables
-export async function getCalendarConfig() {
+// Type for the resolved calendar configuration
+type CalendarSettings = Awaited<ReturnType<typeof getCalendarConfig>>;
+
+// Holds and events that do not block slots, e.g. the own hold of a visitor
+// or the event of a booking that is rescheduled. "hostIds" limits team
+// event types to some of their hosts, e.g. the hosts of a booking.
+// "fresh" checks the calendars for changes instead of using the events
+// loaded within CALENDAR_SYNC_INTERVAL, e.g. right before a booking.
+export interface SlotOptions {
+  ignoreHoldId?: string;
+  ignoreEventUids?: string[];
+  hostIds?: string[];
+  fresh?: boolean;
+}
+
+// A calendar day in a specific timezone
+interface CalendarDay {
+  date: string; // YYYY-MM-DD
+  weekday: number; // 0 = Sunday, 1 = Monday, etc.
+  start: Date;
+  end: Date;
+}
+
+// Get calendar configuration from environment variables.
+// If an event type is passed, its duration, availability and buffers are used.
+// If a host is passed, its calendars, timezone and working hours are used.
+export async function getCalendarConfig(eventType?: EventType, host?: Host) {
   const config = getEnvConfig();
+  // The event type wins over the host, the host over the defaults
+  const availability = (day: DayKey) =>
+    parseTimeRanges(
+      eventType?.availability?.[day] ??
+        host?.availability?.[day] ??
+        config[`CALENDAR_AVAILABLE_${day}`]
+    );
   return {
-    url: config.CALENDAR_CALDAV_URL,
-    username: config.CALENDAR_CALDAV_USER,
-    password: config.CALENDAR_CALDAV_PASSWORD,
-    calendarName: config.CALENDAR_CALDAV_CALENDARNAME,
+    hostId: host?.id,
+    conflictCalendars: host?.conflictCalendars ?? getConflictCalendars(),
+    targetCalendar: host?.targetCalendar ?? getTargetCalendar(),
     availableSlots: {
-      MON: parseTimeRanges(config.CALENDAR_AVAILABLE_MON),
-      TUE: parseTimeRanges(config.CALENDAR_AVAILABLE_TUE),
-      WED: parseTimeRanges(config.CALENDAR_AVAILABLE_WED),
-      THU: parseTimeRanges(config.CALENDAR_AVAILABLE_THU),
-      FRI: parseTimeRanges(config.CALENDAR_AVAILABLE_FRI),
-      SAT: parseTimeRanges(config.CALENDAR_AVAILABLE_SAT),
-      SUN: parseTimeRanges(config.CALENDAR_AVAILABLE_SUN),
+      MON: availability("MON"),
+      TUE: availability("TUE"),
+      WED: availability("WED"),
+      THU: availability("THU"),
+      FRI: availability("FRI"),
+      SAT: availability("SAT"),
+      SUN: availability("SUN"),
+    },
+    slotLengths: eventType
+      ? [eventType.duration]
+      : parseSlotLengths(config.CALENDAR_SLOTS_LENGTH),
+    slotIntervalMinutes: Number(config.CALENDAR_SLOT_INTERVAL) || 30,
+    slotAlignmentMinutes: Number(config.CALENDAR_SLOT_ALIGNMENT) || 0,
+    timezone: host?.timezone ?? config.CALENDAR_TIMEZONE,
+    ownerEmail: host?.email ?? config.CALENDAR_OWNER_EMAIL,
+    busyRules: {
+      blockAllDay: config.CALENDAR_BLOCK_ALL_DAY === "true",
+      blockTentative: config.CALENDAR_BLOCK_TENTATIVE === "true",
+      blockDeclined: config.CALENDAR_BLOCK_DECLINED === "true",
+      blockTransparent: config.CALENDAR_BLOCK_TRANSPARENT === "true",
     },
-    slotLengths: parseSlotLengths(config.CALENDAR_SLOTS_LENGTH),
+    bufferBeforeMinutes:
+      eventType?.bufferBefore ?? (Number(config.CALENDAR_BUFFER_BEFORE) || 0),
+    bufferAfterMinutes:
+      eventType?.bufferAfter ?? (Number(config.CALENDAR_BUFFER_AFTER) || 0),
+    minNoticeHours: Number(config.CALENDAR_MIN_NOTICE) || 0,
+    maxDaysAhead: config.CALENDAR_MAX_DAYS_AHEAD
+      ? Number(config.CALENDAR_MAX_DAYS_AHEAD)
+      : undefined,
   };
 }
 
@@ -33,10 +102,18 @@ export async function printCalendarConfig() {
   const config = await getCalendarConfig();
 
   log.info("\n=== CALENDAR CONFIGURATION ===");
-  log.info(`CalDAV URL: ${config.url}`);
-  log.info(`CalDAV Username: ${config.username}`);
-  log.info(`CalDAV Password: ${"*".repeat(config.password.length)}`);
-  log.info(`Calendar Name: ${config.calendarName}`);
+  log.info("Conflict Calendars:");
+  config.conflictCalendars.forEach((calendar) => {
+    log.info(
+      isICSCalendar(calendar)
+        ? `  ${calendar.id}: ${calendar.source} ${calendar.location} (read-only)`
+        : `  ${calendar.id}: ${calendar.calendarName || "first calendar"} at ${calendar.url} (${calendar.username})`
+    );
+  });
+  log.info(
+    `Target Calendar: ${config.targetCalendar.id} (${config.targetCalendar.calendarName || "first calendar"} at ${config.targetCalendar.url})`
+  );
+  log.info(`Timezone: ${config.timezone}`);
   log.info("\nAvailable Time Slots:");
   log.info(`Monday: ${formatTimeRanges(config.availableSlots.MON)}`);
   log.info(`Tuesday: ${formatTimeRanges(config.availableSlots.TUE)}`);
@@ -46,6 +123,15 @@ export async function printCalendarConfig() {
   log.info(`Saturday: ${formatTimeRanges(config.availableSlots.SAT)}`);
   log.info(`Sunday: ${formatTimeRanges(config.availableSlots.SUN)}`);
   log.info(`\nSlot Lengths (hours): ${config.slotLengths.join(", ")}`);
+  log.info(
+    `Slot Interval (minutes): ${config.slotIntervalMinutes}, Alignment (minutes): ${config.slotAlignmentMinutes || "range start"}`
+  );
+  log.info(`Busy Rules: ${JSON.stringify(config.busyRules)}`);
+  log.info(
+    `Buffers (minutes): ${config.bufferBeforeMinutes} before, ${config.bufferAfterMinutes} after events`
+  );
+  log.info(`Minimum Notice (hours): ${config.minNoticeHours}`);
+  log.info(`Maximum Days Ahead: ${config.maxDaysAhead ?? "unlimited"}`);
   log.info("===============================\n");
 
   // Test connection to CalDAV server
@@ -63,25 +149,31 @@ export async function testCalDAVConnection(): Promise<boolean> {
 
   try {
     log.info("Testing CalDAV connection...");
-    const { createDAVClient } = await import("tsdav");
-
-    const client = await createDAVClient({
-      serverUrl: config.url,
-      credentials: {
-        username: config.username,
-        password: config.password,
-      },
-      authMethod: "Basic",
-      defaultAccountType: "caldav",
-    });
 
-    log.info("Client created, attempting to fetch calendars...");
-    const calendars = await client.fetchCalendars();
+    // Test all conflict calendars and the target calendar. Fails if a
+    // configured calendar name does not exist.
+    const calendars = [config.targetCalendar, ...config.conflictCalendars];
+    const tested = new Set<string>();
+    for (const calendarConfig of calendars) {
+      if (tested.has(calendarConfig.id)) continue;
+      tested.add(calendarConfig.id);
+
+      if (isICSCalendar(calendarConfig)) {
+        log.info(`Loading ICS calendar ${calendarConfig.id}...`);
+        await fetchEventsFromICSSource(calendarConfig);
+        continue;
+      }
 
-    log.info(`Found ${calendars.length} calendars:`);
-    calendars.forEach((cal, i) => {
-      log.info(`  ${i + 1}. ${cal.displayName || "Unnamed"} (${cal.url})`);
-    });
+      log.info(`Connecting to calendar ${calendarConfig.id}...`);
+      const { calendars: available } = await connectCalendar(calendarConfig, {
+        refresh: true,
+      });
+
+      log.info(`Found ${available.length} calendars:`);
+      available.forEach((cal, i) => {
+        log.info(`  ${i + 1}. ${cal.displayName || "Unnamed"} (${cal.url})`);
+      });
+    }
 
     return true;
   } catch (error) {
@@ -92,119 +184,111 @@ export async function testCalDAVConnection(): Promise<boolean> {
   }
 }
 
+// Format minutes since midnight as HH:MM
+function formatMinutes(minutes: number): string {
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `${hh}:${mm}`;
+}
+
 // Format time ranges for display
 function formatTimeRanges(ranges: { start: number; end: number }[]): string {
   if (!ranges || ranges.length === 0) return "Not available";
 
-  return ranges.map((range) => `${range.start}:00-${range.end}:00`).join(", ");
+  return ranges
+    .map((range) => `${formatMinutes(range.start)}-${formatMinutes(range.end)}`)
+    .join(", ");
 }
 
-// Parse time ranges like "8-10,14-17" into structured objects
+// Parse a time of day like "8", "8.5" or "08:30" into minutes since midnight
+function parseTimeOfDay(value: string): number {
+  const trimmed = value.trim();
+  const match = trimmed.match(/^(\d{1,2}):(\d{2})$/);
+  if (match) {
+    return Number(match[1]) * 60 + Number(match[2]);
+  }
+  return Math.round(Number(trimmed) * 60);
+}
+
+// Parse time ranges like "8-10,14-17" or "08:30-12:15" into structured objects
+// with minutes since midnight
 function parseTimeRanges(
   rangeString: string
 ): { start: number; end: number }[] {
   if (!rangeString) return [];
 
   return rangeString.split(",").map((range) => {
-    const [start, end] = range.split("-").map(Number);
+    const [start, end] = range.split("-").map(parseTimeOfDay);
+    if (isNaN(start) || isNaN(end) || start >= end) {
+      throw new Error(`Invalid time range: ${range}`);
+    }
     return { start, end };
   });
 }
 
-// Parse slot lengths like "0.5,1" into array of hours
+/**
+ * Parse a slot length like "1" or "0.5" (hours), "45m" (minutes) or "1.5h"
+ * (hours) into hours
+ */
+export function parseSlotLength(value: string): number {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed.endsWith("m")) {
+    return Number(trimmed.slice(0, -1)) / 60;
+  }
+  if (trimmed.endsWith("h")) {
+    return Number(trimmed.slice(0, -1));
+  }
+  return Number(trimmed);
+}
+
+// Parse slot lengths like "0.5,1" or "30m,45m,1h" into array of hours
 function parseSlotLengths(lengthString: string): number[] {
   if (!lengthString) return [1]; // Default to 1-hour slots
 
-  return lengthString.split(",").map(Number);
+  return lengthString.split(",").map(parseSlotLength);
 }
 
+// Maximum number of days that can be requested at once by getAvailableSlotsForRange
+export const MAX_RANGE_DAYS = 31;
+
 // Fetch calendar events for a specific day
 export async function fetchCalendarEventsForDay(
   date: Date
 ): Promise<DAVCalendarObject[]> {
-  const config = await getCalendarConfig();
+  return fetchCalendarEvents(date, date);
+}
 
-  // Create start and end date for the requested day (full day)
-  const startDate = new Date(date);
-  startDate.setHours(0, 0, 0, 0);
+// Fetch calendar events from the start of the first day to the end of the last day.
+// Uses the calendars of the passed configuration, e.g. the one of a host.
+// With "fresh", the calendars are checked for changes first.
+export async function fetchCalendarEvents(
+  from: Date,
+  to: Date,
+  calendarConfig?: CalendarSettings,
+  options: { fresh?: boolean } = {}
+): Promise<DAVCalendarObject[]> {
+  const config = calendarConfig ?? (await getCalendarConfig());
 
-  const endDate = new Date(date);
-  endDate.setHours(23, 59, 59, 999);
+  // Create start and end date for the requested window (full days in the
+  // timezone of the calendar owner)
+  const startDate = getCalendarDay(from, config.timezone).start;
+  const endDate = getCalendarDay(to, config.timezone).end;
 
   try {
     log.info(
-      `Fetching calendar events for ${date.toISOString().split("T")[0]}`
+      `Fetching calendar events from ${startDate.toISOString()} to ${endDate.toISOString()}`
     );
 
-    // Create a DAV client
-    const client = await createDAVClient({
-      serverUrl: config.url,
-      credentials: {
-        username: config.username,
-        password: config.password,
-      },
-      authMethod: "Basic",
-      defaultAccountType: "caldav",
-    });
-
-    // Fetch calendars
-    const calendars = await client.fetchCalendars();
-    log.info(`Found ${calendars.length} calendars`);
-
-    // Find the calendar with matching name or use the first one
-    const calendar =
-      calendars.find((cal) => cal.displayName === config.calendarName) ||
-      calendars[0];
-
-    if (!calendar) {
-      throw new Error("No calendar found");
-    }
-
-    log.info(
-      `Using calendar: ${calendar.displayName || "Unnamed"} (${calendar.url})`
-    );
-
-    // Prepare auth headers
-    const baseAuth = `${config.username}:${config.password}`;
-    const base64Auth = Buffer.from(baseAuth).toString("base64");
-
-    // First try fetching with time range
-    try {
-      const calendarObjects = await fetchCalendarObjects({
-        calendar,
-        timeRange: {
-          start: startDate.toISOString(),
-          end: endDate.toISOString(),
-        },
-        headers: {
-          authorization: `Basic ${base64Auth}`,
-        },
-      });
-
-      log.info(`Found ${calendarObjects.length} events with timeRange query`);
-
-      if (calendarObjects.length > 0) {
-        return calendarObjects;
-      }
-    } catch (timeRangeError) {
-      console.warn(
-        "Time range query failed, falling back to regular query:",
-        timeRangeError
-      );
-    }
-
-    // Fallback: fetch all objects if time range query fails or returns no results
-    const allCalendarObjects = await fetchCalendarObjects({
-      calendar,
-      headers: {
-        authorization: `Basic ${base64Auth}`,
-      },
-    });
-
-    log.info(
-      `Found ${allCalendarObjects.length} events with full calendar query`
+    // The events of all conflict calendars count as busy. A single failing
+    // calendar fails the request, so that no busy time is missed.
+    const results = await Promise.all(
+      config.conflictCalendars.map((calendar) =>
+        isICSCalendar(calendar)
+          ? fetchEventsFromICSSource(calendar)
+          : fetchEventsFromCalendar(calendar, startDate, endDate, options)
+      )
     );
-    return allCalendarObjects;
+    return results.flat();
   } catch (error: unknown) {
     console.error("Error fetching calendar events:", error);
     // Throw more specific error with original error message for better UI feedback
@@ -213,13 +297,20 @@ export async function fetchCalendarEventsForDay(
   }
 }
 
-// Get available time slots for a specific day based on calendar events and configuration
+// Get available time slots for a specific day based on calendar events and configuration.
+// The day is taken from "timeZone" (defaults to the timezone of the calendar owner).
+// If a timezone is passed, the slots are formatted with its UTC offset.
+// If an event type is passed, its availability and buffers are applied.
+// Held slots are not available, except the ones ignored by "options".
 export async function getAvailableSlotsForDay(
   date: Date,
-  slotLength: number
+  slotLength: number,
+  timeZone?: string,
+  eventType?: EventType,
+  options: SlotOptions = {}
 ): Promise<{ start: string; end: string }[]> {
   try {
-    const config = await getCalendarConfig();
+    const config = await getCalendarConfig(eventType);
 
     // Check if requested slot length is valid
     if (!config.slotLengths.includes(slotLength)) {
@@ -228,47 +319,68 @@ export async function getAvailableSlotsForDay(
       );
     }
 
-    // Get day of week (0 = Sunday, 1 = Monday, etc.)
-    const dayOfWeek = date.getDay();
-    const dayMap = [
-      "SUN",
-      "MON",
-      "TUE",
-      "WED",
-      "THU",
-      "FRI",
-      "SAT",
-    ] as DayKey[];
-    const dayKey = dayMap[dayOfWeek];
-
-    // Get available time ranges for the day
-    const availableRanges = config.availableSlots[dayKey];
-
-    // If no availability configured for this day, return empty array
-    if (!availableRanges || availableRanges.length === 0) {
-      return [];
-    }
+    const day = getCalendarDay(date, timeZone || config.timezone);
+    const slots = await getBookableSlots(
+      config,
+      day.start,
+      day.end,
+      slotLength,
+      eventType,
+      options
+    );
+    return slots.map((slot) => formatSlot(slot, timeZone));
+  } catch (error: unknown) {
+    console.error("Error getting available slots:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to get available slots: ${errorMessage}`);
+  }
+}
 
-    // Fetch calendar events for the day
-    try {
-      const events = await fetchCalendarEventsForDay(date);
+// Get available time slots for every day from "from" to "to" (inclusive).
+// The calendar events are fetched only once for the whole window.
+export async function getAvailableSlotsForRange(
+  from: Date,
+  to: Date,
+  slotLength: number,
+  timeZone?: string,
+  eventType?: EventType,
+  options: SlotOptions = {}
+): Promise<{ date: string; slots: { start: string; end: string }[] }[]> {
+  try {
+    const config = await getCalendarConfig(eventType);
 
-      // Parse events to get busy slots
-      const busySlots = parseEventsToTimeRanges(events, date);
+    // Check if requested slot length is valid
+    if (!config.slotLengths.includes(slotLength)) {
+      throw new Error(
+        `Invalid slot length. Allowed values: ${config.slotLengths.join(", ")}`
+      );
+    }
 
-      // Generate available slots based on configuration and busy times
-      return generateAvailableSlots(
-        date,
-        availableRanges,
-        busySlots,
-        slotLength
+    const days = getCalendarDays(from, to, timeZone || config.timezone);
+    if (days.length === 0) {
+      throw new Error("The end date must not be before the start date");
+    }
+    if (days.length > MAX_RANGE_DAYS) {
+      throw new Error(
+        `The date range must not be longer than ${MAX_RANGE_DAYS} days`
       );
-    } catch (error: unknown) {
-      console.error("Error in calendar event fetching:", error);
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      throw new Error(`Calendar error: ${errorMessage}`);
     }
+
+    const slots = await getBookableSlots(
+      config,
+      days[0].start,
+      days[days.length - 1].end,
+      slotLength,
+      eventType,
+      options
+    );
+
+    return days.map((day) => ({
+      date: day.date,
+      slots: slots
+        .filter((slot) => slot.start >= day.start && slot.start <= day.end)
+        .map((slot) => formatSlot(slot, timeZone)),
+    }));
   } catch (error: unknown) {
     console.error("Error getting available slots:", error);
     const errorMessage = error instanceof Error ? error.message : String(error);
@@ -276,68 +388,430 @@ export async function getAvailableSlotsForDay(
   }
 }
 
-// Parse calendar events into time ranges
+// Get the busy times of the calendar owner from the start of the day of
+// "from" to the start of the day after "to", without buffers and holds.
+// Overlapping events are merged, so that no details of the events are left.
+// Throws for ranges longer than MAX_BUSY_RANGE_DAYS.
+export async function getBusyTimesForRange(
+  from: Date,
+  to: Date
+): Promise<{ start: Date; end: Date }[]> {
+  const config = await getCalendarConfig();
+  const window: CalendarDay = {
+    ...getCalendarDay(from, config.timezone),
+    end: new Date(getCalendarDay(to, config.timezone).end.getTime() + 1),
+  };
+  if (window.end < window.start) {
+    throw new Error("The end date must not be before the start date");
+  }
+  const days = Math.round(
+    (window.end.getTime() - window.start.getTime()) / (24 * 60 * 60 * 1000)
+  );
+  if (days > MAX_BUSY_RANGE_DAYS) {
+    throw new Error(
+      `The date range must not be longer than ${MAX_BUSY_RANGE_DAYS} days`
+    );
+  }
+
+  const events = await fetchCalendarEvents(from, to, config);
+  const ranges = parseEventsToTimeRanges(events, window, config)
+    .map((range) => ({
+      start: range.start < window.start ? window.start : range.start,
+      end: range.end > window.end ? window.end : range.end,
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  const merged: { start: Date; end: Date }[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      if (range.end > last.end) last.end = range.end;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+// Get the earliest and latest start time that can be booked right now
+function getBookingWindow(
+  config: CalendarSettings,
+  now: Date = new Date()
+): { earliest: Date; latest?: Date } {
+  return {
+    earliest: new Date(now.getTime() + config.minNoticeHours * 60 * 60 * 1000),
+    latest:
+      config.maxDaysAhead !== undefined
+        ? new Date(now.getTime() + config.maxDaysAhead * 24 * 60 * 60 * 1000)
+        : undefined,
+  };
+}
+
+// Check if a start time respects the minimum notice and the maximum days ahead.
+// Returns an error message if not.
+export async function checkBookingWindow(
+  start: Date
+): Promise<string | undefined> {
+  const config = await getCalendarConfig();
+  const { earliest, latest } = getBookingWindow(config);
+
+  if (start < earliest) {
+    return `Bookings require at least ${config.minNoticeHours} hours notice`;
+  }
+  if (latest && start > latest) {
+    return `Bookings are only possible up to ${config.maxDaysAhead} days ahead`;
+  }
+  return undefined;
+}
+
+// Format a slot as ISO strings in UTC or with the offset of a timezone
+function formatSlot(
+  slot: { start: Date; end: Date },
+  timeZone?: string
+): { start: string; end: string } {
+  if (timeZone) {
+    return {
+      start: formatInTimeZone(slot.start, timeZone),
+      end: formatInTimeZone(slot.end, timeZone),
+    };
+  }
+  return {
+    start: slot.start.toISOString(),
+    end: slot.end.toISOString(),
+  };
+}
+
+// Get the day that contains "date" in a timezone
+function getCalendarDay(date: Date, timeZone: string): CalendarDay {
+  const wallClock = utcToWallClock(date, timeZone);
+  const day = formatDateInTimeZone(date, timeZone);
+  const start = wallClockToUtc(new Date(`${day}T00:00:00Z`), timeZone);
+  const nextDayWallClock = new Date(`${day}T00:00:00Z`);
+  nextDayWallClock.setUTCDate(nextDayWallClock.getUTCDate() + 1);
+  const end = new Date(
+    wallClockToUtc(nextDayWallClock, timeZone).getTime() - 1
+  );
+
+  return {
+    date: day,
+    weekday: wallClock.getUTCDay(),
+    start,
+    end,
+  };
+}
+
+// Get all days from the day of "from" to the day of "to" in a timezone
+function getCalendarDays(
+  from: Date,
+  to: Date,
+  timeZone: string
+): CalendarDay[] {
+  const days: CalendarDay[] = [];
+  for (
+    let day = getCalendarDay(from, timeZone);
+    day.start.getTime() <= to.getTime();
+    day = getCalendarDay(new Date(day.end.getTime() + 1), timeZone)
+  ) {
+    days.push(day);
+    // Safety net against endless loops for very long ranges
+    if (days.length > MAX_RANGE_DAYS) break;
+  }
+  return days;
+}
+
+// Get the configured available time ranges of a day. Date overrides,
+// blackouts and holidays win over the ranges of the weekday.
+function getAvailableRangesForDay(
+  config: CalendarSettings,
+  day: CalendarDay
+): { start: number; end: number }[] {
+  const override = getDateOverride(day.date);
+  if (override) {
+    return override.type === "hours"
+      ? parseTimeRanges(override.hours || "")
+      : [];
+  }
+
+  const dayMap = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"] as DayKey[];
+  const dayKey = dayMap[day.weekday];
+
+  return config.availableSlots[dayKey] || [];
+}
+
+// Get the available slots of the calendar owner or, if the event type has
+// hosts, of its team
+async function getBookableSlots(
+  config: CalendarSettings,
+  windowStart: Date,
+  windowEnd: Date,
+  slotLength: number,
+  eventType?: EventType,
+  options: SlotOptions = {}
+): Promise<{ start: Date; end: Date }[]> {
+  const hosts = getEventTypeHosts(eventType);
+  if (!eventType || hosts.length === 0) {
+    return getSlotsInWindow(
+      config,
+      windowStart,
+      windowEnd,
+      slotLength,
+      options
+    );
+  }
+  const allowedHostIds = options.hostIds;
+  return getTeamSlotsInWindow(
+    eventType,
+    allowedHostIds
+      ? hosts.filter((host) => allowedHostIds.includes(host.id))
+      : hosts,
+    windowStart,
+    windowEnd,
+    slotLength,
+    options
+  );
+}
+
+// Get the available slots of a team with the ids of the free hosts.
+// Collective event types need all hosts to be free (intersection),
+// round-robin event types at least one (union).
+async function getTeamSlotsInWindow(
+  eventType: EventType,
+  hosts: Host[],
+  windowStart: Date,
+  windowEnd: Date,
+  slotLength: number,
+  options: SlotOptions = {}
+): Promise<{ start: Date; end: Date; hostIds: string[] }[]> {
+  const hostSlots = await Promise.all(
+    hosts.map(async (host) =>
+      getSlotsInWindow(
+        await getCalendarConfig(eventType, host),
+        windowStart,
+        windowEnd,
+        slotLength,
+        options
+      )
+    )
+  );
+
+  const slotsByStart = new Map<
+    number,
+    { start: Date; end: Date; hostIds: string[] }
+  >();
+  hostSlots.forEach((slots, i) => {
+    for (const slot of slots) {
+      const key = slot.start.getTime();
+      const teamSlot = slotsByStart.get(key) || { ...slot, hostIds: [] };
+      teamSlot.hostIds.push(hosts[i].id);
+      slotsByStart.set(key, teamSlot);
+    }
+  });
+
+  const requiredHosts =
+    eventType.schedulingType === "collective" ? hosts.length : 1;
+  return [...slotsByStart.values()]
+    .filter((slot) => slot.hostIds.length >= requiredHosts)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+// Get the hosts of an event type that are free for a slot. Empty if the
+// slot is not available for the team.
+export async function getAvailableHostsForSlot(
+  start: Date,
+  slotLength: number,
+  eventType: EventType,
+  options: SlotOptions = {}
+): Promise<Host[]> {
+  const hosts = getEventTypeHosts(eventType);
+  const config = await getCalendarConfig(eventType);
+  const day = getCalendarDay(start, config.timezone);
+  const slots = await getTeamSlotsInWindow(
+    eventType,
+    hosts,
+    day.start,
+    day.end,
+    slotLength,
+    options
+  );
+
+  const slot = slots.find(
+    (slot) =>
+      slot.start.getTime() === start.getTime() &&
+      slot.end.getTime() - slot.start.getTime() ===
+        Math.round(slotLength * 60 * 60 * 1000)
+  );
+  return hosts.filter((host) => slot?.hostIds.includes(host.id));
+}
+
+// Get the available slots that start between windowStart and windowEnd.
+// The working hours are applied on the days of the calendar owner.
+// Held slots count as busy, except the ones ignored by "options".
+async function getSlotsInWindow(
+  config: CalendarSettings,
+  windowStart: Date,
+  windowEnd: Date,
+  slotLength: number,
+  options: SlotOptions = {}
+): Promise<{ start: Date; end: Date }[]> {
+  // Do not offer slots within the minimum notice or beyond the maximum days ahead
+  const { earliest, latest } = getBookingWindow(config);
+  if (windowEnd < earliest || (latest && windowStart > latest)) {
+    return [];
+  }
+
+  const ownerDays = getCalendarDays(windowStart, windowEnd, config.timezone);
+
+  // Only fetch events if at least one day has availability configured
+  const hasAvailability = ownerDays.some(
+    (day) => getAvailableRangesForDay(config, day).length > 0
+  );
+  if (!hasAvailability) {
+    return [];
+  }
+
+  try {
+    // Holds first: a hold released for a booking while the events are
+    // fetched is then covered by the written event
+    const heldRanges = getHeldRanges(config.hostId, options.ignoreHoldId);
+    const events = await fetchCalendarEvents(windowStart, windowEnd, config, {
+      fresh: options.fresh,
+    });
+    return ownerDays
+      .flatMap((day) =>
+        generateSlotsForDay(
+          config,
+          day,
+          events,
+          slotLength,
+          heldRanges,
+          options.ignoreEventUids
+        )
+      )
+      .filter((slot) => slot.start >= windowStart && slot.start <= windowEnd)
+      .filter(
+        (slot) => slot.start >= earliest && (!latest || slot.start <= latest)
+      );
+  } catch (error: unknown) {
+    console.error("Error in calendar event fetching:", error);
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    throw new Error(`Calendar error: ${errorMessage}`);
+  }
+}
+
+// Generate the available slots of one day from already fetched events
+// and held slots
+function generateSlotsForDay(
+  config: CalendarSettings,
+  day: CalendarDay,
+  events: DAVCalendarObject[],
+  slotLength: number,
+  heldRanges: { start: Date; end: Date }[] = [],
+  ignoreEventUids: string[] = []
+): { start: Date; end: Date }[] {
+  // Get available time ranges for the day
+  const availableRanges = getAvailableRangesForDay(config, day);
+  if (availableRanges.length === 0) {
+    return [];
+  }
+
+  // Parse events and holds to get busy slots, padded with the configured buffers
+  const bufferBeforeMs = config.bufferBeforeMinutes * 60 * 1000;
+  const bufferAfterMs = config.bufferAfterMinutes * 60 * 1000;
+  const busySlots = [
+    ...parseEventsToTimeRanges(events, day, config, ignoreEventUids),
+    ...heldRanges,
+  ].map((busySlot) => ({
+    start: new Date(busySlot.start.getTime() - bufferBeforeMs),
+    end: new Date(busySlot.end.getTime() + bufferAfterMs),
+  }));
+
+  // Generate available slots based on configuration and busy times
+  return generateAvailableSlots(
+    day,
+    availableRanges,
+    busySlots,
+    slotLength,
+    config.timezone,
+    config.slotIntervalMinutes,
+    config.slotAlignmentMinutes
+  );
+}
+
+// Check if an event blocks time according to the configured busy rules
+function isBlockingEvent(event: ICalEvent, config: CalendarSettings): boolean {
+  const rules = config.busyRules;
+
+  if (event.status === "CANCELLED") {
+    return false;
+  }
+  if (event.transparency === "TRANSPARENT" && !rules.blockTransparent) {
+    return false;
+  }
+  if (event.start?.dateOnly && !rules.blockAllDay) {
+    return false;
+  }
+
+  const partstat = config.ownerEmail
+    ? getOwnerPartstat(event, config.ownerEmail)
+    : undefined;
+  if (partstat === "DECLINED" && !rules.blockDeclined) {
+    return false;
+  }
+  if (
+    (event.status === "TENTATIVE" || partstat === "TENTATIVE") &&
+    !rules.blockTentative
+  ) {
+    return false;
+  }
+
+  return true;
+}
+
+// Parse calendar events into time ranges.
+// Recurring events are expanded to all occurrences that overlap with the day.
+// Occurrences that do not block time by the busy rules or whose UID is
+// ignored are skipped.
 function parseEventsToTimeRanges(
   events: DAVCalendarObject[],
-  date: Date
+  day: CalendarDay,
+  config: CalendarSettings,
+  ignoreEventUids: string[] = []
 ): { start: Date; end: Date }[] {
   const busySlots = [];
   log.info(
-    `Processing ${events.length} events for date: ${date.toISOString()}`
+    `Processing ${events.length} events for day ${day.date}: ${day.start.toISOString()} to ${day.end.toISOString()}`
   );
 
   for (const event of events) {
     try {
       if (event.data) {
         log.info(`Event data available, length: ${event.data.length}`);
-        log.info(`Event data excerpt: ${event.data.substring(0, 100)}...`);
-
-        const eventData = parseICS(event.data);
-        log.info(`Parsed event data:`, eventData);
-
-        // Add event start/end times to busy slots if valid
-        if (eventData.start && eventData.end) {
-          log.info(
-            `Event has valid start/end times: ${eventData.start} to ${eventData.end}`
-          );
-
-          // Only include events that overlap with the target date
-          const eventStart = new Date(eventData.start);
-          const eventEnd = new Date(eventData.end);
-          log.info(
-            `Event start: ${eventStart.toISOString()}, end: ${eventEnd.toISOString()}`
-          );
-
-          // Create date boundaries for the given date (00:00 to 23:59:59)
-          const dateStart = new Date(date);
-          dateStart.setHours(0, 0, 0, 0);
-
-          const dateEnd = new Date(date);
-          dateEnd.setHours(23, 59, 59, 999);
-          log.info(
-            `Date boundaries: ${dateStart.toISOString()} to ${dateEnd.toISOString()}`
-          );
 
-          // Check if event overlaps with the target date
-          const startOnDate = eventStart >= dateStart && eventStart <= dateEnd;
-          const endOnDate = eventEnd >= dateStart && eventEnd <= dateEnd;
-          const spansDate = eventStart <= dateStart && eventEnd >= dateEnd;
+        const occurrences = getICSOccurrences(event.data, day.start, day.end);
+        if (occurrences.length === 0) {
+          log.info(`Event does not overlap with target date, skipping`);
+        }
 
+        for (const occurrence of occurrences) {
+          if (
+            occurrence.event.uid &&
+            ignoreEventUids.includes(occurrence.event.uid)
+          ) {
+            continue;
+          }
+          if (!isBlockingEvent(occurrence.event, config)) {
+            log.info(
+              `Event occurrence does not block time (status: ${occurrence.event.status}, transparency: ${occurrence.event.transparency}), skipping`
+            );
+            continue;
+          }
           log.info(
-            `Overlap checks: startOnDate=${startOnDate}, endOnDate=${endOnDate}, spansDate=${spansDate}`
+            `Event occurrence overlaps with target date: ${occurrence.start.toISOString()} to ${occurrence.end.toISOString()}`
           );
-
-          if (startOnDate || endOnDate || spansDate) {
-            log.info(`Event overlaps with target date, adding to busy slots`);
-            busySlots.push({
-              start: eventStart,
-              end: eventEnd,
-            });
-          } else {
-            log.info(`Event does not overlap with target date, skipping`);
-          }
-        } else {
-          log.info(`Event missing start or end time:`, eventData);
+          busySlots.push({
+            start: occurrence.start,
+            end: occurrence.end,
+          });
         }
       } else {
         log.info(`Event has no data property`);
@@ -352,24 +826,40 @@ function parseEventsToTimeRanges(
   return busySlots;
 }
 
-// Generate available time slots based on available ranges and busy times
+// Generate available time slots based on available ranges and busy times.
+// The available ranges are minutes of the day in the timezone of the owner.
+// Slots start every "intervalMinutes" from the start of each range, rounded up
+// to a multiple of "alignmentMinutes" (e.g. 15 for quarter hours) if set.
 function generateAvailableSlots(
-  date: Date,
+  day: CalendarDay,
   availableRanges: { start: number; end: number }[],
   busySlots: { start: Date; end: Date }[],
-  slotLengthHours: number
-): { start: string; end: string }[] {
+  slotLengthHours: number,
+  timeZone: string,
+  intervalMinutes: number,
+  alignmentMinutes: number
+): { start: Date; end: Date }[] {
   const availableSlots = [];
-  const slotLengthMs = slotLengthHours * 60 * 60 * 1000;
+  const slotLengthMs = Math.round(slotLengthHours * 60 * 60 * 1000);
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const midnight = new Date(`${day.date}T00:00:00Z`).getTime();
 
   // Process each available range for the day
   for (const range of availableRanges) {
-    // Create start and end times for this range
-    const rangeStart = new Date(date);
-    rangeStart.setHours(range.start, 0, 0, 0);
+    const firstStart =
+      alignmentMinutes > 0
+        ? Math.ceil(range.start / alignmentMinutes) * alignmentMinutes
+        : range.start;
 
-    const rangeEnd = new Date(date);
-    rangeEnd.setHours(range.end, 0, 0, 0);
+    // Create start and end times for this range
+    const rangeStart = wallClockToUtc(
+      new Date(midnight + firstStart * 60 * 1000),
+      timeZone
+    );
+    const rangeEnd = wallClockToUtc(
+      new Date(midnight + range.end * 60 * 1000),
+      timeZone
+    );
 
     // Generate potential slots within this range
     let currentSlotStart = new Date(rangeStart);
@@ -392,13 +882,13 @@ function generateAvailableSlots(
       // If not overlapping, add to available slots
       if (!isOverlapping) {
         availableSlots.push({
-          start: currentSlotStart.toISOString(),
-          end: currentSlotEnd.toISOString(),
+          start: currentSlotStart,
+          end: currentSlotEnd,
         });
       }
 
-      // Move to next potential slot (30-minute increments)
-      currentSlotStart = new Date(currentSlotStart.getTime() + 30 * 60 * 1000);
+      // Move to next potential slot
+      currentSlotStart = new Date(currentSlotStart.getTime() + intervalMs);
     }
   }
 
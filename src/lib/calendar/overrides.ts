@@ -0,0 +1,203 @@
+import fs from "fs";
+import path from "path";
+import * as v from "valibot";
+import log from "../log";
+import { getCalendarTimezone } from "./config";
+import { parseICSEvents, type ICalEvent } from "./parser";
+import { expandEventOccurrences } from "./recurrence";
+import { formatDateInTimeZone } from "./timezone";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const dateSchema = v.pipe(v.string(), v.isoDate("Use YYYY-MM-DD for dates"));
+
+const dateOverridesSchema = v.object({
+  // Replace the weekday availability of single dates, e.g. extra hours on
+  // a Saturday. An empty string closes the day.
+  overrides: v.optional(
+    v.array(
+      v.object({
+        date: dateSchema,
+        hours: v.string(),
+        reason: v.optional(v.string()),
+      })
+    ),
+    []
+  ),
+  // Close all days from "from" to "to" (inclusive)
+  blackouts: v.optional(
+    v.array(
+      v.object({
+        from: dateSchema,
+        to: dateSchema,
+        reason: v.optional(v.string()),
+      })
+    ),
+    []
+  ),
+});
+
+export type DateOverrides = v.InferOutput<typeof dateOverridesSchema>;
+
+/**
+ * An override of the availability of a single date.
+ * "hours" is only set for type "hours" and uses the format of the
+ * CALENDAR_AVAILABLE_* variables.
+ */
+export interface DateOverride {
+  date: string; // YYYY-MM-DD
+  type: "hours" | "blackout" | "holiday";
+  hours?: string;
+  reason?: string;
+}
+
+// Cached with the file they were loaded from, a changed file is loaded again
+let cachedDateOverrides:
+  | { file?: string; overrides: DateOverrides }
+  | undefined;
+let cachedHolidays: { file?: string; events: ICalEvent[] } | undefined;
+
+// Read a file relative to the working directory
+function readConfigFile(file: string): string {
+  return fs.readFileSync(path.resolve(process.cwd(), file), "utf8");
+}
+
+/**
+ * Load the date overrides and blackouts from the JSON file in
+ * CALENDAR_DATE_OVERRIDES_FILE
+ */
+export function getDateOverrides(): DateOverrides {
+  const file = process.env.CALENDAR_DATE_OVERRIDES_FILE || undefined;
+  if (cachedDateOverrides && cachedDateOverrides.file === file) {
+    return cachedDateOverrides.overrides;
+  }
+
+  if (!file) {
+    cachedDateOverrides = { overrides: { overrides: [], blackouts: [] } };
+    return cachedDateOverrides.overrides;
+  }
+
+  try {
+    const overrides = v.parse(
+      dateOverridesSchema,
+      JSON.parse(readConfigFile(file))
+    );
+    cachedDateOverrides = { file, overrides };
+    log.info(
+      `Loaded ${overrides.overrides.length} date overrides and ${overrides.blackouts.length} blackouts from ${file}`
+    );
+    return overrides;
+  } catch (error) {
+    throw new Error(
+      `Failed to load date overrides from ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Load the public holidays from the local ICS file in CALENDAR_HOLIDAYS_FILE,
+ * e.g. an export of the holidays of a region
+ */
+function getHolidayEvents(): ICalEvent[] {
+  const file = process.env.CALENDAR_HOLIDAYS_FILE || undefined;
+  if (cachedHolidays && cachedHolidays.file === file) {
+    return cachedHolidays.events;
+  }
+
+  if (!file) {
+    cachedHolidays = { events: [] };
+    return cachedHolidays.events;
+  }
+
+  try {
+    const events = parseICSEvents(readConfigFile(file));
+    cachedHolidays = { file, events };
+    log.info(`Loaded ${events.length} holidays from ${file}`);
+    return events;
+  } catch (error) {
+    throw new Error(
+      `Failed to load holidays from ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+// Add days to a date string (YYYY-MM-DD)
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS)
+    .toISOString()
+    .split("T")[0];
+}
+
+// Get the holidays from "from" to "to" (YYYY-MM-DD, inclusive) by date
+function getHolidays(from: string, to: string): Map<string, string> {
+  const timeZone = getCalendarTimezone();
+  const holidays = new Map<string, string>();
+
+  const occurrences = expandEventOccurrences(
+    getHolidayEvents(),
+    new Date(`${addDays(from, -1)}T00:00:00Z`),
+    new Date(`${addDays(to, 2)}T00:00:00Z`)
+  );
+
+  for (const occurrence of occurrences) {
+    const firstDate = formatDateInTimeZone(occurrence.start, timeZone);
+    const days = Math.max(
+      1,
+      Math.round(
+        (occurrence.end.getTime() - occurrence.start.getTime()) / DAY_MS
+      )
+    );
+    for (let i = 0; i < days; i++) {
+      const date = addDays(firstDate, i);
+      if (date >= from && date <= to) {
+        holidays.set(date, occurrence.summary || "Holiday");
+      }
+    }
+  }
+
+  return holidays;
+}
+
+/**
+ * Get all date overrides, blackouts and holidays from "from" to "to"
+ * (YYYY-MM-DD, inclusive). Blackouts and holidays win over hour overrides.
+ */
+export function getDateOverridesInRange(
+  from: string,
+  to: string
+): DateOverride[] {
+  const { overrides, blackouts } = getDateOverrides();
+  const result = new Map<string, DateOverride>();
+
+  for (const override of overrides) {
+    if (override.date >= from && override.date <= to) {
+      result.set(override.date, {
+        date: override.date,
+        type: "hours",
+        hours: override.hours,
+        reason: override.reason,
+      });
+    }
+  }
+
+  for (const [date, reason] of getHolidays(from, to)) {
+    result.set(date, { date, type: "holiday", reason });
+  }
+
+  for (const blackout of blackouts) {
+    for (
+      let date = blackout.from > from ? blackout.from : from;
+      date <= blackout.to && date <= to;
+      date = addDays(date, 1)
+    ) {
+      result.set(date, { date, type: "blackout", reason: blackout.reason });
+    }
+  }
+
+  return [...result.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Get the override of a single date (YYYY-MM-DD), if any
+export function getDateOverride(date: string): DateOverride | undefined {
+  return getDateOverridesInRange(date, date)[0];
+}
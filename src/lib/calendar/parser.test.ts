@@ -0,0 +1,41 @@
+import { describe, test, expect } from "bun:test";
+import { parseICS } from "./parser";
+
+describe("parseICS", () => {
+  test("exposes TRANSP, STATUS, the all-day flag and the owner's PARTSTAT", () => {
+    const ics = `BEGIN:VCALENDAR
+BEGIN:VEVENT
+UID:invite@test
+DTSTART;VALUE=DATE:20250602
+DTEND;VALUE=DATE:20250603
+SUMMARY:Birthday
+TRANSP:TRANSPARENT
+STATUS:TENTATIVE
+ORGANIZER:mailto:boss@example.com
+ATTENDEE;CN=Max;PARTSTAT=DECLINED:mailto:Max@Example.com
+END:VEVENT
+END:VCALENDAR`;
+
+    const event = parseICS(ics, "max@example.com");
+    expect(event.summary).toBe("Birthday");
+    expect(event.transparency).toBe("TRANSPARENT");
+    expect(event.status).toBe("TENTATIVE");
+    expect(event.allDay).toBe(true);
+    expect(event.partstat).toBe("DECLINED");
+  });
+
+  test("treats the organizer as accepted", () => {
+    const ics = `BEGIN:VCALENDAR
+BEGIN:VEVENT
+UID:own@test
+DTSTART:20250602T080000Z
+DTEND:20250602T090000Z
+ORGANIZER:mailto:max@example.com
+END:VEVENT
+END:VCALENDAR`;
+
+    const event = parseICS(ics, "max@example.com");
+    expect(event.allDay).toBe(false);
+    expect(event.partstat).toBe("ACCEPTED");
+  });
+});
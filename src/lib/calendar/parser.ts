@@ -1,13 +1,20 @@
-import { parseICS as parseICalString } from "ical";
+import { RRule } from "rrule";
+import { getCalendarTimezone } from "./config";
+import { isValidTimeZone, utcToWallClock, wallClockToUtc } from "./timezone";
 
 interface CalendarEvent {
   start?: Date;
   end?: Date;
   summary?: string;
+  transparency?: string; // OPAQUE or TRANSPARENT
+  status?: string; // CONFIRMED, TENTATIVE or CANCELLED
+  allDay?: boolean;
+  partstat?: string; // participation status of the owner, e.g. DECLINED
 }
 
-// Parse ICS data to extract event details
-export function parseICS(icsData: string): CalendarEvent {
+// Parse ICS data to extract event details of the first VEVENT.
+// "ownerEmail" is used to look up the participation status of the owner.
+export function parseICS(icsData: string, ownerEmail?: string): CalendarEvent {
   try {
     // Handle cases where the ICS data might be truncated or incomplete
     if (
@@ -22,135 +29,477 @@ export function parseICS(icsData: string): CalendarEvent {
       return {};
     }
 
-    console.log("Parsing ICS data...");
-    let parsedData;
+    const events = parseICSEvents(icsData);
+    const event = events.find((e) => !e.recurrenceId) || events[0];
 
-    try {
-      parsedData = parseICalString(icsData);
-      console.log("Successfully parsed ICS data:", Object.keys(parsedData));
-    } catch (parseError) {
-      console.error("Error in ical.parseICS:", parseError);
-
-      // Attempt manual extraction if parsing fails
-      console.log("Attempting manual extraction of event data...");
-      return manualExtractEventData(icsData);
-    }
-
-    // Find the first VEVENT in the calendar data
-    const firstEventKey = Object.keys(parsedData).find(
-      (key) => parsedData[key].type === "VEVENT"
-    );
-
-    if (!firstEventKey) {
-      console.warn("No VEVENT found in ICS data, trying manual extraction");
-      return manualExtractEventData(icsData);
+    if (!event || !event.start) {
+      console.warn("No VEVENT with a start time found in ICS data");
+      return {};
     }
 
-    const event = parsedData[firstEventKey];
-
-    // Validate that we have actual start and end dates
-    if (!event.start || !event.end) {
-      console.warn("Missing start or end time in event:", event);
-      return manualExtractEventData(icsData);
+    const start = resolveICalDate(event.start);
+    let end: Date | undefined;
+    if (event.end) {
+      end = resolveICalDate(event.end);
+    } else if (event.duration) {
+      const duration = parseICalDuration(event.duration);
+      end =
+        duration !== undefined
+          ? new Date(start.getTime() + duration)
+          : undefined;
     }
 
-    console.log("Successfully extracted event data:", {
-      start: event.start,
-      end: event.end,
-      summary: event.summary,
-    });
-
     return {
-      start: event.start,
-      end: event.end,
+      start,
+      end,
       summary: event.summary,
+      transparency: event.transparency,
+      status: event.status,
+      allDay: event.start.dateOnly,
+      partstat: ownerEmail ? getOwnerPartstat(event, ownerEmail) : undefined,
     };
   } catch (error) {
     console.error("Error parsing ICS data:", error);
     console.debug("ICS data excerpt:", icsData.substring(0, 150) + "...");
-    return manualExtractEventData(icsData);
+    return {};
   }
 }
 
-// Manual extraction of event data from ICS string when the parser fails
-function manualExtractEventData(icsData: string): CalendarEvent {
-  console.log("Starting manual extraction of ICS data");
+/**
+ * A single content line of an iCalendar component, e.g.
+ * DTSTART;TZID=Europe/Berlin:20250602T080000
+ */
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
 
-  try {
-    // Extract DTSTART
-    let startDate: Date | undefined;
-    const dtStartMatch = icsData.match(
-      /DTSTART(?:;TZID=[^:]+)?:(.*?)(?:\r?\n)/
-    );
-    if (dtStartMatch && dtStartMatch[1]) {
-      console.log("Found DTSTART:", dtStartMatch[1]);
-      startDate = parseICalDate(dtStartMatch[1]);
-    }
+/**
+ * A DATE or DATE-TIME value of an iCalendar property.
+ * "wallClock" holds the written date and time in its UTC fields, independent
+ * of the timezone it belongs to. Use resolveICalDate to get the actual instant.
+ */
+export interface ICalDateValue {
+  wallClock: Date;
+  utc: boolean;
+  dateOnly: boolean;
+  tzid?: string;
+  vtimezone?: ICalTimezone;
+}
 
-    // Extract DTEND
-    let endDate: Date | undefined;
-    const dtEndMatch = icsData.match(/DTEND(?:;TZID=[^:]+)?:(.*?)(?:\r?\n)/);
-    if (dtEndMatch && dtEndMatch[1]) {
-      console.log("Found DTEND:", dtEndMatch[1]);
-      endDate = parseICalDate(dtEndMatch[1]);
+/**
+ * A VTIMEZONE definition. Only used for TZIDs that are not IANA names,
+ * e.g. "W. Europe Standard Time" from Outlook/Exchange.
+ */
+export interface ICalTimezone {
+  tzid: string;
+  observances: {
+    start: Date; // wall clock
+    offsetFrom: number; // ms
+    offsetTo: number; // ms
+    rrule?: string;
+    rdates: Date[]; // wall clock
+  }[];
+}
+
+/**
+ * A VEVENT with the properties needed to compute busy times
+ */
+export interface ICalEvent {
+  uid?: string;
+  summary?: string;
+  start?: ICalDateValue;
+  end?: ICalDateValue;
+  duration?: string;
+  rrule?: string;
+  rdates: ICalDateValue[];
+  exdates: ICalDateValue[];
+  recurrenceId?: ICalDateValue;
+  transparency?: string;
+  status?: string;
+  organizer?: string;
+  attendees: { email: string; partstat?: string }[];
+  properties: ICalProperty[];
+}
+
+// Get the email address of a CAL-ADDRESS value like mailto:max@example.com
+function parseCalAddress(value: string): string {
+  return value
+    .replace(/^mailto:/i, "")
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Get the participation status of the owner of the calendar in an event.
+ * Returns undefined if the owner is not an attendee. The organizer of an
+ * event always counts as accepted.
+ */
+export function getOwnerPartstat(
+  event: ICalEvent,
+  ownerEmail: string
+): string | undefined {
+  const email = ownerEmail.trim().toLowerCase();
+  const attendee = event.attendees.find((a) => a.email === email);
+  if (attendee) {
+    return attendee.partstat || "NEEDS-ACTION";
+  }
+  if (event.organizer === email) {
+    return "ACCEPTED";
+  }
+  return undefined;
+}
+
+// Unfold the content lines of an ICS string (RFC 5545, 3.1)
+export function unfoldLines(icsData: string): string[] {
+  return icsData
+    .replace(/\r\n/g, "\n")
+    .replace(/\r/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+}
+
+// Parse a content line into name, parameters and value
+export function parseICalProperty(line: string): ICalProperty | undefined {
+  // Find the first colon that is not inside a quoted parameter value
+  let inQuotes = false;
+  let colonIndex = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    if (line[i] === ":" && !inQuotes) {
+      colonIndex = i;
+      break;
     }
+  }
+  if (colonIndex === -1) return undefined;
+
+  const [name, ...rawParams] = line
+    .substring(0, colonIndex)
+    .split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"(.*)"$/, "$1");
+  }
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.substring(colonIndex + 1),
+  };
+}
+
+// Unescape a TEXT value (RFC 5545, 3.3.11)
+export function unescapeICalText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+}
+
+// Parse a DATE or DATE-TIME value like 20250602 or 20250602T080000Z
+export function parseICalDateValue(
+  value: string,
+  params: Record<string, string> = {}
+): ICalDateValue | undefined {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) return undefined;
+
+  const [, year, month, day, hour, minute, second, zulu] = match;
+  return {
+    wallClock: new Date(
+      Date.UTC(
+        Number(year),
+        Number(month) - 1,
+        Number(day),
+        Number(hour || 0),
+        Number(minute || 0),
+        Number(second || 0)
+      )
+    ),
+    utc: zulu === "Z",
+    dateOnly: hour === undefined,
+    tzid: zulu === "Z" ? undefined : params.TZID,
+  };
+}
+
+// Parse a list value like EXDATE:20250602T080000Z,20250609T080000Z
+function parseICalDateList(property: ICalProperty): ICalDateValue[] {
+  return property.value
+    .split(",")
+    .map((value) => parseICalDateValue(value.split("/")[0], property.params))
+    .filter((value): value is ICalDateValue => value !== undefined);
+}
+
+// Parse a UTC offset like +0200 or -0530 into milliseconds
+function parseICalUtcOffset(value: string): number {
+  const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return 0;
+  const [, sign, hours, minutes, seconds] = match;
+  const ms =
+    (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds || 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
 
-    // Extract SUMMARY
-    let summary: string | undefined;
-    const summaryMatch = icsData.match(/SUMMARY:(.*?)(?:\r?\n)/);
-    if (summaryMatch && summaryMatch[1]) {
-      summary = summaryMatch[1];
+// Get the UTC offset of a VTIMEZONE at a wall clock time. The observance
+// with the latest onset before the given time wins.
+function getVTimezoneOffset(vtimezone: ICalTimezone, wallClock: Date): number {
+  let latestOnset: Date | undefined;
+  let offset: number | undefined;
+
+  for (const observance of vtimezone.observances) {
+    const onsets = [observance.start, ...observance.rdates];
+    if (observance.rrule) {
+      const rule = new RRule({
+        ...RRule.parseString(observance.rrule),
+        dtstart: observance.start,
+      });
+      const onset = rule.before(wallClock, true);
+      if (onset) onsets.push(onset);
+    }
+    for (const onset of onsets) {
+      if (onset <= wallClock && (!latestOnset || onset > latestOnset)) {
+        latestOnset = onset;
+        offset = observance.offsetTo;
+      }
     }
+  }
 
-    console.log("Manual extraction results:", { startDate, endDate, summary });
+  // Before the first onset, use the offset the first observance starts from
+  if (offset === undefined) {
+    const first = [...vtimezone.observances].sort(
+      (a, b) => a.start.getTime() - b.start.getTime()
+    )[0];
+    return first ? first.offsetFrom : 0;
+  }
+  return offset;
+}
 
-    return {
-      start: startDate,
-      end: endDate,
-      summary,
-    };
-  } catch (error) {
-    console.error("Error in manual ICS extraction:", error);
-    return {};
+/**
+ * Get the actual instant of a DATE or DATE-TIME value.
+ * Times with a TZID are resolved with the IANA timezone database or the
+ * VTIMEZONE definition of the calendar. Floating times, dates and unknown
+ * TZIDs are read in the timezone of the calendar owner (CALENDAR_TIMEZONE).
+ */
+export function resolveICalDate(value: ICalDateValue): Date {
+  if (value.utc) {
+    return new Date(value.wallClock);
+  }
+  if (value.tzid && isValidTimeZone(value.tzid)) {
+    return wallClockToUtc(value.wallClock, value.tzid);
   }
+  if (value.vtimezone) {
+    return new Date(
+      value.wallClock.getTime() -
+        getVTimezoneOffset(value.vtimezone, value.wallClock)
+    );
+  }
+  return wallClockToUtc(value.wallClock, getCalendarTimezone());
 }
 
-// Parse iCal date format
-function parseICalDate(dateStr: string): Date | undefined {
-  try {
-    // Handle basic format: 20230915T143000Z
-    if (/^\d{8}T\d{6}Z$/.test(dateStr)) {
-      const year = parseInt(dateStr.substring(0, 4));
-      const month = parseInt(dateStr.substring(4, 6)) - 1; // Months are 0-based in JS
-      const day = parseInt(dateStr.substring(6, 8));
-      const hour = parseInt(dateStr.substring(9, 11));
-      const minute = parseInt(dateStr.substring(11, 13));
-      const second = parseInt(dateStr.substring(13, 15));
-
-      return new Date(Date.UTC(year, month, day, hour, minute, second));
+/**
+ * Get the wall clock time of an instant in the same timezone as "reference".
+ * This is the inverse of resolveICalDate.
+ */
+export function toICalWallClock(instant: Date, reference: ICalDateValue): Date {
+  if (reference.utc) {
+    return new Date(instant);
+  }
+  if (reference.tzid && isValidTimeZone(reference.tzid)) {
+    return utcToWallClock(instant, reference.tzid);
+  }
+  if (reference.vtimezone) {
+    // The offset at the wall clock time is close enough to the offset at the instant
+    const approx = new Date(
+      instant.getTime() + getVTimezoneOffset(reference.vtimezone, instant)
+    );
+    return new Date(
+      instant.getTime() + getVTimezoneOffset(reference.vtimezone, approx)
+    );
+  }
+  return utcToWallClock(instant, getCalendarTimezone());
+}
+
+// Parse a DURATION value like PT1H30M or P1D into milliseconds
+export function parseICalDuration(value: string): number | undefined {
+  const match = value
+    .trim()
+    .match(
+      /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+    );
+  if (!match) return undefined;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms =
+    ((Number(weeks || 0) * 7 + Number(days || 0)) * 24 * 60 * 60 +
+      Number(hours || 0) * 60 * 60 +
+      Number(minutes || 0) * 60 +
+      Number(seconds || 0)) *
+    1000;
+  return sign === "-" ? -ms : ms;
+}
+
+/**
+ * Parse all VEVENTs of an ICS string, including recurrence overrides
+ * (VEVENTs with a RECURRENCE-ID). Properties of nested components like
+ * VALARM are ignored. Date values with a TZID are linked to the matching
+ * VTIMEZONE of the calendar.
+ */
+export function parseICSEvents(icsData: string): ICalEvent[] {
+  const events: ICalEvent[] = [];
+  const timezones = new Map<string, ICalTimezone>();
+  const stack: string[] = [];
+  let current: ICalEvent | undefined;
+  let currentTimezone: ICalTimezone | undefined;
+  let currentObservance: ICalTimezone["observances"][number] | undefined;
+
+  for (const line of unfoldLines(icsData)) {
+    const property = parseICalProperty(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      const component = property.value.trim().toUpperCase();
+      stack.push(component);
+      if (component === "VEVENT") {
+        current = { rdates: [], exdates: [], attendees: [], properties: [] };
+      } else if (component === "VTIMEZONE") {
+        currentTimezone = { tzid: "", observances: [] };
+      } else if (
+        currentTimezone &&
+        (component === "STANDARD" || component === "DAYLIGHT")
+      ) {
+        currentObservance = {
+          start: new Date(0),
+          offsetFrom: 0,
+          offsetTo: 0,
+          rdates: [],
+        };
+      }
+      continue;
     }
 
-    // Handle format without Z (local time): 20230915T143000
-    if (/^\d{8}T\d{6}$/.test(dateStr)) {
-      const year = parseInt(dateStr.substring(0, 4));
-      const month = parseInt(dateStr.substring(4, 6)) - 1;
-      const day = parseInt(dateStr.substring(6, 8));
-      const hour = parseInt(dateStr.substring(9, 11));
-      const minute = parseInt(dateStr.substring(11, 13));
-      const second = parseInt(dateStr.substring(13, 15));
+    if (property.name === "END") {
+      const component = stack.pop();
+      if (component === "VEVENT" && current) {
+        events.push(current);
+        current = undefined;
+      } else if (component === "VTIMEZONE" && currentTimezone) {
+        timezones.set(currentTimezone.tzid, currentTimezone);
+        currentTimezone = undefined;
+      } else if (
+        (component === "STANDARD" || component === "DAYLIGHT") &&
+        currentTimezone &&
+        currentObservance
+      ) {
+        currentTimezone.observances.push(currentObservance);
+        currentObservance = undefined;
+      }
+      continue;
+    }
 
-      return new Date(year, month, day, hour, minute, second);
+    // Read the definition of a VTIMEZONE
+    if (currentTimezone) {
+      if (property.name === "TZID" && !currentObservance) {
+        currentTimezone.tzid = property.value;
+      } else if (currentObservance) {
+        switch (property.name) {
+          case "DTSTART":
+            currentObservance.start =
+              parseICalDateValue(property.value)?.wallClock ??
+              currentObservance.start;
+            break;
+          case "TZOFFSETFROM":
+            currentObservance.offsetFrom = parseICalUtcOffset(property.value);
+            break;
+          case "TZOFFSETTO":
+            currentObservance.offsetTo = parseICalUtcOffset(property.value);
+            break;
+          case "RRULE":
+            currentObservance.rrule = property.value;
+            break;
+          case "RDATE":
+            currentObservance.rdates.push(
+              ...parseICalDateList(property).map((value) => value.wallClock)
+            );
+            break;
+        }
+      }
+      continue;
     }
 
-    // Handle ISO format: 2023-09-15T14:30:00Z
-    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z$/.test(dateStr)) {
-      return new Date(dateStr);
+    // Only read properties that belong directly to the VEVENT
+    if (!current || stack[stack.length - 1] !== "VEVENT") continue;
+
+    current.properties.push(property);
+    switch (property.name) {
+      case "UID":
+        current.uid = property.value;
+        break;
+      case "SUMMARY":
+        current.summary = unescapeICalText(property.value);
+        break;
+      case "DTSTART":
+        current.start = parseICalDateValue(property.value, property.params);
+        break;
+      case "DTEND":
+        current.end = parseICalDateValue(property.value, property.params);
+        break;
+      case "DURATION":
+        current.duration = property.value;
+        break;
+      case "RRULE":
+        current.rrule = property.value;
+        break;
+      case "RDATE":
+        current.rdates.push(...parseICalDateList(property));
+        break;
+      case "EXDATE":
+        current.exdates.push(...parseICalDateList(property));
+        break;
+      case "RECURRENCE-ID":
+        current.recurrenceId = parseICalDateValue(
+          property.value,
+          property.params
+        );
+        break;
+      case "TRANSP":
+        current.transparency = property.value.trim().toUpperCase();
+        break;
+      case "STATUS":
+        current.status = property.value.trim().toUpperCase();
+        break;
+      case "ORGANIZER":
+        current.organizer = parseCalAddress(property.value);
+        break;
+      case "ATTENDEE":
+        current.attendees.push({
+          email: parseCalAddress(property.value),
+          partstat: property.params.PARTSTAT?.toUpperCase(),
+        });
+        break;
     }
+  }
 
-    console.warn("Unrecognized date format:", dateStr);
-    return undefined;
-  } catch (error) {
-    console.error("Error parsing iCal date:", error, dateStr);
-    return undefined;
+  // Link the date values to the VTIMEZONE definitions of their TZID
+  if (timezones.size > 0) {
+    for (const event of events) {
+      const values = [
+        event.start,
+        event.end,
+        event.recurrenceId,
+        ...event.rdates,
+        ...event.exdates,
+      ];
+      for (const value of values) {
+        if (value?.tzid && timezones.has(value.tzid)) {
+          value.vtimezone = timezones.get(value.tzid);
+        }
+      }
+    }
   }
+
+  return events;
 }
@@ -0,0 +1,127 @@
+import { describe, test, expect } from "bun:test";
+import { getICSOccurrences } from "./recurrence";
+
+const weeklyStandup = `BEGIN:VCALENDAR
+VERSION:2.0
+BEGIN:VEVENT
+UID:standup@test
+DTSTART:20250106T090000Z
+DTEND:20250106T093000Z
+SUMMARY:Standup
+RRULE:FREQ=WEEKLY;BYDAY=MO
+EXDATE:20250609T090000Z
+RDATE:20250604T150000Z
+END:VEVENT
+BEGIN:VEVENT
+UID:standup@test
+RECURRENCE-ID:20250616T090000Z
+DTSTART:20250617T100000Z
+DTEND:20250617T110000Z
+SUMMARY:Standup (moved)
+END:VEVENT
+END:VCALENDAR`;
+
+const occurrencesBetween = (from: string, to: string) =>
+  getICSOccurrences(weeklyStandup, new Date(from), new Date(to)).map(
+    (o) => `${o.start.toISOString()}/${o.end.toISOString()}`
+  );
+
+describe("getICSOccurrences", () => {
+  test("expands the RRULE into the queried window", () => {
+    expect(
+      occurrencesBetween("2025-06-02T00:00:00Z", "2025-06-02T23:59:59Z")
+    ).toEqual(["2025-06-02T09:00:00.000Z/2025-06-02T09:30:00.000Z"]);
+  });
+
+  test("adds RDATE occurrences", () => {
+    expect(
+      occurrencesBetween("2025-06-04T00:00:00Z", "2025-06-04T23:59:59Z")
+    ).toEqual(["2025-06-04T15:00:00.000Z/2025-06-04T15:30:00.000Z"]);
+  });
+
+  test("removes EXDATE occurrences", () => {
+    expect(
+      occurrencesBetween("2025-06-09T00:00:00Z", "2025-06-09T23:59:59Z")
+    ).toEqual([]);
+  });
+
+  test("applies RECURRENCE-ID overrides", () => {
+    expect(
+      occurrencesBetween("2025-06-16T00:00:00Z", "2025-06-17T23:59:59Z")
+    ).toEqual(["2025-06-17T10:00:00.000Z/2025-06-17T11:00:00.000Z"]);
+  });
+
+  test("returns single events that overlap the window", () => {
+    const ics = `BEGIN:VCALENDAR
+BEGIN:VEVENT
+UID:single@test
+DTSTART:20250602T230000Z
+DURATION:PT2H
+END:VEVENT
+END:VCALENDAR`;
+    const occurrences = getICSOccurrences(
+      ics,
+      new Date("2025-06-03T00:00:00Z"),
+      new Date("2025-06-03T23:59:59Z")
+    );
+    expect(occurrences.map((o) => o.end.toISOString())).toEqual([
+      "2025-06-03T01:00:00.000Z",
+    ]);
+  });
+});
+
+describe("getICSOccurrences with timezones", () => {
+  test("keeps the local time of TZID events across daylight saving changes", () => {
+    const ics = `BEGIN:VCALENDAR
+BEGIN:VEVENT
+UID:tzid@test
+DTSTART;TZID=Europe/Berlin:20250320T090000
+DTEND;TZID=Europe/Berlin:20250320T100000
+RRULE:FREQ=WEEKLY
+END:VEVENT
+END:VCALENDAR`;
+    const starts = getICSOccurrences(
+      ics,
+      new Date("2025-03-20T00:00:00Z"),
+      new Date("2025-04-03T23:59:59Z")
+    ).map((o) => o.start.toISOString());
+    expect(starts).toEqual([
+      "2025-03-20T08:00:00.000Z",
+      "2025-03-27T08:00:00.000Z",
+      "2025-04-03T07:00:00.000Z",
+    ]);
+  });
+
+  test("resolves TZIDs that are defined by a VTIMEZONE", () => {
+    const ics = `BEGIN:VCALENDAR
+BEGIN:VTIMEZONE
+TZID:W. Europe Standard Time
+BEGIN:STANDARD
+DTSTART:16010101T030000
+TZOFFSETFROM:+0200
+TZOFFSETTO:+0100
+RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=10
+END:STANDARD
+BEGIN:DAYLIGHT
+DTSTART:16010101T020000
+TZOFFSETFROM:+0100
+TZOFFSETTO:+0200
+RRULE:FREQ=YEARLY;BYDAY=-1SU;BYMONTH=3
+END:DAYLIGHT
+END:VTIMEZONE
+BEGIN:VEVENT
+UID:vtimezone@test
+DTSTART;TZID=W. Europe Standard Time:20250602T090000
+DTEND;TZID=W. Europe Standard Time:20250602T100000
+END:VEVENT
+END:VCALENDAR`;
+    const occurrences = getICSOccurrences(
+      ics,
+      new Date("2025-06-02T00:00:00Z"),
+      new Date("2025-06-02T23:59:59Z")
+    );
+    expect(occurrences.map((o) => o.start.toISOString())).toEqual([
+      "2025-06-02T07:00:00.000Z",
+    ]);
+  });
+});
@@ -0,0 +1,179 @@
+import { RRule } from "rrule";
+import {
+  parseICalDuration,
+  parseICSEvents,
+  resolveICalDate,
+  toICalWallClock,
+  type ICalDateValue,
+  type ICalEvent,
+} from "./parser";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EventOccurrence {
+  start: Date;
+  end: Date;
+  summary?: string;
+  event: ICalEvent;
+}
+
+// Key to match EXDATE and RECURRENCE-ID values against generated occurrences.
+// DATE values only match on the day, DATE-TIME values on the exact instant.
+function occurrenceKey(value: ICalDateValue): string {
+  if (value.dateOnly) {
+    return value.wallClock.toISOString().split("T")[0];
+  }
+  return String(resolveICalDate(value).getTime());
+}
+
+function matchesAny(value: ICalDateValue, keys: Set<string>): boolean {
+  return (
+    keys.has(occurrenceKey(value)) ||
+    keys.has(value.wallClock.toISOString().split("T")[0])
+  );
+}
+
+// Get the length of an event from DTEND or DURATION
+function getEventDuration(event: ICalEvent): number {
+  if (!event.start) return 0;
+
+  if (event.end) {
+    return (
+      resolveICalDate(event.end).getTime() -
+      resolveICalDate(event.start).getTime()
+    );
+  }
+  if (event.duration) {
+    return parseICalDuration(event.duration) ?? 0;
+  }
+  // All-day events without an end last one day (RFC 5545, 3.6.1)
+  return event.start.dateOnly ? DAY_MS : 0;
+}
+
+// Get all start values of a recurring event in the given window
+function expandStarts(
+  event: ICalEvent,
+  rangeStart: Date,
+  rangeEnd: Date
+): ICalDateValue[] {
+  const start = event.start!;
+  const starts: ICalDateValue[] = [start];
+
+  if (event.rrule) {
+    // The rule is expanded on wall clock times so that the occurrences keep
+    // their local time across daylight saving changes.
+    const options = RRule.parseString(event.rrule.replace(/^RRULE:/i, ""));
+    if (options.until && !start.utc) {
+      options.until = toICalWallClock(options.until, start);
+    }
+    const rule = new RRule({ ...options, dtstart: start.wallClock });
+
+    // Add a margin of one day because of the timezone offset
+    const windowStart = new Date(
+      toICalWallClock(rangeStart, start).getTime() - DAY_MS
+    );
+    const windowEnd = new Date(
+      toICalWallClock(rangeEnd, start).getTime() + DAY_MS
+    );
+
+    starts.length = 0;
+    for (const wallClock of rule.between(windowStart, windowEnd, true)) {
+      starts.push({ ...start, wallClock });
+    }
+  }
+
+  starts.push(...event.rdates);
+  return starts;
+}
+
+/**
+ * Get all occurrences of a set of VEVENTs that overlap with the given window.
+ * Recurring events are expanded by RRULE and RDATE, occurrences in EXDATE are
+ * removed and occurrences with a RECURRENCE-ID override are replaced.
+ */
+export function expandEventOccurrences(
+  events: ICalEvent[],
+  rangeStart: Date,
+  rangeEnd: Date
+): EventOccurrence[] {
+  const occurrences: EventOccurrence[] = [];
+
+  // Collect the overrides of recurring events by UID
+  const overrides = new Map<string, ICalEvent[]>();
+  for (const event of events) {
+    if (event.recurrenceId && event.uid) {
+      overrides.set(event.uid, [...(overrides.get(event.uid) || []), event]);
+    }
+  }
+
+  for (const event of events) {
+    if (!event.start) continue;
+
+    // Overrides are handled together with their master event
+    if (
+      event.recurrenceId &&
+      event.uid &&
+      events.some((e) => e.uid === event.uid && !e.recurrenceId)
+    ) {
+      continue;
+    }
+
+    const duration = getEventDuration(event);
+
+    // Expand the event itself
+    const eventOverrides = event.recurrenceId
+      ? []
+      : overrides.get(event.uid || "") || [];
+    const excluded = new Set([
+      ...event.exdates.map(occurrenceKey),
+      ...eventOverrides.map((override) =>
+        occurrenceKey(override.recurrenceId!)
+      ),
+    ]);
+    const durationWindowStart = new Date(rangeStart.getTime() - duration);
+
+    for (const start of expandStarts(event, durationWindowStart, rangeEnd)) {
+      if (matchesAny(start, excluded)) continue;
+
+      const startDate = resolveICalDate(start);
+      occurrences.push({
+        start: startDate,
+        end: new Date(startDate.getTime() + duration),
+        summary: event.summary,
+        event,
+      });
+    }
+
+    // Add the overrides with their own times
+    for (const override of eventOverrides) {
+      if (!override.start) continue;
+
+      const startDate = resolveICalDate(override.start);
+      const overrideDuration =
+        override.end || override.duration
+          ? getEventDuration(override)
+          : duration;
+      occurrences.push({
+        start: startDate,
+        end: new Date(startDate.getTime() + overrideDuration),
+        summary: override.summary ?? event.summary,
+        event: override,
+      });
+    }
+  }
+
+  return occurrences.filter(
+    (occurrence) => occurrence.start <= rangeEnd && occurrence.end >= rangeStart
+  );
+}
+
+/**
+ * Parse an ICS string and get all event occurrences in the given window
+ */
+export function getICSOccurrences(
+  icsData: string,
+  rangeStart: Date,
+  rangeEnd: Date
+): EventOccurrence[] {
+  return expandEventOccurrences(parseICSEvents(icsData), rangeStart, rangeEnd);
+}
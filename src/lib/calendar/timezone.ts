@@ -0,0 +1,97 @@
+/**
+ * Timezone helpers based on the Intl API.
+ *
+ * A "wall clock" date is a Date whose UTC fields hold the local date and time
+ * in a timezone, e.g. 2025-06-02T08:00:00Z for 08:00 in Europe/Berlin.
+ */
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+// Check if a timezone is a valid IANA timezone name
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Get the timezone of the server
+export function getSystemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+// Get the offset of a timezone from UTC in milliseconds at a given instant
+export function getTimeZoneOffset(instant: Date, timeZone: string): number {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== "literal") {
+      parts[part.type] = Number(part.value);
+    }
+  }
+  const wallClock = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000;
+}
+
+// Convert an instant to the wall clock time of a timezone
+export function utcToWallClock(instant: Date, timeZone: string): Date {
+  return new Date(instant.getTime() + getTimeZoneOffset(instant, timeZone));
+}
+
+// Convert a wall clock time of a timezone to the actual instant.
+// Times in a daylight saving gap are moved forward by the gap.
+export function wallClockToUtc(wallClock: Date, timeZone: string): Date {
+  const guess = wallClock.getTime() - getTimeZoneOffset(wallClock, timeZone);
+  const offset = getTimeZoneOffset(new Date(guess), timeZone);
+  return new Date(wallClock.getTime() - offset);
+}
+
+// Get the instant of 00:00 of a date string (YYYY-MM-DD) in a timezone
+export function startOfDayInTimeZone(date: string, timeZone: string): Date {
+  return wallClockToUtc(new Date(`${date}T00:00:00Z`), timeZone);
+}
+
+// Format the date of an instant in a timezone as YYYY-MM-DD
+export function formatDateInTimeZone(instant: Date, timeZone: string): string {
+  return utcToWallClock(instant, timeZone).toISOString().split("T")[0];
+}
+
+// Format an instant as ISO 8601 string with the offset of a timezone,
+// e.g. 2025-06-02T08:00:00+02:00
+export function formatInTimeZone(instant: Date, timeZone: string): string {
+  const offset = getTimeZoneOffset(instant, timeZone);
+  const wallClock = new Date(instant.getTime() + offset)
+    .toISOString()
+    .replace(/\.\d{3}Z$/, "");
+  const sign = offset < 0 ? "-" : "+";
+  const minutes = Math.abs(offset) / 60000;
+  const hh = String(Math.floor(minutes / 60)).padStart(2, "0");
+  const mm = String(minutes % 60).padStart(2, "0");
+  return `${wallClock}${sign}${hh}:${mm}`;
+}
@@ -0,0 +1,134 @@
+import fs from "fs";
+import path from "path";
+import * as v from "valibot";
+import { parseSlotLength } from "../calendar";
+import { dayRangesSchema, type DayRanges } from "../calendar/config";
+import log from "../log";
+import { meetingProviderSchema, type MeetingProviderConfig } from "../meetings";
+
+const eventTypeSchema = v.object({
+  slug: v.pipe(
+    v.string(),
+    v.regex(/^[a-z0-9-]+$/, "Slugs may only contain a-z, 0-9 and dashes")
+  ),
+  name: v.string(),
+  // Duration in hours (1, 0.5) or with a unit ("30m", "2h")
+  duration: v.union([v.number(), v.string()]),
+  description: v.optional(v.string()),
+  // Description of the calendar event. Supports {{title}}, {{start}},
+  // {{participants}} and {{description}} placeholders.
+  descriptionTemplate: v.optional(v.string()),
+  // Defaults to the provider of the host or CALENDAR_MEETING_PROVIDER
+  meetingProvider: v.optional(meetingProviderSchema),
+  requiresApproval: v.optional(v.boolean(), false),
+  // Replaces the CALENDAR_AVAILABLE_* ranges for the listed days
+  availability: v.optional(dayRangesSchema),
+  // Minutes before and after existing events
+  bufferBefore: v.optional(v.number()),
+  bufferAfter: v.optional(v.number()),
+  // Ids of the hosts from CALENDAR_HOSTS_FILE. Without hosts, the calendar
+  // owner is booked.
+  hosts: v.optional(v.array(v.string())),
+  // "collective": all hosts must be free and attend.
+  // "round-robin": one free host is assigned, weighted by recent load.
+  schedulingType: v.optional(
+    v.picklist(["collective", "round-robin"]),
+    "collective"
+  ),
+});
+
+export interface EventType {
+  slug: string;
+  name: string;
+  duration: number; // in hours
+  description?: string;
+  descriptionTemplate?: string;
+  meetingProvider?: MeetingProviderConfig;
+  requiresApproval: boolean;
+  availability?: DayRanges;
+  bufferBefore?: number;
+  bufferAfter?: number;
+  hosts?: string[];
+  schedulingType: "collective" | "round-robin";
+}
+
+let cachedEventTypes: EventType[] | undefined;
+
+/**
+ * Load the event types from the JSON file in CALENDAR_EVENT_TYPES_FILE.
+ * Returns an empty list if no file is configured.
+ */
+export function getEventTypes(): EventType[] {
+  if (cachedEventTypes) {
+    return cachedEventTypes;
+  }
+
+  const file = process.env.CALENDAR_EVENT_TYPES_FILE;
+  if (!file) {
+    cachedEventTypes = [];
+    return cachedEventTypes;
+  }
+
+  try {
+    const content = fs.readFileSync(path.resolve(process.cwd(), file), "utf8");
+    const parsed = v.parse(v.array(eventTypeSchema), JSON.parse(content));
+
+    cachedEventTypes = parsed.map((eventType) => ({
+      ...eventType,
+      duration:
+        typeof eventType.duration === "number"
+          ? eventType.duration
+          : parseSlotLength(eventType.duration),
+    }));
+
+    const slugs = new Set<string>();
+    for (const eventType of cachedEventTypes) {
+      if (isNaN(eventType.duration) || eventType.duration <= 0) {
+        throw new Error(`Invalid duration for event type ${eventType.slug}`);
+      }
+      if (slugs.has(eventType.slug)) {
+        throw new Error(`Duplicate event type slug: ${eventType.slug}`);
+      }
+      slugs.add(eventType.slug);
+    }
+
+    log.info(`Loaded ${cachedEventTypes.length} event types from ${file}`);
+    return cachedEventTypes;
+  } catch (error) {
+    cachedEventTypes = undefined;
+    throw new Error(
+      `Failed to load event types from ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+// Get an event type by its slug
+export function getEventType(slug: string): EventType | undefined {
+  return getEventTypes().find((eventType) => eventType.slug === slug);
+}
+
+// Render the description of a booking from the template of an event type
+export function renderEventDescription(
+  eventType: EventType,
+  values: {
+    title: string;
+    start: string;
+    participants?: string[];
+    description?: string;
+  }
+): string {
+  if (!eventType.descriptionTemplate) {
+    return values.description || eventType.description || "";
+  }
+
+  const replacements: Record<string, string> = {
+    title: values.title,
+    start: values.start,
+    participants: (values.participants || []).join(", "),
+    description: values.description || "",
+  };
+  return eventType.descriptionTemplate.replace(
+    /\{\{\s*(\w+)\s*\}\}/g,
+    (match, key: string) => replacements[key] ?? match
+  );
+}
@@ -0,0 +1,119 @@
+import fs from "fs";
+import path from "path";
+import * as v from "valibot";
+import {
+  calendarListEntries,
+  resolveCalendarList,
+  type CalDAVCalendarConfig,
+  type CalendarSource,
+} from "../calendar/calendars";
+import { dayRangesSchema, type DayRanges } from "../calendar/config";
+import { isValidTimeZone } from "../calendar/timezone";
+import type { EventType } from "../event-types";
+import log from "../log";
+import { meetingProviderSchema, type MeetingProviderConfig } from "../meetings";
+
+const hostSchema = v.object({
+  id: v.pipe(
+    v.string(),
+    v.regex(/^[a-z0-9-]+$/, "Host ids may only contain a-z, 0-9 and dashes")
+  ),
+  name: v.string(),
+  email: v.pipe(v.string(), v.email()),
+  // Timezone of the working hours, defaults to CALENDAR_TIMEZONE
+  timezone: v.optional(
+    v.pipe(
+      v.string(),
+      v.check(isValidTimeZone, "Invalid timezone. Use an IANA name.")
+    )
+  ),
+  // Replaces the CALENDAR_AVAILABLE_* ranges for the listed days
+  availability: v.optional(dayRangesSchema),
+  // Share of round-robin bookings, e.g. 2 for twice as many as weight 1
+  weight: v.optional(v.pipe(v.number(), v.minValue(0.01)), 1),
+  // Meeting provider of the host, e.g. a personal meeting link
+  meetingProvider: v.optional(meetingProviderSchema),
+  ...calendarListEntries,
+});
+
+/**
+ * A team member with own calendars and working hours
+ */
+export interface Host {
+  id: string;
+  name: string;
+  email: string;
+  timezone?: string;
+  availability?: DayRanges;
+  weight: number;
+  meetingProvider?: MeetingProviderConfig;
+  conflictCalendars: CalendarSource[];
+  targetCalendar: CalDAVCalendarConfig;
+}
+
+let cachedHosts: Host[] | undefined;
+
+/**
+ * Load the hosts from the JSON file in CALENDAR_HOSTS_FILE.
+ * Returns an empty list if no file is configured.
+ */
+export function getHosts(): Host[] {
+  if (cachedHosts) {
+    return cachedHosts;
+  }
+
+  const file = process.env.CALENDAR_HOSTS_FILE;
+  if (!file) {
+    cachedHosts = [];
+    return cachedHosts;
+  }
+
+  try {
+    const content = fs.readFileSync(path.resolve(process.cwd(), file), "utf8");
+    const parsed = v.parse(v.array(hostSchema), JSON.parse(content));
+
+    const hosts = parsed.map((host) => ({
+      id: host.id,
+      name: host.name,
+      email: host.email,
+      timezone: host.timezone,
+      availability: host.availability,
+      weight: host.weight,
+      meetingProvider: host.meetingProvider,
+      ...resolveCalendarList(host),
+    }));
+
+    const ids = new Set<string>();
+    for (const host of hosts) {
+      if (ids.has(host.id)) {
+        throw new Error(`Duplicate host id: ${host.id}`);
+      }
+      ids.add(host.id);
+    }
+
+    cachedHosts = hosts;
+    log.info(`Loaded ${cachedHosts.length} hosts from ${file}`);
+    return cachedHosts;
+  } catch (error) {
+    throw new Error(
+      `Failed to load hosts from ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+// Get a host by its id
+export function getHost(id: string): Host | undefined {
+  return getHosts().find((host) => host.id === id);
+}
+
+// Get the hosts of an event type. Empty if the event type books the
+// calendar owner. Throws if a host is not configured.
+export function getEventTypeHosts(eventType?: EventType): Host[] {
+  return (eventType?.hosts || []).map((id) => {
+    const host = getHost(id);
+    if (!host) {
+      throw new Error(`Unknown host ${id} in event type ${eventType!.slug}`);
+    }
+    return host;
+  });
+}
@@ -0,0 +1,68 @@
+import { fetchEventsFromCalendar } from "../calendar/event-store";
+import { getEnvConfig } from "../calendar/config";
+import { BOOKING_HOST_PROPERTY } from "../calendar/create-event";
+import { parseICSEvents, resolveICalDate } from "../calendar/parser";
+import log from "../log";
+import type { Host } from ".";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Count the bookings of a host in its target calendar that start within
+ * CALENDAR_ROUND_ROBIN_WINDOW_DAYS before or after "around"
+ */
+export async function getHostLoad(host: Host, around: Date): Promise<number> {
+  const windowDays =
+    Number(getEnvConfig().CALENDAR_ROUND_ROBIN_WINDOW_DAYS) || 14;
+  const from = new Date(around.getTime() - windowDays * DAY_MS);
+  const to = new Date(around.getTime() + windowDays * DAY_MS);
+
+  const objects = await fetchEventsFromCalendar(host.targetCalendar, from, to);
+
+  let load = 0;
+  for (const object of objects) {
+    if (!object.data) continue;
+    for (const event of parseICSEvents(object.data)) {
+      if (!event.start || event.status === "CANCELLED") continue;
+
+      const isBooking = event.properties.some(
+        (property) =>
+          property.name === BOOKING_HOST_PROPERTY && property.value === host.id
+      );
+      const start = resolveICalDate(event.start);
+      if (isBooking && start >= from && start <= to) {
+        load++;
+      }
+    }
+  }
+  return load;
+}
+
+/**
+ * Pick the host with the lowest load relative to its weight.
+ * Ties go to the host listed first.
+ */
+export async function selectRoundRobinHost(
+  hosts: Host[],
+  start: Date
+): Promise<Host> {
+  if (hosts.length === 0) {
+    throw new Error("No host available");
+  }
+
+  const loads = await Promise.all(
+    hosts.map((host) => getHostLoad(host, start))
+  );
+
+  let selected = 0;
+  for (let i = 1; i < hosts.length; i++) {
+    if (loads[i] / hosts[i].weight < loads[selected] / hosts[selected].weight) {
+      selected = i;
+    }
+  }
+
+  log.info(
+    `Round-robin loads: ${hosts.map((host, i) => `${host.id}=${loads[i]}`).join(", ")}, selected ${hosts[selected].id}`
+  );
+  return hosts[selected];
+}
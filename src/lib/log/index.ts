@@ -103,6 +103,19 @@ class Logger {
     }
   }
 
+  /**
+   * Log a warning
+   */
+  async warn(...messages: (string | object | undefined | number)[]) {
+    for (const message of messages) {
+      if (typeof message === "object") {
+        await this.log("warn", JSON.stringify(message));
+      } else {
+        await this.log("warn", message + "");
+      }
+    }
+  }
+
   /**
    * Log an error message
    */
@@ -0,0 +1,29 @@
+import { describe, test, expect } from "bun:test";
+import { mkdtemp, readdir, readFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { OutboxMailer } from ".";
+
+describe("OutboxMailer", () => {
+  test("writes the mail with the iTIP part and attachment", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "outbox-"));
+    await new OutboxMailer(directory).send({
+      to: ["jane@example.com"],
+      subject: "Invitation: Intro call",
+      text: "You are invited",
+      html: "<p>You are invited</p>",
+      ics: {
+        method: "REQUEST",
+        content: "BEGIN:VCALENDAR\r\nMETHOD:REQUEST\r\nEND:VCALENDAR\r\n",
+      },
+    });
+
+    const [file] = await readdir(directory);
+    expect(file).toEndWith(".eml");
+    const mail = await readFile(join(directory, file), "utf8");
+    expect(mail).toContain("To: jane@example.com");
+    expect(mail).toContain("text/calendar; charset=utf-8; method=REQUEST");
+    expect(mail).toContain("filename=invite.ics");
+    expect(mail).toContain("text/html");
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test, expect } from "bun:test";
+import * as v from "valibot";
+import {
+  getMeetingEventFields,
+  getMeetingProvider,
+  InMemoryMeetingProvider,
+  meetingProviderSchema,
+  registerMeetingProvider,
+} from ".";
+
+const details = {
+  title: "Intro call",
+  start: "2026-11-09T09:00:00.000Z",
+  end: "2026-11-09T09:30:00.000Z",
+};
+
+describe("meeting providers", () => {
+  test("parses plain strings and objects", () => {
+    expect(v.parse(meetingProviderSchema, "jitsi")).toEqual({ type: "jitsi" });
+    expect(
+      v.parse(meetingProviderSchema, {
+        type: "in-person",
+        location: "Main Street 1",
+      })
+    ).toEqual({ type: "in-person", location: "Main Street 1" });
+    expect(() => v.parse(meetingProviderSchema, "link")).toThrow();
+    expect(() =>
+      v.parse(meetingProviderSchema, { type: "link", url: "no url" })
+    ).toThrow();
+  });
+
+  test("creates unguessable Jitsi rooms", async () => {
+    const provider = getMeetingProvider({
+      type: "jitsi",
+      baseUrl: "https://jitsi.example.com/",
+    })!;
+    const first = await provider.createMeeting(details);
+    const second = await provider.createMeeting(details);
+
+    expect(first.url).toStartWith("https://jitsi.example.com/Introcall");
+    expect(first.url).not.toBe(second.url);
+    expect(await provider.updateMeeting(first, details)).toEqual(first);
+  });
+
+  test("returns the static link and the location", async () => {
+    const link = getMeetingProvider({
+      type: "link",
+      url: "https://zoom.us/j/1",
+    })!;
+    expect(await link.createMeeting(details)).toEqual({
+      url: "https://zoom.us/j/1",
+    });
+
+    const inPerson = getMeetingProvider({
+      type: "in-person",
+      location: "+41 44 000 00 00",
+    })!;
+    expect(await inPerson.createMeeting(details)).toEqual({
+      location: "+41 44 000 00 00",
+    });
+  });
+
+  test("has no provider for none", () => {
+    expect(getMeetingProvider({ type: "none" })).toBeUndefined();
+  });
+
+  test("uses a registered fake", async () => {
+    const fake = new InMemoryMeetingProvider();
+    registerMeetingProvider("kmeet", () => fake);
+
+    const provider = getMeetingProvider({ type: "kmeet" })!;
+    const meeting = await provider.createMeeting(details);
+    expect(fake.meetings.get(meeting.id!)).toEqual(details);
+
+    const moved = { ...details, start: "2026-11-10T09:00:00.000Z" };
+    await provider.updateMeeting(meeting, moved);
+    expect(fake.meetings.get(meeting.id!)).toEqual(moved);
+
+    await provider.deleteMeeting(meeting);
+    expect(fake.meetings.size).toBe(0);
+  });
+});
+
+describe("getMeetingEventFields", () => {
+  test("adds the link and password to the event", () => {
+    expect(
+      getMeetingEventFields(
+        { id: "1", url: "https://kmeet.example.com/1", password: "secret" },
+        "Agenda"
+      )
+    ).toEqual({
+      location: "https://kmeet.example.com/1",
+      url: "https://kmeet.example.com/1",
+      description:
+        "Agenda\n\nJoin the meeting: https://kmeet.example.com/1\nPassword: secret",
+    });
+  });
+
+  test("keeps the location of in-person meetings", () => {
+    expect(getMeetingEventFields({ location: "Main Street 1" })).toEqual({
+      location: "Main Street 1",
+      description: "",
+    });
+  });
+});
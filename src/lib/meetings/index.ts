@@ -0,0 +1,229 @@
+import { randomUUID } from "crypto";
+import * as v from "valibot";
+import { KMeetProvider, type KMeetRoomOptions } from "./ksuite/kmeet";
+
+export type MeetingProviderConfig =
+  | ({ type: "kmeet" } & KMeetRoomOptions)
+  | { type: "jitsi"; baseUrl?: string }
+  | { type: "link"; url: string }
+  | { type: "in-person"; location: string }
+  | { type: "none" };
+export type MeetingProviderType = MeetingProviderConfig["type"];
+
+/**
+ * Meeting provider of an event type or host. The types without options can
+ * also be given as a plain string, e.g. "kmeet".
+ * - kmeet: kMeet room through the kSuite API, with the room options
+ *   lobby, generatePassword, recording and e2ee
+ * - jitsi: Jitsi room with a random name, no API needed
+ * - link: the same static link for every booking (e.g. a Zoom room)
+ * - in-person: an address or phone number, set as LOCATION of the event
+ * - none: no meeting
+ */
+export const meetingProviderSchema = v.union([
+  v.pipe(
+    v.picklist(["kmeet", "jitsi", "none"]),
+    v.transform((type) => ({ type }) as MeetingProviderConfig)
+  ),
+  v.variant("type", [
+    v.object({
+      type: v.literal("kmeet"),
+      lobby: v.optional(v.boolean()),
+      generatePassword: v.optional(v.boolean()),
+      recording: v.optional(v.boolean()),
+      e2ee: v.optional(v.boolean()),
+    }),
+    v.object({
+      type: v.literal("jitsi"),
+      baseUrl: v.optional(v.pipe(v.string(), v.url())),
+    }),
+    v.object({ type: v.literal("link"), url: v.pipe(v.string(), v.url()) }),
+    v.object({ type: v.literal("in-person"), location: v.string() }),
+    v.object({ type: v.literal("none") }),
+  ]),
+]);
+
+// The booked slot a meeting is created for
+export interface MeetingDetails {
+  title: string;
+  start: string; // ISO timestamps
+  end: string;
+  description?: string;
+}
+
+// A created meeting. "id" is only set if the provider can change it later.
+export interface MeetingRoom {
+  id?: string;
+  url?: string;
+  // Password to join, if the provider protects the meeting
+  password?: string;
+  location?: string;
+}
+
+export interface MeetingProvider {
+  createMeeting(details: MeetingDetails): Promise<MeetingRoom>;
+  // Returns the meeting with its new details, e.g. a new URL
+  updateMeeting(
+    meeting: MeetingRoom,
+    details: MeetingDetails
+  ): Promise<MeetingRoom>;
+  deleteMeeting(meeting: MeetingRoom): Promise<void>;
+}
+
+// Jitsi room with an unguessable name, created on the first join
+export class JitsiProvider implements MeetingProvider {
+  constructor(
+    private baseUrl: string = process.env.CALENDAR_JITSI_URL ||
+      "https://meet.jit.si"
+  ) {}
+
+  async createMeeting(details: MeetingDetails): Promise<MeetingRoom> {
+    const prefix = details.title
+      .normalize("NFKD")
+      .replace(/[^A-Za-z0-9]+/g, "")
+      .slice(0, 30);
+    const id = `${prefix}${randomUUID().replace(/-/g, "")}`;
+    return { id, url: `${this.baseUrl.replace(/\/+$/, "")}/${id}` };
+  }
+
+  async updateMeeting(meeting: MeetingRoom): Promise<MeetingRoom> {
+    return meeting;
+  }
+
+  async deleteMeeting(): Promise<void> {}
+}
+
+// The same link for every booking
+export class StaticLinkProvider implements MeetingProvider {
+  constructor(private url: string) {}
+
+  async createMeeting(): Promise<MeetingRoom> {
+    return { url: this.url };
+  }
+
+  async updateMeeting(meeting: MeetingRoom): Promise<MeetingRoom> {
+    return meeting;
+  }
+
+  async deleteMeeting(): Promise<void> {}
+}
+
+// A place or phone number instead of a video meeting
+export class InPersonProvider implements MeetingProvider {
+  constructor(private location: string) {}
+
+  async createMeeting(): Promise<MeetingRoom> {
+    return { location: this.location };
+  }
+
+  async updateMeeting(meeting: MeetingRoom): Promise<MeetingRoom> {
+    return meeting;
+  }
+
+  async deleteMeeting(): Promise<void> {}
+}
+
+/**
+ * Keeps the meetings in memory, e.g. to replace kMeet in tests with
+ * registerMeetingProvider("kmeet", () => fake)
+ */
+export class InMemoryMeetingProvider implements MeetingProvider {
+  meetings = new Map<string, MeetingDetails>();
+
+  async createMeeting(details: MeetingDetails): Promise<MeetingRoom> {
+    const id = randomUUID();
+    this.meetings.set(id, details);
+    return { id, url: `https://meet.example.com/${id}` };
+  }
+
+  async updateMeeting(
+    meeting: MeetingRoom,
+    details: MeetingDetails
+  ): Promise<MeetingRoom> {
+    if (!meeting.id || !this.meetings.has(meeting.id)) {
+      throw new Error(`Unknown meeting: ${meeting.id}`);
+    }
+    this.meetings.set(meeting.id, details);
+    return meeting;
+  }
+
+  async deleteMeeting(meeting: MeetingRoom): Promise<void> {
+    if (meeting.id) {
+      this.meetings.delete(meeting.id);
+    }
+  }
+}
+
+/**
+ * Get the LOCATION, URL and DESCRIPTION of the calendar event of a meeting,
+ * so that the link shows up in the calendars of all attendees. The location
+ * of in-person meetings wins over the link.
+ */
+export function getMeetingEventFields(
+  meeting: MeetingRoom,
+  description: string = ""
+): { location?: string; url?: string; description: string } {
+  if (!meeting.url) {
+    return { location: meeting.location, description };
+  }
+
+  const join = [`Join the meeting: ${meeting.url}`];
+  if (meeting.password) {
+    join.push(`Password: ${meeting.password}`);
+  }
+  return {
+    location: meeting.location || meeting.url,
+    url: meeting.url,
+    description: [description, join.join("\n")].filter(Boolean).join("\n\n"),
+  };
+}
+
+type MeetingProviderFactory = (
+  config: MeetingProviderConfig
+) => MeetingProvider;
+
+const registeredProviders = new Map<
+  MeetingProviderType,
+  MeetingProviderFactory
+>();
+
+/**
+ * Replace the implementation of a provider type, e.g. with a fake in tests
+ */
+export function registerMeetingProvider(
+  type: MeetingProviderType,
+  factory: MeetingProviderFactory
+): void {
+  registeredProviders.set(type, factory);
+}
+
+/**
+ * Get the provider for a configuration. Undefined for "none".
+ */
+export function getMeetingProvider(
+  config: MeetingProviderConfig
+): MeetingProvider | undefined {
+  const factory = registeredProviders.get(config.type);
+  if (factory) {
+    return factory(config);
+  }
+
+  switch (config.type) {
+    case "kmeet":
+      return new KMeetProvider(config);
+    case "jitsi":
+      return new JitsiProvider(config.baseUrl);
+    case "link":
+      return new StaticLinkProvider(config.url);
+    case "in-person":
+      return new InPersonProvider(config.location);
+    case "none":
+      return undefined;
+  }
+}
+
+// Get the provider of bookings without an event type or host that picks one
+export function getDefaultMeetingProvider(): MeetingProviderConfig {
+  const type = process.env.CALENDAR_MEETING_PROVIDER || "kmeet";
+  return v.parse(meetingProviderSchema, type);
+}
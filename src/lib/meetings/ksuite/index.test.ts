@@ -2,12 +2,29 @@ import {
   describe,
   test,
   expect,
+  beforeAll,
   beforeEach,
+  afterAll,
   afterEach,
   mock,
+  spyOn,
   type Mock,
 } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import * as tsdav from "tsdav";
 import KSuiteClient from "./index";
+import { InMemoryMeetingProvider, registerMeetingProvider } from "..";
+import type { EventType } from "../../event-types";
+import { getBooking } from "../../bookings/store";
+import {
+  getMailer,
+  setMailer,
+  type Mailer,
+  type MailMessage,
+} from "../../mail";
+import * as webhooks from "../../webhooks";
 
 const client = new KSuiteClient();
 
@@ -24,3 +41,295 @@ describe("KSuiteClient", () => {
     expect(result.success).toBe(true);
   });
 });
+
+// Calendars of the hosts on a fake CalDAV server, the other servers are real
+const fakeServer = "https://dav.example.com/";
+const calendarObjects = new Map<string, string>();
+// ICS content of the changed events
+const updatedObjects = new Map<string, string>();
+const writes: string[] = [];
+const rejectedUsers = new Set<string>();
+// Users whose calendar cannot change or delete events
+const unavailableUsers = new Set<string>();
+const unavailable = () =>
+  new Response(null, { status: 503, statusText: "Service Unavailable" });
+const createDAVClient = tsdav.createDAVClient;
+mock.module("tsdav", () => ({
+  ...tsdav,
+  createDAVClient: async (params: Parameters<typeof createDAVClient>[0]) => {
+    if (params.serverUrl !== fakeServer) {
+      return createDAVClient(params);
+    }
+    const username = params.credentials?.username;
+    const calendar = { url: `${fakeServer}${username}/calendar/` };
+    return {
+      fetchCalendars: async () => [calendar],
+      isCollectionDirty: async () => ({ isDirty: true, newCtag: "1" }),
+      fetchCalendarObjects: async () => [],
+      createCalendarObject: async (object: { filename: string }) => {
+        writes.push(username!);
+        if (rejectedUsers.has(username!)) {
+          return new Response(null, { status: 403, statusText: "Forbidden" });
+        }
+        calendarObjects.set(calendar.url + object.filename, username!);
+        return new Response(null, { status: 201 });
+      },
+      updateCalendarObject: async (object: {
+        calendarObject: { url: string; data: string };
+      }) => {
+        if (unavailableUsers.has(username!)) {
+          return unavailable();
+        }
+        updatedObjects.set(
+          object.calendarObject.url,
+          object.calendarObject.data
+        );
+        return new Response(null, { status: 204 });
+      },
+      deleteCalendarObject: async (object: {
+        calendarObject: { url: string };
+      }) => {
+        if (unavailableUsers.has(username!)) {
+          return unavailable();
+        }
+        calendarObjects.delete(object.calendarObject.url);
+        return new Response(null, { status: 204 });
+      },
+    };
+  },
+}));
+
+describe("team bookings", () => {
+  const directory = mkdtempSync(join(tmpdir(), "ksuite-"));
+  const hostsFile = join(directory, "hosts.json");
+  const eventTypesFile = join(directory, "event-types.json");
+
+  const busyFile = join(directory, "busy.ics");
+  const meetings = new InMemoryMeetingProvider();
+  const teamIntro: EventType = {
+    slug: "team-intro",
+    name: "Meet the team",
+    duration: 0.5,
+    meetingProvider: { type: "jitsi" },
+    requiresApproval: false,
+    hosts: ["anna", "ben"],
+    schedulingType: "collective",
+  };
+  const teamReview: EventType = {
+    ...teamIntro,
+    slug: "team-review",
+    name: "Review with the team",
+    requiresApproval: true,
+  };
+  // Read by reschedule and approve
+  writeFileSync(eventTypesFile, JSON.stringify([teamIntro, teamReview]));
+  const emitted = spyOn(webhooks, "emitWebhookEvent");
+
+  const sent: MailMessage[] = [];
+  let previousMailer: Mailer | undefined;
+  beforeAll(() => {
+    previousMailer = getMailer();
+    setMailer({
+      send: async (message) => {
+        sent.push(message);
+      },
+    });
+  });
+  afterAll(() => {
+    setMailer(previousMailer ?? null);
+    emitted.mockRestore();
+  });
+
+  // Book a slot of the team for a guest
+  async function book(start: string, eventType: EventType) {
+    const result = await client.bookMeeting({
+      title: eventType.name,
+      start,
+      participants: ["guest@example.com"],
+      eventType,
+    });
+    if (!result.success) throw new Error(result.error);
+    return { result, booking: getBooking(result.bookingId!)! };
+  }
+  const environment = {
+    CALENDAR_BOOKINGS_DB: ":memory:",
+    CALENDAR_HOSTS_FILE: hostsFile,
+    CALENDAR_EVENT_TYPES_FILE: eventTypesFile,
+
+    CALENDAR_TIMEZONE: "UTC",
+    CALENDAR_MIN_NOTICE: "0",
+    CALENDAR_MAX_DAYS_AHEAD: "3650",
+  };
+  const previous = Object.fromEntries(
+    Object.keys(environment).map((key) => [key, process.env[key]])
+  );
+
+  beforeEach(() => {
+    writes.length = 0;
+    rejectedUsers.clear();
+    unavailableUsers.clear();
+    writeFileSync(busyFile, "BEGIN:VCALENDAR\r\nEND:VCALENDAR\r\n");
+    writeFileSync(
+      hostsFile,
+      JSON.stringify(
+        ["anna", "ben"].map((id) => ({
+          id,
+          name: id,
+          email: `${id}@example.com`,
+          availability: { MON: "09:00-17:00" },
+          conflictCalendars: [{ id: `${id}-busy`, icsFile: busyFile }],
+          targetCalendar: {
+            id: `${id}-bookings`,
+            url: fakeServer,
+            username: id,
+            password: "secret",
+          },
+        }))
+      )
+    );
+    Object.assign(process.env, environment);
+    registerMeetingProvider("jitsi", () => meetings);
+  });
+
+  afterEach(() => {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  });
+
+  test("deletes the meeting and the events if a host calendar fails", async () => {
+    rejectedUsers.add("ben");
+
+    const result = await client.bookMeeting({
+      title: "Meet the team",
+      start: "2030-06-03T09:00:00Z",
+      participants: ["guest@example.com"],
+      eventType: teamIntro,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain("403 Forbidden");
+    expect(writes).toEqual(["anna", "ben"]);
+    expect(calendarObjects.size).toBe(0);
+    expect(meetings.meetings.size).toBe(0);
+  });
+
+  test("keeps the meeting until all events of a cancelled booking are deleted", async () => {
+    const result = await client.bookMeeting({
+      title: "Meet the team",
+      start: "2030-06-03T10:00:00Z",
+      participants: ["guest@example.com"],
+      eventType: teamIntro,
+    });
+    expect(result.success).toBe(true);
+    const booking = getBooking(result.bookingId!)!;
+
+    unavailableUsers.add("ben");
+    const failed = await client.cancelBooking(booking);
+    expect(failed.success).toBe(false);
+    expect(getBooking(booking.id)?.status).toBe("confirmed");
+    expect(meetings.meetings.has(result.meetingId!)).toBe(true);
+
+    // A retry deletes the rest
+    unavailableUsers.clear();
+    const cancelled = await client.cancelBooking(getBooking(booking.id)!);
+    expect(cancelled.success).toBe(true);
+    expect(getBooking(booking.id)?.status).toBe("cancelled");
+    expect(calendarObjects.size).toBe(0);
+    expect(meetings.meetings.has(result.meetingId!)).toBe(false);
+  });
+
+  test("moves the meeting and the events back if a reschedule fails", async () => {
+    const result = await client.bookMeeting({
+      title: "Meet the team",
+      start: "2030-06-03T11:00:00Z",
+      participants: ["guest@example.com"],
+      eventType: teamIntro,
+    });
+    expect(result.success).toBe(true);
+    const booking = getBooking(result.bookingId!)!;
+
+    unavailableUsers.add("ben");
+    const failed = await client.rescheduleBooking(booking, {
+      start: "2030-06-03T12:00:00Z",
+    });
+    expect(failed.success).toBe(false);
+    expect(meetings.meetings.get(result.meetingId!)?.start).toBe(
+      "2030-06-03T11:00:00.000Z"
+    );
+    const [anna] = booking.events;
+    expect(updatedObjects.get(anna.url)).toContain("DTSTART:20300603T110000Z");
+    expect(getBooking(booking.id)).toMatchObject({
+      start: "2030-06-03T11:00:00.000Z",
+      sequence: 2,
+    });
+  });
+
+  test("confirms the events and invites the guest when approved", async () => {
+    const { result, booking } = await book("2030-06-03T13:00:00Z", teamReview);
+    expect(booking.status).toBe("pending");
+    expect(sent.pop()?.subject).toStartWith("Request received: ");
+
+    const approved = await client.approveBooking(booking);
+    if (!approved.success) throw new Error(approved.error);
+    expect(approved.booking).toMatchObject({
+      status: "confirmed",
+      sequence: 1,
+    });
+    expect(getBooking(booking.id)?.status).toBe("confirmed");
+    for (const event of booking.events) {
+      expect(updatedObjects.get(event.url)).toContain("STATUS:CONFIRMED");
+    }
+    expect(meetings.meetings.has(result.meetingId!)).toBe(true);
+
+    const invitation = sent.pop();
+    expect(invitation?.subject).toStartWith("Invitation: ");
+    expect(invitation?.ics?.method).toBe("REQUEST");
+    expect(emitted).toHaveBeenCalledWith(
+      "booking.approved",
+      expect.objectContaining({ id: booking.id, status: "confirmed" })
+    );
+  });
+
+  test("cancels the booking when declined", async () => {
+    const { result, booking } = await book("2030-06-03T14:00:00Z", teamReview);
+
+    const declined = await client.declineBooking(booking);
+    if (!declined.success) throw new Error(declined.error);
+    expect(getBooking(booking.id)?.status).toBe("cancelled");
+    for (const event of booking.events) {
+      expect(calendarObjects.has(event.url)).toBe(false);
+    }
+    expect(meetings.meetings.has(result.meetingId!)).toBe(false);
+    expect(sent.pop()?.subject).toStartWith("Request cancelled: ");
+  });
+
+  test("only approves and declines pending bookings", async () => {
+    const { booking } = await book("2030-06-03T15:00:00Z", teamIntro);
+    updatedObjects.clear();
+
+    // Approving a confirmed booking changes nothing
+    expect(await client.approveBooking(booking)).toEqual({
+      success: true,
+      booking,
+    });
+    expect(updatedObjects.size).toBe(0);
+    expect(await client.declineBooking(booking)).toEqual({
+      success: false,
+      error: "Only pending bookings can be declined",
+      errorCode: "INVALID_SLOT",
+    });
+
+    const cancelled = await client.cancelBooking(booking);
+    if (!cancelled.success) throw new Error(cancelled.error);
+    expect(await client.approveBooking(cancelled.booking)).toEqual({
+      success: false,
+      error: "The booking is cancelled",
+      errorCode: "INVALID_SLOT",
+    });
+  });
+});
@@ -1,7 +1,45 @@
-import { getAvailableSlotsForDay } from "../../calendar";
+import { randomUUID } from "crypto";
 import log from "../../log";
-import { createCalendarEvent } from "../../calendar/create-event";
-import type { EventParams } from "../../calendar/create-event";
+import {
+  createCalendarEvent,
+  deleteCalendarEvent,
+  updateCalendarEvent,
+} from "../../calendar/create-event";
+import type {
+  CalendarEventRef,
+  EventAttendee,
+  EventParams,
+} from "../../calendar/create-event";
+import {
+  getTargetCalendar,
+  type CalDAVCalendarConfig,
+} from "../../calendar/calendars";
+import {
+  getEventType,
+  renderEventDescription,
+  type EventType,
+} from "../../event-types";
+import { getHost, type Host } from "../../hosts";
+import { holdSlot, type BookingErrorCode } from "../../bookings";
+import { releaseHold, type SlotHold } from "../../bookings/holds";
+import { getBookingLinks } from "../../bookings/links";
+import { sendBookingMail } from "../../bookings/invitations";
+import { emitWebhookEvent } from "../../webhooks";
+import {
+  saveBooking,
+  toPublicBooking,
+  updateBooking,
+  type Booking,
+  type BookingEvent,
+} from "../../bookings/store";
+import {
+  getDefaultMeetingProvider,
+  getMeetingEventFields,
+  getMeetingProvider,
+  type MeetingProvider,
+  type MeetingProviderConfig,
+  type MeetingRoom,
+} from "..";
 
 export interface MeetingParams {
   title: string;
@@ -9,256 +47,701 @@ export interface MeetingParams {
   endTime: string;
   description?: string;
   participantEmails?: string[];
+  attendees?: EventAttendee[];
+  status?: "CONFIRMED" | "TENTATIVE";
+  location?: string;
+  url?: string;
+  hostId?: string;
+  uid?: string;
 }
 
-export interface CreateRoomResponse {
-  result: {
-    id: string;
-    name: string;
-    url: string;
-    start_at: string;
-    end_at: string;
-    room_id: string;
-  };
-  error?: {
-    code: number;
-    message: string;
-  };
+export type { CreateRoomResponse } from "./kmeet";
+export type { BookingErrorCode };
+
+export interface BookMeetingParams {
+  title: string;
+  start: string; // date and time in ISO format
+  duration?: number; // in hours, defaults to the duration of the event type
+  description?: string;
+  participants?: string[];
+  eventType?: EventType;
+  // Hold of the visitor for this slot, released after the booking
+  holdId?: string;
 }
 
-export class KSuiteClient {
-  private config: {
-    apiToken: string;
-    apiEndpoint: string;
-    calendarId: string;
-    hostname?: string;
-  };
+export interface BookMeetingResult {
+  success: boolean;
+  // Id of the stored booking, to look it up, cancel or reschedule it
+  bookingId?: string;
+  // Signed links for the attendees (if CALENDAR_LINK_SECRET is set)
+  cancelUrl?: string;
+  rescheduleUrl?: string;
+  // "pending" if the event type requires approval by the owner
+  status?: "confirmed" | "pending";
+  meetingUrl?: string;
+  meetingId?: string;
+  meetingPassword?: string;
+  eventUid?: string;
+  // The hosts the booking was assigned to (team event types only)
+  hosts?: { id: string; name: string; email: string }[];
+  error?: string;
+  errorCode?: BookingErrorCode;
+}
 
-  constructor() {
-    this.config = {
-      apiToken: process.env.KSUITE_API_TOKEN || "",
-      apiEndpoint: "https://api.infomaniak.com",
-      calendarId: process.env.KSUITE_CALENDAR_ID || "",
-    };
-  }
+export type BookingChangeResult =
+  | { success: true; booking: Booking }
+  | { success: false; error: string; errorCode: BookingErrorCode };
 
-  /**
-   * Make an API request to kSuite API
-   */
-  private async apiRequest<T>(
-    method: string,
-    path: string,
-    body?: any
-  ): Promise<T> {
-    const url = `${this.config.apiEndpoint}${path}`;
-
-    const headers: HeadersInit = {
-      Authorization: `Bearer ${this.config.apiToken}`,
-      "Content-Type": "application/json",
-    };
+// Get the calendar a booking event was written to
+function getEventCalendar(event: BookingEvent): CalDAVCalendarConfig {
+  if (!event.hostId) {
+    return getTargetCalendar();
+  }
+  const host = getHost(event.hostId);
+  if (!host) {
+    throw new Error(`Unknown host of the booking: ${event.hostId}`);
+  }
+  return host.targetCalendar;
+}
 
-    const options: RequestInit = {
-      method,
-      headers,
-    };
+// Get the meeting provider of a booking. Bookings from before the
+// providers were stored used kMeet if they have a meeting id.
+function getBookingMeetingProvider(
+  booking: Booking
+): MeetingProviderConfig | undefined {
+  return (
+    booking.meetingProvider ??
+    (booking.meetingId ? { type: "kmeet" } : undefined)
+  );
+}
 
-    if (body) {
-      options.body = JSON.stringify(body);
-    }
+// Get the meeting of a stored booking
+function getBookingMeeting(booking: Booking): MeetingRoom {
+  return {
+    id: booking.meetingId,
+    url: booking.meetingUrl,
+    password: booking.meetingPassword,
+    location: booking.location,
+  };
+}
 
-    try {
-      log.info(`Making ${method} request to ${path}`);
-      const response = await fetch(url, options);
+// Invite the other hosts of a team booking to the event of a host
+function getHostParticipants(
+  participants: string[],
+  hosts: Host[],
+  host: Host
+): EventAttendee[] {
+  return [
+    ...participants.map((email) => ({ email })),
+    ...hosts
+      .filter((other) => other.id !== host.id)
+      .map((h) => ({ email: h.email, name: h.name })),
+  ];
+}
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        log.error(`API error: ${response.status} ${errorText}`);
-        throw new Error(`API error: ${response.status} ${errorText}`);
-      }
+// Replace the calendar events of a booking, e.g. after its time or status
+// changed. Returns the events with their new etags. "onUpdated" gets each
+// event once it is replaced, e.g. to undo the changes if a later one fails.
+async function updateBookingEvents(
+  booking: Booking,
+  eventParams: EventParams,
+  hosts: Host[],
+  onUpdated?: (event: BookingEvent) => void
+): Promise<BookingEvent[]> {
+  const events: BookingEvent[] = [];
+  for (const event of booking.events) {
+    const host = hosts.find((host) => host.id === event.hostId);
+    const etag = await updateCalendarEvent(
+      event,
+      {
+        ...eventParams,
+        attendees: host
+          ? getHostParticipants(booking.attendees, hosts, host)
+          : undefined,
+        hostId: event.hostId,
+        uid: event.uid,
+      },
+      getEventCalendar(event)
+    );
+    events.push({ ...event, etag });
+    onUpdated?.({ ...event, etag });
+  }
+  return events;
+}
 
-      return (await response.json()) as T;
+/**
+ * Move the meeting and the moved events of a booking back to its stored
+ * time after a failed reschedule. The restored events get a higher sequence
+ * than the moved ones, which is stored with their new etags. Failures are
+ * logged, so that the error of the reschedule is reported.
+ */
+async function restoreBooking(
+  booking: Booking,
+  provider: MeetingProvider | undefined,
+  moved: BookingEvent[],
+  hosts: Host[]
+): Promise<void> {
+  if (provider) {
+    try {
+      await provider.updateMeeting(getBookingMeeting(booking), {
+        title: booking.title,
+        start: booking.start,
+        end: booking.end,
+        description: booking.description,
+      });
     } catch (error) {
-      log.error("Error making API request:", error + "");
-      throw new Error(
-        `API request failed: ${error instanceof Error ? error.message : String(error)}`
+      log.error(
+        `Failed to move the meeting of booking ${booking.id} back:`,
+        error instanceof Error ? error.message : String(error)
       );
     }
   }
+  if (moved.length === 0) {
+    return;
+  }
 
-  /**
-   * Creates a new meeting room using kMeet API
-   */
-  async createMeetingRoom(
-    name: string,
-    startAt: string,
-    endAt: string,
-    options: {
-      description?: string;
-      passwordProtected?: boolean;
-      password?: string;
-    } = {}
-  ): Promise<CreateRoomResponse> {
-    // Convert ISO dates to Y-m-d H:i:s format
-    const formatDate = (isoDate: string) => {
-      const date = new Date(isoDate);
-      return date.toISOString().replace("T", " ").replace(".000Z", "");
-    };
-
-    const payload = {
-      starting_at: formatDate(startAt),
-      ending_at: formatDate(endAt),
-      timezone: "Europe/Berlin",
-      hostname: "meet.infomaniak.com",
-      options: {
-        subject: name,
-        start_audio_muted: false,
-        enable_recording: false,
-        enable_moderator_video: true,
-        start_audio_only: false,
-        lobby_enabled: false,
-        password_enabled: options.passwordProtected || false,
-        e2ee_enabled: false,
+  const sequence = booking.sequence + 2;
+  const events = booking.events.map(
+    (event) => moved.find((other) => other.url === event.url) ?? event
+  );
+  try {
+    await updateBookingEvents(
+      { ...booking, events: moved },
+      {
+        title: booking.title,
+        startTime: booking.start,
+        endTime: booking.end,
+        participantEmails: booking.attendees,
+        status: booking.status === "pending" ? "TENTATIVE" : "CONFIRMED",
+        ...getMeetingEventFields(
+          getBookingMeeting(booking),
+          booking.description
+        ),
+        sequence,
       },
-      description: options.description || "",
-      password_protected: options.passwordProtected || false,
-      password: options.password || "",
-      calendar_id: this.config.calendarId,
-    };
-
-    log.info(
-      "Creating meeting room with payload:",
-      JSON.stringify(payload, null, 2)
+      hosts,
+      (restored) => {
+        events[events.findIndex((event) => event.url === restored.url)] =
+          restored;
+      }
     );
-
-    return await this.apiRequest<CreateRoomResponse>(
-      "POST",
-      "/1/kmeet/rooms",
-      payload
+  } catch (error) {
+    log.error(
+      `Failed to move the events of booking ${booking.id} back:`,
+      error instanceof Error ? error.message : String(error)
     );
   }
+  updateBooking({ ...booking, sequence, events });
+}
 
+// Delete the meeting and the calendar events of a booking that failed.
+// Failures are logged, so that the error of the booking is reported.
+async function discardBooking(
+  provider: MeetingProvider | undefined,
+  meeting: MeetingRoom,
+  events: BookingEvent[]
+): Promise<void> {
+  for (const event of events) {
+    try {
+      await deleteCalendarEvent(event, getEventCalendar(event));
+    } catch (error) {
+      log.error(
+        `Failed to delete event ${event.uid} of a failed booking:`,
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+  if (provider) {
+    try {
+      await provider.deleteMeeting(meeting);
+    } catch (error) {
+      log.error(
+        "Failed to delete the meeting of a failed booking:",
+        error instanceof Error ? error.message : String(error)
+      );
+    }
+  }
+}
+
+export class KSuiteClient {
   /**
-   * Create calendar event for a meeting
+   * Create calendar event for a meeting, by default in the target calendar
    */
-  async createCalendarEvent(meetingData: MeetingParams): Promise<string> {
+  async createCalendarEvent(
+    meetingData: MeetingParams,
+    calendarConfig?: CalDAVCalendarConfig
+  ): Promise<CalendarEventRef> {
     const eventParams: EventParams = {
       title: meetingData.title,
       startTime: meetingData.startTime,
       endTime: meetingData.endTime,
       description: meetingData.description || "",
       participantEmails: meetingData.participantEmails,
+      attendees: meetingData.attendees,
+      status: meetingData.status,
+      location: meetingData.location,
+      url: meetingData.url,
+      hostId: meetingData.hostId,
+      uid: meetingData.uid,
     };
 
-    return await createCalendarEvent(eventParams);
+    return await createCalendarEvent(eventParams, calendarConfig);
+  }
+
+  /**
+   * Book a meeting - creates a meeting (kMeet room by default) and adds
+   * event to calendar. If an event type is passed, its duration,
+   * availability, buffers, description template and meeting provider are
+   * used. Team bookings without a provider in the event type use the one of
+   * the first assigned host.
+   */
+  async bookMeeting(params: BookMeetingParams): Promise<BookMeetingResult> {
+    const result = await this.holdAndBook(params);
+    if (!result.success) {
+      emitWebhookEvent("booking.failed", {
+        title: params.title,
+        start: params.start,
+        duration: params.duration,
+        eventType: params.eventType?.slug,
+        attendees: params.participants || [],
+        error: result.error,
+        errorCode: result.errorCode,
+      });
+    }
+    return result;
   }
 
   /**
-   * Book a meeting - creates a kMeet room and adds event to calendar
+   * Hold the slot of a booking and create it
    */
-  async bookMeeting(params: {
-    title: string;
-    start: string; // date and time in ISO format
-    duration: number; // in hours
-    description?: string;
-    participants?: string[];
-  }): Promise<{
-    success: boolean;
-    meetingUrl?: string;
-    meetingId?: string;
-    error?: string;
-  }> {
+  private async holdAndBook(
+    params: BookMeetingParams
+  ): Promise<BookMeetingResult> {
     try {
-      const startTime = new Date(params.start);
-      if (isNaN(startTime.getTime())) {
-        return {
-          success: false,
-          error: "Invalid start time",
-        };
+      const eventType = params.eventType;
+
+      // Check the slot and hold it until the booking is created, so that a
+      // concurrent request cannot book it as well
+      const reservation = await holdSlot({
+        start: params.start,
+        duration: params.duration,
+        eventType,
+        holdId: params.holdId,
+      });
+      if (!reservation.success) {
+        return reservation;
       }
 
-      const endTime = new Date(startTime);
-      endTime.setHours(endTime.getHours() + params.duration);
+      try {
+        const result = await this.createBooking(params, reservation);
+        if (result.success && params.holdId) {
+          releaseHold(params.holdId);
+        }
+        return result;
+      } finally {
+        releaseHold(reservation.hold.id);
+      }
+    } catch (error) {
+      log.error("Error booking meeting:", error + "");
+      return {
+        success: false,
+        error: `Failed to book meeting: ${error instanceof Error ? error.message : String(error)}`,
+        errorCode: "PROVIDER_ERROR",
+      };
+    }
+  }
 
-      const availableSlots = await getAvailableSlotsForDay(
-        startTime,
-        params.duration
-      );
+  /**
+   * Create the meeting room and the calendar events of a held slot. They are
+   * deleted again if a later step fails.
+   */
+  private async createBooking(
+    params: {
+      title: string;
+      description?: string;
+      participants?: string[];
+      eventType?: EventType;
+    },
+    reservation: { hold: SlotHold; hosts: Host[] }
+  ): Promise<BookMeetingResult> {
+    const eventType = params.eventType;
+    const startTime = reservation.hold.start;
+    const endTime = reservation.hold.end;
+    const assignedHosts = reservation.hosts;
+    const description = eventType
+      ? renderEventDescription(eventType, {
+          title: params.title,
+          start: startTime.toISOString(),
+          participants: params.participants,
+          description: params.description,
+        })
+      : params.description;
 
-      // Check if the requested time slot is available
-      const isSlotAvailable = availableSlots.some((slot) => {
-        const slotDuration =
-          new Date(slot.end).getTime() - new Date(slot.start).getTime();
-        const requestedDuration = Math.round(params.duration * 60 * 60 * 1000);
+    // Create the meeting (unless the provider is "none")
+    const meetingProvider =
+      eventType?.meetingProvider ??
+      assignedHosts[0]?.meetingProvider ??
+      getDefaultMeetingProvider();
+    const provider = getMeetingProvider(meetingProvider);
+    let meeting: MeetingRoom = {};
+    if (provider) {
+      log.info(`Creating ${meetingProvider.type} meeting with params:`, {
+        title: params.title,
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+        description,
+      });
 
-        return (
-          slot.start === startTime.toISOString() &&
-          slotDuration === requestedDuration
-        );
+      meeting = await provider.createMeeting({
+        title: params.title,
+        start: startTime.toISOString(),
+        end: endTime.toISOString(),
+        description,
       });
+    }
 
-      if (!isSlotAvailable) {
-        return {
-          success: false,
-          error: "The requested time slot is no longer available",
-        };
-      }
+    // Create calendar event with the meeting link in LOCATION and
+    // DESCRIPTION
+    const meetingParams: MeetingParams = {
+      title: params.title,
+      startTime: startTime.toISOString(),
+      endTime: endTime.toISOString(),
+      participantEmails: params.participants,
+      status: eventType?.requiresApproval ? "TENTATIVE" : "CONFIRMED",
+      ...getMeetingEventFields(meeting, description),
+    };
 
-      // check if the start day is the same as the end day
-      if (
-        startTime.toISOString().split("T")[0] !==
-        endTime.toISOString().split("T")[0]
-      ) {
-        return {
-          success: false,
-          error: "The start date and end date are not the same",
-        };
+    const events: BookingEvent[] = [];
+    let booking: Booking;
+    try {
+      if (assignedHosts.length === 0) {
+        events.push(await this.createCalendarEvent(meetingParams));
+      } else {
+        // Write the booking to the calendar of every assigned host and
+        // invite the other hosts. All copies share the UID of the meeting.
+        const uid = randomUUID();
+        for (const host of assignedHosts) {
+          const event = await this.createCalendarEvent(
+            {
+              ...meetingParams,
+              uid,
+              attendees: getHostParticipants(
+                params.participants || [],
+                assignedHosts,
+                host
+              ),
+              hostId: host.id,
+            },
+            host.targetCalendar
+          );
+          events.push({ ...event, hostId: host.id });
+        }
       }
 
-      // Create meeting room
-      log.info("Creating meeting room with params:", {
+      booking = saveBooking({
+        status: eventType?.requiresApproval ? "pending" : "confirmed",
         title: params.title,
-        startTime: startTime.toISOString(),
-        endTime: endTime.toISOString(),
-        description: params.description,
+        description,
+        start: startTime.toISOString(),
+        end: endTime.toISOString(),
+        eventType: eventType?.slug,
+        attendees: params.participants || [],
+        meetingProvider,
+        meetingId: meeting.id,
+        meetingUrl: meeting.url,
+        meetingPassword: meeting.password,
+        location: meeting.location,
+        events,
       });
+    } catch (error) {
+      // Do not leave a meeting or calendar events without a booking behind
+      await discardBooking(provider, meeting, events);
+      throw error;
+    }
+    // Bookings that wait for approval are invited once approved
+    await sendBookingMail(
+      booking,
+      booking.status === "pending" ? "requested" : "booked"
+    );
+    emitWebhookEvent("booking.created", toPublicBooking(booking));
+    const eventUid = events[0].eventUid;
 
-      const meetingResponse = await this.createMeetingRoom(
-        params.title,
-        startTime.toISOString(),
-        endTime.toISOString(),
+    return {
+      success: true,
+      bookingId: booking.id,
+      ...getBookingLinks(booking),
+      status: eventType?.requiresApproval ? "pending" : "confirmed",
+      meetingUrl: meeting.url,
+      meetingId: meeting.id,
+      meetingPassword: meeting.password,
+      eventUid,
+      hosts:
+        assignedHosts.length > 0
+          ? assignedHosts.map((host) => ({
+              id: host.id,
+              name: host.name,
+              email: host.email,
+            }))
+          : undefined,
+    };
+  }
+
+  /**
+   * Cancel a booking - deletes its meeting and calendar events.
+   * Cancelling a cancelled booking does nothing.
+   */
+  async cancelBooking(booking: Booking): Promise<BookingChangeResult> {
+    if (booking.status === "cancelled") {
+      return { success: true, booking };
+    }
+
+    try {
+      // The events first: if a step fails, the booking stays as it is and a
+      // retry deletes the rest (deleted events are skipped)
+      for (const event of booking.events) {
+        await deleteCalendarEvent(event, getEventCalendar(event));
+      }
+      const meetingProvider = getBookingMeetingProvider(booking);
+      const provider = meetingProvider && getMeetingProvider(meetingProvider);
+      if (provider) {
+        await provider.deleteMeeting(getBookingMeeting(booking));
+      }
+
+      log.info(`Cancelled booking ${booking.id}`);
+      const cancelled = updateBooking({
+        ...booking,
+        status: "cancelled",
+        sequence: booking.sequence + 1,
+      });
+      await sendBookingMail(
+        cancelled,
+        booking.status === "pending" ? "request-cancelled" : "cancelled"
+      );
+      emitWebhookEvent("booking.cancelled", toPublicBooking(cancelled));
+      return { success: true, booking: cancelled };
+    } catch (error) {
+      log.error("Error cancelling booking:", error + "");
+      return {
+        success: false,
+        error: `Failed to cancel booking: ${error instanceof Error ? error.message : String(error)}`,
+        errorCode: "PROVIDER_ERROR",
+      };
+    }
+  }
+
+  /**
+   * Approve a pending booking of an event type that requires approval -
+   * confirms its tentative calendar events and invites the attendees.
+   * Approving a confirmed booking does nothing.
+   */
+  async approveBooking(booking: Booking): Promise<BookingChangeResult> {
+    if (booking.status === "confirmed") {
+      return { success: true, booking };
+    }
+    if (booking.status === "cancelled") {
+      return {
+        success: false,
+        error: "The booking is cancelled",
+        errorCode: "INVALID_SLOT",
+      };
+    }
+
+    try {
+      const hosts = booking.events
+        .map((event) => (event.hostId ? getHost(event.hostId) : undefined))
+        .filter((host) => host !== undefined);
+      const sequence = booking.sequence + 1;
+      const events = await updateBookingEvents(
+        booking,
         {
-          description: params.description,
-        }
+          title: booking.title,
+          startTime: booking.start,
+          endTime: booking.end,
+          participantEmails: booking.attendees,
+          status: "CONFIRMED",
+          ...getMeetingEventFields(
+            {
+              url: booking.meetingUrl,
+              password: booking.meetingPassword,
+              location: booking.location,
+            },
+            booking.description
+          ),
+          sequence,
+        },
+        hosts
       );
 
-      if (meetingResponse.error) {
-        return {
-          success: false,
-          error: `Failed to create meeting room: ${meetingResponse.error.message}`,
-        };
-      }
+      log.info(`Approved booking ${booking.id}`);
+      const approved = updateBooking({
+        ...booking,
+        status: "confirmed",
+        sequence,
+        events,
+      });
+      await sendBookingMail(approved, "booked");
+      emitWebhookEvent("booking.approved", toPublicBooking(approved));
+      return { success: true, booking: approved };
+    } catch (error) {
+      log.error("Error approving booking:", error + "");
+      return {
+        success: false,
+        error: `Failed to approve booking: ${error instanceof Error ? error.message : String(error)}`,
+        errorCode: "PROVIDER_ERROR",
+      };
+    }
+  }
 
-      // Create calendar event
-      const meetingParams: MeetingParams = {
-        title: params.title,
-        startTime: startTime.toISOString(),
-        endTime: endTime.toISOString(),
-        description: params.description || "",
-        participantEmails: params.participants,
+  /**
+   * Decline a pending booking - cancels it like cancelBooking. Confirmed
+   * bookings cannot be declined.
+   */
+  async declineBooking(booking: Booking): Promise<BookingChangeResult> {
+    if (booking.status === "confirmed") {
+      return {
+        success: false,
+        error: "Only pending bookings can be declined",
+        errorCode: "INVALID_SLOT",
       };
+    }
+    return this.cancelBooking(booking);
+  }
 
-      await this.createCalendarEvent(meetingParams);
+  /**
+   * Reschedule a booking - moves its meeting and calendar events to a
+   * new slot. The booking itself does not block the new slot. Team bookings
+   * keep their hosts, so the slot must be free for them.
+   */
+  async rescheduleBooking(
+    booking: Booking,
+    params: {
+      start: string; // date and time in ISO format
+      duration?: number; // in hours, defaults to the current duration
+      // Hold of the visitor for the new slot, released after the change
+      holdId?: string;
+    }
+  ): Promise<BookingChangeResult> {
+    if (booking.status === "cancelled") {
+      return {
+        success: false,
+        error: "The booking is cancelled",
+        errorCode: "INVALID_SLOT",
+      };
+    }
 
+    const eventType = booking.eventType
+      ? getEventType(booking.eventType)
+      : undefined;
+    if (booking.eventType && !eventType) {
       return {
-        success: true,
-        meetingUrl: meetingResponse.result.url,
-        meetingId: meetingResponse.result.id,
+        success: false,
+        error: `Unknown event type: ${booking.eventType}`,
+        errorCode: "INVALID_SLOT",
       };
+    }
+
+    const hostIds = booking.events
+      .map((event) => event.hostId)
+      .filter((hostId): hostId is string => hostId !== undefined);
+
+    try {
+      const reservation = await holdSlot({
+        start: params.start,
+        duration:
+          params.duration ??
+          (new Date(booking.end).getTime() -
+            new Date(booking.start).getTime()) /
+            (60 * 60 * 1000),
+        eventType,
+        holdId: params.holdId,
+        ignoreEventUids: booking.events.map((event) => event.uid),
+        hostIds: hostIds.length > 0 ? hostIds : undefined,
+      });
+      if (!reservation.success) {
+        return reservation;
+      }
+
+      try {
+        const start = reservation.hold.start.toISOString();
+        const end = reservation.hold.end.toISOString();
+        const meetingProvider = getBookingMeetingProvider(booking);
+        const provider = meetingProvider && getMeetingProvider(meetingProvider);
+        const sequence = booking.sequence + 1;
+        let meeting = getBookingMeeting(booking);
+        let events: BookingEvent[];
+        // Changed so far, moved back if a later step fails
+        let meetingMoved = false;
+        const moved: BookingEvent[] = [];
+        try {
+          if (provider) {
+            meeting = await provider.updateMeeting(meeting, {
+              title: booking.title,
+              start,
+              end,
+              description: booking.description,
+            });
+            meetingMoved = true;
+          }
+
+          const eventParams: EventParams = {
+            title: booking.title,
+            startTime: start,
+            endTime: end,
+            participantEmails: booking.attendees,
+            status: booking.status === "pending" ? "TENTATIVE" : "CONFIRMED",
+            ...getMeetingEventFields(meeting, booking.description),
+            sequence,
+          };
+          events = await updateBookingEvents(
+            booking,
+            eventParams,
+            reservation.hosts,
+            (event) => moved.push(event)
+          );
+        } catch (error) {
+          await restoreBooking(
+            booking,
+            meetingMoved ? provider : undefined,
+            moved,
+            reservation.hosts
+          );
+          throw error;
+        }
+
+        if (params.holdId) {
+          releaseHold(params.holdId);
+        }
+        log.info(`Rescheduled booking ${booking.id} to ${start}`);
+        const rescheduled = updateBooking({
+          ...booking,
+          start,
+          end,
+          meetingId: meeting.id,
+          meetingUrl: meeting.url,
+          meetingPassword: meeting.password,
+          location: meeting.location,
+          sequence,
+          events,
+        });
+        await sendBookingMail(
+          rescheduled,
+          booking.status === "pending" ? "requested" : "rescheduled"
+        );
+        emitWebhookEvent("booking.rescheduled", {
+          ...toPublicBooking(rescheduled),
+          previousStart: booking.start,
+          previousEnd: booking.end,
+        });
+        return { success: true, booking: rescheduled };
+      } finally {
+        releaseHold(reservation.hold.id);
+      }
     } catch (error) {
-      log.error("Error booking meeting:", error + "");
+      log.error("Error rescheduling booking:", error + "");
       return {
         success: false,
-        error: `Failed to book meeting: ${error instanceof Error ? error.message : String(error)}`,
+        error: `Failed to reschedule booking: ${error instanceof Error ? error.message : String(error)}`,
+        errorCode: "PROVIDER_ERROR",
       };
     }
   }
@@ -0,0 +1,257 @@
+import { randomBytes } from "crypto";
+import log from "../../log";
+import { getCalendarTimezone } from "../../calendar/config";
+import type { MeetingDetails, MeetingProvider, MeetingRoom } from "..";
+
+export interface CreateRoomResponse {
+  result: {
+    id: string;
+    name: string;
+    url: string;
+    start_at: string;
+    end_at: string;
+    room_id: string;
+  };
+  error?: {
+    code: number;
+    message: string;
+  };
+}
+
+/**
+ * Options of the created rooms. Unset options default to the
+ * KSUITE_MEET_* environment variables.
+ */
+export interface KMeetRoomOptions {
+  lobby?: boolean;
+  // Protect every room with a new random password
+  generatePassword?: boolean;
+  recording?: boolean;
+  e2ee?: boolean;
+}
+
+// Get the room options from the environment
+function getEnvRoomOptions(): Required<KMeetRoomOptions> {
+  return {
+    lobby: process.env.KSUITE_MEET_LOBBY === "true",
+    generatePassword: process.env.KSUITE_MEET_PASSWORD === "true",
+    recording: process.env.KSUITE_MEET_RECORDING === "true",
+    e2ee: process.env.KSUITE_MEET_E2EE === "true",
+  };
+}
+
+// Generate a room password that is easy to type
+function generateRoomPassword(): string {
+  return randomBytes(9).toString("base64url");
+}
+
+// Convert ISO dates to Y-m-d H:i:s format in the given timezone
+function formatRoomDate(isoDate: string, timeZone: string): string {
+  return new Date(isoDate)
+    .toLocaleString("sv-SE", { timeZone, hour12: false })
+    .replace("T", " ");
+}
+
+/**
+ * kMeet rooms through the kSuite API
+ */
+export class KMeetProvider implements MeetingProvider {
+  private config: {
+    apiToken: string;
+    apiEndpoint: string;
+    calendarId: string;
+    hostname: string;
+    timezone: string;
+  };
+  private roomOptions: Required<KMeetRoomOptions>;
+
+  constructor(roomOptions: KMeetRoomOptions = {}) {
+    this.config = {
+      apiToken: process.env.KSUITE_API_TOKEN || "",
+      apiEndpoint:
+        process.env.KSUITE_API_ENDPOINT || "https://api.infomaniak.com",
+      calendarId: process.env.KSUITE_CALENDAR_ID || "",
+      hostname: process.env.KSUITE_MEET_HOSTNAME || "meet.infomaniak.com",
+      timezone: getCalendarTimezone(),
+    };
+    const envOptions = getEnvRoomOptions();
+    this.roomOptions = {
+      lobby: roomOptions.lobby ?? envOptions.lobby,
+      generatePassword:
+        roomOptions.generatePassword ?? envOptions.generatePassword,
+      recording: roomOptions.recording ?? envOptions.recording,
+      e2ee: roomOptions.e2ee ?? envOptions.e2ee,
+    };
+  }
+
+  /**
+   * Make an API request to kSuite API
+   */
+  private async apiRequest<T>(
+    method: string,
+    path: string,
+    body?: any
+  ): Promise<T> {
+    const url = `${this.config.apiEndpoint}${path}`;
+
+    const headers: HeadersInit = {
+      Authorization: `Bearer ${this.config.apiToken}`,
+      "Content-Type": "application/json",
+    };
+
+    const options: RequestInit = {
+      method,
+      headers,
+    };
+
+    if (body) {
+      options.body = JSON.stringify(body);
+    }
+
+    try {
+      log.info(`Making ${method} request to ${path}`);
+      const response = await fetch(url, options);
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        log.error(`API error: ${response.status} ${errorText}`);
+        throw new Error(`API error: ${response.status} ${errorText}`);
+      }
+
+      return (await response.json()) as T;
+    } catch (error) {
+      log.error("Error making API request:", error + "");
+      throw new Error(
+        `API request failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Creates a new meeting room using kMeet API
+   */
+  async createMeetingRoom(
+    name: string,
+    startAt: string,
+    endAt: string,
+    options: {
+      description?: string;
+      passwordProtected?: boolean;
+      password?: string;
+      lobby?: boolean;
+      recording?: boolean;
+      e2ee?: boolean;
+    } = {}
+  ): Promise<CreateRoomResponse> {
+    const payload = {
+      starting_at: formatRoomDate(startAt, this.config.timezone),
+      ending_at: formatRoomDate(endAt, this.config.timezone),
+      timezone: this.config.timezone,
+      hostname: this.config.hostname,
+      options: {
+        subject: name,
+        start_audio_muted: false,
+        enable_recording: options.recording || false,
+        enable_moderator_video: true,
+        start_audio_only: false,
+        lobby_enabled: options.lobby || false,
+        password_enabled: options.passwordProtected || false,
+        e2ee_enabled: options.e2ee || false,
+      },
+      description: options.description || "",
+      password_protected: options.passwordProtected || false,
+      password: options.password || "",
+      calendar_id: this.config.calendarId,
+    };
+
+    log.info(
+      "Creating meeting room with payload:",
+      JSON.stringify({ ...payload, password: "***" }, null, 2)
+    );
+
+    return await this.apiRequest<CreateRoomResponse>(
+      "POST",
+      "/1/kmeet/rooms",
+      payload
+    );
+  }
+
+  /**
+   * Moves a meeting room to a new time
+   */
+  async updateMeetingRoom(
+    id: string,
+    startAt: string,
+    endAt: string
+  ): Promise<CreateRoomResponse> {
+    return await this.apiRequest<CreateRoomResponse>(
+      "PUT",
+      `/1/kmeet/rooms/${encodeURIComponent(id)}`,
+      {
+        starting_at: formatRoomDate(startAt, this.config.timezone),
+        ending_at: formatRoomDate(endAt, this.config.timezone),
+        timezone: this.config.timezone,
+      }
+    );
+  }
+
+  /**
+   * Deletes a meeting room
+   */
+  async deleteMeetingRoom(id: string): Promise<void> {
+    await this.apiRequest<unknown>(
+      "DELETE",
+      `/1/kmeet/rooms/${encodeURIComponent(id)}`
+    );
+  }
+
+  async createMeeting(details: MeetingDetails): Promise<MeetingRoom> {
+    const password = this.roomOptions.generatePassword
+      ? generateRoomPassword()
+      : undefined;
+    const response = await this.createMeetingRoom(
+      details.title,
+      details.start,
+      details.end,
+      {
+        description: details.description,
+        passwordProtected: password !== undefined,
+        password,
+        lobby: this.roomOptions.lobby,
+        recording: this.roomOptions.recording,
+        e2ee: this.roomOptions.e2ee,
+      }
+    );
+    if (response.error) {
+      throw new Error(
+        `Failed to create meeting room: ${response.error.message}`
+      );
+    }
+    return { id: response.result.id, url: response.result.url, password };
+  }
+
+  async updateMeeting(
+    meeting: MeetingRoom,
+    details: MeetingDetails
+  ): Promise<MeetingRoom> {
+    if (!meeting.id) return meeting;
+
+    const response = await this.updateMeetingRoom(
+      meeting.id,
+      details.start,
+      details.end
+    );
+    if (response.error) {
+      throw new Error(
+        `Failed to update meeting room: ${response.error.message}`
+      );
+    }
+    return { ...meeting, url: response.result?.url || meeting.url };
+  }
+
+  async deleteMeeting(meeting: MeetingRoom): Promise<void> {
+    if (meeting.id) {
+      await this.deleteMeetingRoom(meeting.id);
+    }
+  }
+}
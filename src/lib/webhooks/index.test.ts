@@ -0,0 +1,108 @@
+import { describe, test, expect, afterAll } from "bun:test";
+import { mkdtempSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+
+const file = join(mkdtempSync(join(tmpdir(), "webhooks-")), "webhooks.json");
+writeFileSync(
+  file,
+  JSON.stringify([
+    { id: "crm", url: "https://crm.example.com/hook", secret: "s3cret" },
+    {
+      id: "bot",
+      url: "https://bot.example.com/hook",
+      secret: "other",
+      events: ["booking.cancelled"],
+    },
+  ])
+);
+process.env.CALENDAR_BOOKINGS_DB = ":memory:";
+process.env.CALENDAR_WEBHOOKS_FILE = file;
+process.env.CALENDAR_WEBHOOK_RETRY_SECONDS = "0.05";
+
+const {
+  emitWebhookEvent,
+  listWebhookDeliveries,
+  processWebhookQueue,
+  signWebhookPayload,
+} = await import(".");
+
+const requests: Request[] = [];
+const statuses = [500, 200];
+const realFetch = globalThis.fetch;
+afterAll(() => {
+  globalThis.fetch = realFetch;
+});
+globalThis.fetch = (async (url: string, init: RequestInit) => {
+  requests.push(new Request(url, init));
+  return new Response(null, { status: statuses.shift() ?? 200 });
+}) as unknown as typeof fetch;
+
+describe("webhooks", () => {
+  test("delivers signed events and retries failures", async () => {
+    emitWebhookEvent("booking.created", { id: "booking-1" });
+    await processWebhookQueue();
+
+    // Only the subscribed webhook gets the event
+    expect(requests.map((request) => request.url)).toEqual([
+      "https://crm.example.com/hook",
+    ]);
+    let [delivery] = listWebhookDeliveries();
+    expect(delivery).toMatchObject({
+      webhookId: "crm",
+      event: "booking.created",
+      status: "pending",
+      attempts: 1,
+      lastStatusCode: 500,
+    });
+
+    // The retry is due after 50 ms
+    await Bun.sleep(60);
+    await processWebhookQueue();
+    [delivery] = listWebhookDeliveries();
+    expect(delivery).toMatchObject({
+      status: "delivered",
+      attempts: 2,
+      lastStatusCode: 200,
+    });
+
+    const request = requests[1];
+    const body = await request.text();
+    expect(JSON.parse(body)).toMatchObject({
+      id: delivery.id,
+      event: "booking.created",
+      data: { id: "booking-1" },
+    });
+    const signature = request.headers.get("X-Webhook-Signature")!;
+    const timestamp = Number(signature.match(/^t=(\d+),/)![1]);
+    expect(signature).toBe(signWebhookPayload(body, "s3cret", timestamp));
+  });
+
+  test("lists the deliveries by status", async () => {
+    emitWebhookEvent("booking.cancelled", { id: "booking-1" });
+    await processWebhookQueue();
+    expect(listWebhookDeliveries({ status: "delivered" })).toHaveLength(3);
+    expect(listWebhookDeliveries({ status: "pending" })).toHaveLength(0);
+    expect(listWebhookDeliveries({ limit: 1 })).toHaveLength(1);
+  });
+
+  test("waits the default delay without a valid retry delay", async () => {
+    const seen = new Set<string>();
+    for (const seconds of ["", "0", "-5", "soon"]) {
+      process.env.CALENDAR_WEBHOOK_RETRY_SECONDS = seconds;
+      statuses.push(500);
+      emitWebhookEvent("booking.cancelled", { id: "booking-2" });
+      await processWebhookQueue();
+
+      const delivery = listWebhookDeliveries({ status: "pending" }).find(
+        (delivery) => !seen.has(delivery.id)
+      )!;
+      const delay =
+        new Date(delivery.nextAttemptAt!).getTime() -
+        new Date(delivery.updatedAt).getTime();
+      expect(delay).toBe(30 * 1000);
+      seen.add(delivery.id);
+    }
+    process.env.CALENDAR_WEBHOOK_RETRY_SECONDS = "0.05";
+  });
+});
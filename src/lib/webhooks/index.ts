@@ -0,0 +1,358 @@
+import fs from "fs";
+import path from "path";
+import { createHmac, randomUUID } from "crypto";
+import * as v from "valibot";
+import log from "../log";
+import { getDatabase } from "../bookings/store";
+
+export const webhookEvents = [
+  "booking.created",
+  "booking.cancelled",
+  "booking.rescheduled",
+  "booking.approved",
+  "booking.failed",
+] as const;
+
+export type WebhookEvent = (typeof webhookEvents)[number];
+
+const webhookSchema = v.object({
+  id: v.pipe(
+    v.string(),
+    v.regex(/^[a-z0-9-]+$/, "Webhook ids may only contain a-z, 0-9 and dashes")
+  ),
+  url: v.pipe(v.string(), v.url()),
+  // Secret to sign the deliveries with, or the name of an environment
+  // variable that holds it
+  secret: v.optional(v.string()),
+  secretEnv: v.optional(v.string()),
+  // Events to deliver, all if not set
+  events: v.optional(v.array(v.picklist(webhookEvents))),
+});
+
+/**
+ * A subscription that receives the booking events by POST
+ */
+export interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+}
+
+export type WebhookDeliveryStatus = "pending" | "delivered" | "failed";
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  // HTTP status and error of the last attempt
+  lastStatusCode?: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface WebhookDeliveryRow {
+  id: string;
+  webhook_id: string;
+  event: WebhookEvent;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Header with the HMAC-SHA256 signature of "<timestamp>.<body>"
+export const WEBHOOK_SIGNATURE_HEADER = "X-Webhook-Signature";
+
+let cachedWebhooks: Webhook[] | undefined;
+
+/**
+ * Load the webhooks from the JSON file in CALENDAR_WEBHOOKS_FILE.
+ * Returns an empty list if no file is configured.
+ */
+export function getWebhooks(): Webhook[] {
+  if (cachedWebhooks) {
+    return cachedWebhooks;
+  }
+
+  const file = process.env.CALENDAR_WEBHOOKS_FILE;
+  if (!file) {
+    cachedWebhooks = [];
+    return cachedWebhooks;
+  }
+
+  try {
+    const content = fs.readFileSync(path.resolve(process.cwd(), file), "utf8");
+    const parsed = v.parse(v.array(webhookSchema), JSON.parse(content));
+
+    cachedWebhooks = parsed.map((webhook) => {
+      const secret = webhook.secretEnv
+        ? process.env[webhook.secretEnv]
+        : webhook.secret;
+      if (!secret) {
+        throw new Error(
+          `No secret configured for webhook ${webhook.id}${webhook.secretEnv ? ` (${webhook.secretEnv} is not set)` : ""}`
+        );
+      }
+      return {
+        id: webhook.id,
+        url: webhook.url,
+        secret,
+        events: webhook.events ?? [...webhookEvents],
+      };
+    });
+    log.info(`Loaded ${cachedWebhooks.length} webhooks from ${file}`);
+    return cachedWebhooks;
+  } catch (error) {
+    throw new Error(
+      `Failed to load webhooks from ${file}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+let tableCreated = false;
+
+// Get the booking database with the delivery queue
+function getQueueDatabase() {
+  const db = getDatabase();
+  if (!tableCreated) {
+    db.exec(`CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id TEXT PRIMARY KEY,
+      webhook_id TEXT NOT NULL,
+      event TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_status_code INTEGER,
+      last_error TEXT,
+      next_attempt_at TEXT,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )`);
+    db.exec(
+      "CREATE INDEX IF NOT EXISTS webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at)"
+    );
+    tableCreated = true;
+  }
+  return db;
+}
+
+/**
+ * Sign a delivery body. Receivers compute the same HMAC over
+ * "<timestamp>.<body>" with their secret and compare it to "v1".
+ */
+export function signWebhookPayload(
+  body: string,
+  secret: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const signature = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${signature}`;
+}
+
+// Attempts before a delivery is given up
+function getMaxAttempts(): number {
+  return Number(process.env.CALENDAR_WEBHOOK_MAX_ATTEMPTS) || 8;
+}
+
+// Seconds until the next attempt, doubled after every failure up to an hour
+function getRetryDelay(attempts: number): number {
+  const seconds = Number(process.env.CALENDAR_WEBHOOK_RETRY_SECONDS);
+  const base = seconds > 0 ? seconds : 30;
+  return Math.min(base * 2 ** (attempts - 1), 60 * 60);
+}
+
+/**
+ * Queue an event for all webhooks that subscribed to it and start the
+ * delivery. Never throws, so the booking flow is not affected by webhooks.
+ */
+export function emitWebhookEvent(event: WebhookEvent, data: unknown): void {
+  try {
+    const webhooks = getWebhooks().filter((webhook) =>
+      webhook.events.includes(event)
+    );
+    if (webhooks.length === 0) return;
+
+    const db = getQueueDatabase();
+    const now = new Date().toISOString();
+    const insert = db.query(
+      `INSERT INTO webhook_deliveries (id, webhook_id, event, payload, status, attempts, next_attempt_at, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 'pending', 0, ?, ?, ?)`
+    );
+    for (const webhook of webhooks) {
+      const id = randomUUID();
+      const payload = JSON.stringify({ id, event, createdAt: now, data });
+      insert.run(id, webhook.id, event, payload, now, now, now);
+    }
+  } catch (error) {
+    log.error(
+      `Failed to queue webhook event ${event}:`,
+      error instanceof Error ? error.message : String(error)
+    );
+    return;
+  }
+
+  processWebhookQueue().catch((error) =>
+    log.error("Error processing webhook queue:", error + "")
+  );
+}
+
+// Send a delivery once and store the result
+async function deliver(row: WebhookDeliveryRow): Promise<void> {
+  const db = getQueueDatabase();
+  const webhook = getWebhooks().find(
+    (webhook) => webhook.id === row.webhook_id
+  );
+  const attempts = row.attempts + 1;
+  let statusCode: number | undefined;
+  let error: string | undefined;
+
+  if (!webhook) {
+    error = `Unknown webhook: ${row.webhook_id}`;
+  } else {
+    try {
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Webhook-Id": row.id,
+          "X-Webhook-Event": row.event,
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+            row.payload,
+            webhook.secret
+          ),
+        },
+        body: row.payload,
+        signal: AbortSignal.timeout(10_000),
+      });
+      statusCode = response.status;
+      if (!response.ok) {
+        error = `${response.status} ${response.statusText}`;
+      }
+    } catch (fetchError) {
+      error =
+        fetchError instanceof Error ? fetchError.message : String(fetchError);
+    }
+  }
+
+  const now = new Date();
+  let status: WebhookDeliveryStatus = "delivered";
+  let nextAttemptAt: string | null = null;
+  if (error) {
+    status = webhook && attempts < getMaxAttempts() ? "pending" : "failed";
+    if (status === "pending") {
+      nextAttemptAt = new Date(
+        now.getTime() + getRetryDelay(attempts) * 1000
+      ).toISOString();
+    }
+    log.error(
+      `Webhook delivery ${row.id} to ${row.webhook_id} failed (attempt ${attempts}): ${error}`
+    );
+  }
+
+  db.query(
+    `UPDATE webhook_deliveries SET status = ?, attempts = ?, last_status_code = ?, last_error = ?, next_attempt_at = ?, updated_at = ?
+    WHERE id = ?`
+  ).run(
+    status,
+    attempts,
+    statusCode ?? null,
+    error ?? null,
+    nextAttemptAt,
+    now.toISOString(),
+    row.id
+  );
+}
+
+let processing: Promise<void> | undefined;
+let processAgain = false;
+
+/**
+ * Send all deliveries that are due. Concurrent calls share one run, which
+ * looks for due deliveries again if it was called in the meantime.
+ */
+export function processWebhookQueue(): Promise<void> {
+  if (processing) {
+    processAgain = true;
+    return processing;
+  }
+
+  processing = (async () => {
+    const db = getQueueDatabase();
+    do {
+      processAgain = false;
+      const due = db
+        .query(
+          "SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY created_at"
+        )
+        .all(new Date().toISOString()) as WebhookDeliveryRow[];
+      for (const row of due) {
+        await deliver(row);
+      }
+    } while (processAgain);
+  })().finally(() => {
+    processing = undefined;
+  });
+  return processing;
+}
+
+/**
+ * Retry due deliveries every CALENDAR_WEBHOOK_QUEUE_INTERVAL seconds,
+ * including the ones left over from before a restart
+ */
+export function startWebhookWorker(): void {
+  if (getWebhooks().length === 0) return;
+
+  const interval = Number(process.env.CALENDAR_WEBHOOK_QUEUE_INTERVAL) || 30;
+  const timer = setInterval(() => {
+    processWebhookQueue().catch((error) =>
+      log.error("Error processing webhook queue:", error + "")
+    );
+  }, interval * 1000);
+  timer.unref();
+}
+
+/**
+ * Get the most recent deliveries, newest first
+ */
+export function listWebhookDeliveries(
+  options: { limit?: number; status?: WebhookDeliveryStatus } = {}
+): WebhookDelivery[] {
+  const db = getQueueDatabase();
+  const rows = (
+    options.status
+      ? db
+          .query(
+            "SELECT * FROM webhook_deliveries WHERE status = ? ORDER BY created_at DESC LIMIT ?"
+          )
+          .all(options.status, options.limit ?? 50)
+      : db
+          .query(
+            "SELECT * FROM webhook_deliveries ORDER BY created_at DESC LIMIT ?"
+          )
+          .all(options.limit ?? 50)
+  ) as WebhookDeliveryRow[];
+
+  return rows.map((row) => ({
+    id: row.id,
+    webhookId: row.webhook_id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    lastStatusCode: row.last_status_code ?? undefined,
+    lastError: row.last_error ?? undefined,
+    nextAttemptAt: row.next_attempt_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  }));
+}
@@ -0,0 +1,44 @@
+/**
+ * Script that embeds the booking page as an iframe after its script tag,
+ * or into the element of "data-target":
+ *
+ *   <script src="https://calendar.example.com/embed.js" data-event-type="intro"
+ *     data-lang="de" data-theme="dark" data-accent="#0a7f5a" async></script>
+ *
+ * The iframe grows with its content. A "calendar-booking:booked" event is
+ * dispatched on the script tag after a booking.
+ */
+export const embedScript = `(function () {
+  var script = document.currentScript;
+  if (!script) return;
+  var origin = new URL(script.src).origin;
+  var data = script.dataset;
+
+  var params = new URLSearchParams({ embed: "1" });
+  ["lang", "theme", "accent", "tz"].forEach(function (key) {
+    if (data[key]) params.set(key, data[key]);
+  });
+  var path = "/book" + (data.eventType ? "/" + encodeURIComponent(data.eventType) : "");
+
+  var iframe = document.createElement("iframe");
+  iframe.src = origin + path + "?" + params.toString();
+  iframe.title = data.title || "Booking";
+  iframe.style.cssText = "display:block;width:100%;border:0;height:" + (data.height || "600") + "px";
+  var target = data.target && document.querySelector(data.target);
+  if (target) target.appendChild(iframe);
+  else script.parentNode.insertBefore(iframe, script.nextSibling);
+
+  window.addEventListener("message", function (event) {
+    if (event.origin !== origin || event.source !== iframe.contentWindow) return;
+    var message = event.data || {};
+    if (message.type === "calendar-booking:resize" && message.height > 0) {
+      iframe.style.height = message.height + "px";
+    }
+    if (message.type === "calendar-booking:booked") {
+      script.dispatchEvent(
+        new CustomEvent("calendar-booking:booked", { detail: { status: message.status }, bubbles: true })
+      );
+    }
+  });
+})();
+`;
@@ -0,0 +1,445 @@
+import type { Context } from "hono";
+import { describeRoute } from "hono-openapi";
+import * as v from "valibot";
+import { requireScope } from "../../lib/auth";
+import {
+  getAvailableSlotsForRange,
+  getCalendarConfig,
+  type SlotOptions,
+} from "../../lib/calendar";
+import { getCalendarTimezone } from "../../lib/calendar/config";
+import {
+  formatDateInTimeZone,
+  isValidTimeZone,
+  startOfDayInTimeZone,
+} from "../../lib/calendar/timezone";
+import { getEventType, getEventTypes } from "../../lib/event-types";
+import type { EventType } from "../../lib/event-types";
+import {
+  getPageMessages,
+  pageLanguages,
+  resolvePageLanguage,
+  type PageMessages,
+} from "../../lib/booking-page/i18n";
+import { resolvePageTheme } from "../../lib/booking-page/theme";
+import type { BookingErrorCode } from "../../lib/bookings";
+import { getMailer } from "../../lib/mail";
+import KSuiteClient from "../../lib/meetings/ksuite";
+import { bookingErrorStatus } from "../bookings";
+import { embedScript } from "./embed";
+import {
+  BookingForm,
+  Confirmation,
+  EventTypeList,
+  Layout,
+  SlotPicker,
+  pageUrl,
+  type BookingFormValues,
+  type MonthSlots,
+  type PageSlot,
+  type PageState,
+} from "./views";
+import type { HonoApp } from "../../index";
+
+const HOUR_MS = 60 * 60 * 1000;
+const BASE_PATH = "/book";
+
+// Invalid values are ignored instead of failing the page
+const optionalParam = <T extends v.GenericSchema<string, string>>(schema: T) =>
+  v.fallback(v.optional(schema), undefined);
+
+export const pageQuerySchema = v.object({
+  lang: optionalParam(v.picklist(pageLanguages)),
+  theme: optionalParam(v.string()),
+  accent: optionalParam(v.string()),
+  embed: optionalParam(v.string()),
+  tz: optionalParam(v.pipe(v.string(), v.check(isValidTimeZone))),
+  month: optionalParam(v.pipe(v.string(), v.regex(/^\d{4}-(0[1-9]|1[0-2])$/))),
+  date: optionalParam(v.pipe(v.string(), v.isoDate())),
+  start: optionalParam(v.pipe(v.string(), v.isoTimestamp())),
+});
+
+export type PageQuery = v.InferOutput<typeof pageQuerySchema>;
+
+const bookingFormSchema = v.object({
+  start: v.pipe(v.string(), v.isoTimestamp()),
+  name: v.pipe(v.string(), v.trim(), v.nonEmpty(), v.maxLength(200)),
+  email: v.pipe(v.string(), v.trim(), v.email(), v.maxLength(320)),
+  notes: v.optional(v.pipe(v.string(), v.trim(), v.maxLength(2000))),
+});
+
+export const htmlResponse = {
+  description: "HTML page",
+  content: { "text/html": { schema: { type: "string" as const } } },
+};
+
+// Parameters kept in all links of the page
+const keptParams = ["lang", "theme", "accent", "embed", "tz"] as const;
+
+// The language, theme and time zone of a page from its query and headers
+export function getPageState(
+  c: Context,
+  path: string,
+  query: PageQuery
+): PageState {
+  const language = resolvePageLanguage(
+    query.lang,
+    c.req.header("Accept-Language")
+  );
+  const params: Record<string, string> = {};
+  for (const key of keptParams) {
+    const value = query[key];
+    if (value) params[key] = value;
+  }
+  return {
+    path,
+    language,
+    messages: getPageMessages(language),
+    theme: resolvePageTheme(query),
+    timeZone: query.tz || getCalendarTimezone(),
+    params,
+  };
+}
+
+// Move a month (YYYY-MM) by a number of months
+function shiftMonth(month: string, offset: number): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + offset, 1))
+    .toISOString()
+    .slice(0, 7);
+}
+
+// Duration of the booked slots in hours. Without an event type, the
+// first of CALENDAR_SLOTS_LENGTH.
+async function getSlotLength(eventType?: EventType): Promise<number> {
+  return eventType?.duration ?? (await getCalendarConfig()).slotLengths[0];
+}
+
+// The slot of a start time and a duration in hours
+export function getSlot(start: string, slotLength: number): PageSlot {
+  return {
+    start,
+    end: new Date(
+      new Date(start).getTime() + slotLength * HOUR_MS
+    ).toISOString(),
+  };
+}
+
+// Text of a failed booking for the visitor
+function getBookingErrorMessage(
+  messages: PageMessages,
+  code?: BookingErrorCode
+): string {
+  switch (code) {
+    case "SLOT_TAKEN":
+      return messages.slotTaken;
+    case "INVALID_SLOT":
+      return messages.invalidSlot;
+    default:
+      return messages.bookingFailed;
+  }
+}
+
+/**
+ * Get the free slots of the month of the query (or the current one) from
+ * today on. Throws if the calendars cannot be read.
+ */
+export async function getMonthSlots(
+  state: PageState,
+  query: PageQuery,
+  slotLength: number,
+  eventType?: EventType,
+  options?: SlotOptions
+): Promise<MonthSlots> {
+  // Past months are not shown
+  const today = formatDateInTimeZone(new Date(), state.timeZone);
+  const currentMonth = today.slice(0, 7);
+  let month = query.month ?? query.date?.slice(0, 7) ?? currentMonth;
+  if (month < currentMonth) {
+    month = currentMonth;
+  }
+  const lastDay = new Date(`${shiftMonth(month, 1)}-01T00:00:00Z`);
+  lastDay.setUTCDate(0);
+
+  const days = await getAvailableSlotsForRange(
+    startOfDayInTimeZone(
+      month === currentMonth ? today : `${month}-01`,
+      state.timeZone
+    ),
+    startOfDayInTimeZone(lastDay.toISOString().slice(0, 10), state.timeZone),
+    slotLength,
+    state.timeZone,
+    eventType,
+    options
+  );
+  return {
+    month,
+    previousMonth: month > currentMonth ? shiftMonth(month, -1) : undefined,
+    nextMonth: shiftMonth(month, 1),
+    days,
+  };
+}
+
+// Month view with the free slots of the selected day, or the form for the
+// selected slot
+async function renderBookingPage(
+  c: Context,
+  state: PageState,
+  query: PageQuery,
+  eventType?: EventType
+) {
+  const heading = eventType?.name ?? state.messages.title;
+  const slotLength = await getSlotLength(eventType);
+
+  if (query.start) {
+    return c.html(
+      <Layout state={state} heading={heading}>
+        <BookingForm
+          state={state}
+          slot={getSlot(query.start, slotLength)}
+          date={query.date}
+        />
+      </Layout>
+    );
+  }
+
+  let monthSlots: MonthSlots;
+  try {
+    monthSlots = await getMonthSlots(state, query, slotLength, eventType);
+  } catch (error) {
+    console.error("Error getting slots for the booking page:", error);
+    return c.html(
+      <Layout state={state} heading={heading}>
+        <p class="error">{state.messages.loadingFailed}</p>
+      </Layout>,
+      500
+    );
+  }
+
+  return c.html(
+    <Layout state={state} heading={heading} detectTimeZone>
+      {eventType?.description && <p class="muted">{eventType.description}</p>}
+      <SlotPicker
+        state={state}
+        monthSlots={monthSlots}
+        selectedDate={query.date}
+      />
+    </Layout>
+  );
+}
+
+function renderUnknownEventType(c: Context, state: PageState) {
+  return c.html(
+    <Layout state={state} heading={state.messages.title}>
+      <p class="error">{state.messages.unknownEventType}</p>
+    </Layout>,
+    404
+  );
+}
+
+/**
+ * Booking page for visitors and the script to embed it into other sites.
+ * The pages work without JavaScript, all state is kept in the URL.
+ */
+export function defineBookingPageRoutes(app: HonoApp) {
+  const ksuite = new KSuiteClient();
+
+  // Book the slot of the form
+  async function book(c: Context, state: PageState, eventType?: EventType) {
+    const heading = eventType?.name ?? state.messages.title;
+    const slotLength = await getSlotLength(eventType);
+    const body = await c.req.parseBody();
+    const values: BookingFormValues = {
+      name: typeof body.name === "string" ? body.name : undefined,
+      email: typeof body.email === "string" ? body.email : undefined,
+      notes: typeof body.notes === "string" ? body.notes : undefined,
+    };
+
+    const parsed = v.safeParse(bookingFormSchema, body);
+    if (!parsed.success) {
+      const field = v.getDotPath(parsed.issues[0]);
+      if (field === "start" || typeof body.start !== "string") {
+        return c.redirect(pageUrl(state), 303);
+      }
+      return c.html(
+        <Layout state={state} heading={heading}>
+          <BookingForm
+            state={state}
+            slot={getSlot(body.start, slotLength)}
+            values={values}
+            error={
+              field === "email"
+                ? state.messages.invalidEmail
+                : state.messages.invalidName
+            }
+          />
+        </Layout>,
+        400
+      );
+    }
+
+    const { start, name, email, notes } = parsed.output;
+    const slot = getSlot(start, slotLength);
+    const result = await ksuite.bookMeeting({
+      title: eventType
+        ? `${eventType.name}: ${name}`
+        : state.messages.meetingWith(name),
+      start,
+      duration: eventType ? undefined : slotLength,
+      description: notes || undefined,
+      participants: [email],
+      eventType,
+    });
+
+    if (!result.success) {
+      return c.html(
+        <Layout state={state} heading={heading}>
+          <BookingForm
+            state={state}
+            slot={slot}
+            values={values}
+            error={getBookingErrorMessage(state.messages, result.errorCode)}
+          />
+        </Layout>,
+        bookingErrorStatus[result.errorCode || "PROVIDER_ERROR"]
+      );
+    }
+
+    const status = result.status ?? "confirmed";
+    return c.html(
+      <Layout state={state} heading={heading} booked={status}>
+        <Confirmation
+          state={state}
+          slot={slot}
+          email={getMailer() ? email : undefined}
+          status={status}
+          meetingUrl={result.meetingUrl}
+          meetingPassword={result.meetingPassword}
+          cancelUrl={result.cancelUrl}
+          rescheduleUrl={result.rescheduleUrl}
+        />
+      </Layout>
+    );
+  }
+
+  // Script to embed the booking page
+  app.get(
+    "/embed.js",
+    describeRoute({
+      method: "get",
+      path: "/embed.js",
+      tags: ["booking-page"],
+      summary: "Script to embed the booking page into other sites",
+      description:
+        'Add <script src="/embed.js" data-event-type="slug" async></script> to a page. Supports data-lang, data-theme (light, dark, auto), data-accent, data-tz, data-height and data-target (CSS selector of the container).',
+      responses: {
+        200: {
+          description: "JavaScript",
+          content: {
+            "application/javascript": { schema: { type: "string" } },
+          },
+        },
+      },
+    }),
+    (c) => {
+      c.header("Content-Type", "application/javascript; charset=utf-8");
+      c.header("Cache-Control", "public, max-age=3600");
+      return c.body(embedScript);
+    }
+  );
+
+  // The event types, or the calendar owner if there are none
+  app.get(
+    BASE_PATH,
+    describeRoute({
+      method: "get",
+      path: BASE_PATH,
+      tags: ["booking-page"],
+      summary: "Booking page",
+      description:
+        "Lists the event types, or shows the free slots of the calendar owner if there are no event types. Query parameters: lang (en, de), theme (light, dark, auto), accent (hex color), embed, tz, month (YYYY-MM), date and start.",
+      responses: { 200: htmlResponse },
+    }),
+    requireScope("slots:read"),
+    async (c) => {
+      const query = v.parse(pageQuerySchema, c.req.query());
+      const state = getPageState(c, BASE_PATH, query);
+      const eventTypes = getEventTypes();
+      if (eventTypes.length === 0) {
+        return renderBookingPage(c, state, query);
+      }
+      return c.html(
+        <Layout state={state} heading={state.messages.title}>
+          <EventTypeList state={state} eventTypes={eventTypes} />
+        </Layout>
+      );
+    }
+  );
+
+  // Browsers cannot send an API key with the form, so the page only books
+  // if bookings:write is a public scope
+  app.post(
+    BASE_PATH,
+    describeRoute({
+      method: "post",
+      path: BASE_PATH,
+      tags: ["booking-page"],
+      summary: "Book a slot of the calendar owner from the booking page",
+      responses: { 200: htmlResponse, 400: htmlResponse, 404: htmlResponse },
+    }),
+    requireScope("bookings:write"),
+    async (c) => {
+      const query = v.parse(pageQuerySchema, c.req.query());
+      const state = getPageState(c, BASE_PATH, query);
+      if (getEventTypes().length > 0) {
+        return renderUnknownEventType(c, state);
+      }
+      return book(c, state);
+    }
+  );
+
+  // The free slots of an event type
+  app.get(
+    `${BASE_PATH}/:slug`,
+    describeRoute({
+      method: "get",
+      path: `${BASE_PATH}/:slug`,
+      tags: ["booking-page"],
+      summary: "Booking page of an event type",
+      responses: { 200: htmlResponse, 404: htmlResponse },
+    }),
+    requireScope("slots:read"),
+    async (c) => {
+      const query = v.parse(pageQuerySchema, c.req.query());
+      const slug = c.req.param("slug");
+      const state = getPageState(c, `${BASE_PATH}/${slug}`, query);
+      const eventType = getEventType(slug);
+      if (!eventType) {
+        return renderUnknownEventType(c, state);
+      }
+      return renderBookingPage(c, state, query, eventType);
+    }
+  );
+
+  app.post(
+    `${BASE_PATH}/:slug`,
+    describeRoute({
+      method: "post",
+      path: `${BASE_PATH}/:slug`,
+      tags: ["booking-page"],
+      summary: "Book a slot of an event type from the booking page",
+      responses: { 200: htmlResponse, 400: htmlResponse, 404: htmlResponse },
+    }),
+    requireScope("bookings:write"),
+    async (c) => {
+      const query = v.parse(pageQuerySchema, c.req.query());
+      const slug = c.req.param("slug");
+      const state = getPageState(c, `${BASE_PATH}/${slug}`, query);
+      const eventType = getEventType(slug);
+      if (!eventType) {
+        return renderUnknownEventType(c, state);
+      }
+      return book(c, state, eventType);
+    }
+  );
+}
@@ -0,0 +1,479 @@
+import type { FC, PropsWithChildren } from "hono/jsx";
+import type { EventType } from "../../lib/event-types";
+import type { PageLanguage, PageMessages } from "../../lib/booking-page/i18n";
+import type { PageTheme } from "../../lib/booking-page/theme";
+import { formatDateInTimeZone } from "../../lib/calendar/timezone";
+
+/**
+ * What a page is rendered with. "params" are kept in all links, e.g. the
+ * language, the theme and the timezone of the visitor.
+ */
+export interface PageState {
+  path: string;
+  language: PageLanguage;
+  messages: PageMessages;
+  theme: PageTheme;
+  timeZone: string;
+  params: Record<string, string>;
+}
+
+export interface PageSlot {
+  start: string;
+  end: string;
+}
+
+// Link to the page with the kept parameters and "extra"
+export function pageUrl(
+  state: PageState,
+  extra: Record<string, string | undefined> = {},
+  path: string = state.path
+): string {
+  const query = new URLSearchParams(state.params);
+  for (const [key, value] of Object.entries(extra)) {
+    if (value !== undefined) query.set(key, value);
+  }
+  const search = query.toString();
+  return search ? `${path}?${search}` : path;
+}
+
+// e.g. "Monday, June 2" for a date (YYYY-MM-DD)
+export function formatDay(date: string, language: PageLanguage): string {
+  return new Intl.DateTimeFormat(language, {
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+    timeZone: "UTC",
+  }).format(new Date(`${date}T12:00:00Z`));
+}
+
+// e.g. "09:30" for an instant in the timezone of the visitor
+export function formatTime(
+  instant: string,
+  language: PageLanguage,
+  timeZone: string
+): string {
+  return new Intl.DateTimeFormat(language, {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone,
+  }).format(new Date(instant));
+}
+
+function styles(theme: PageTheme): string {
+  const dark =
+    "--bg:#1c1c1e;--fg:#f5f5f7;--muted:#a1a1a6;--border:#3a3a3c;--surface:#2c2c2e;";
+  return `
+body{--accent:${theme.accent};--bg:#fff;--fg:#1d1d1f;--muted:#6e6e73;--border:#d2d2d7;--surface:#f5f5f7;margin:0;background:var(--bg);color:var(--fg);font:16px/1.5 system-ui,-apple-system,"Segoe UI",sans-serif}
+body.theme-dark{${dark}}
+@media (prefers-color-scheme:dark){body.theme-auto{${dark}}}
+body.embed{background:transparent}
+main{max-width:44rem;margin:0 auto;padding:2rem 1rem}
+body.embed main{padding:1rem}
+h1{font-size:1.5rem;margin:0 0 .25rem}
+h2{font-size:1.1rem;margin:1.5rem 0 .75rem}
+p.muted,.muted{color:var(--muted);font-size:.9rem}
+a{color:var(--accent)}
+.error{border:1px solid #d93025;color:#d93025;border-radius:.5rem;padding:.5rem .75rem}
+.month-nav{display:flex;align-items:center;justify-content:space-between;margin:1rem 0 .5rem}
+.month-nav span{font-weight:600}
+.month-nav a,.month-nav .disabled{text-decoration:none;font-size:1.25rem;padding:0 .5rem}
+.month-nav .disabled{color:var(--border)}
+table.month{width:100%;border-collapse:collapse;table-layout:fixed;text-align:center}
+table.month th{font-size:.8rem;font-weight:500;color:var(--muted);padding:.25rem 0}
+table.month td{padding:.2rem}
+table.month a,table.month span{display:block;border-radius:50%;aspect-ratio:1;max-width:2.75rem;margin:0 auto;line-height:2.75rem;text-decoration:none}
+table.month a{background:var(--surface);color:var(--accent);font-weight:600}
+table.month a.selected{background:var(--accent);color:#fff}
+table.month span{color:var(--muted)}
+ul.slots{list-style:none;padding:0;display:grid;grid-template-columns:repeat(auto-fill,minmax(6.5rem,1fr));gap:.5rem}
+ul.slots a,button{display:block;border:1px solid var(--accent);border-radius:.5rem;padding:.5rem;text-align:center;text-decoration:none;color:var(--accent);background:transparent;font:inherit;font-weight:600;cursor:pointer}
+ul.slots a:hover{background:var(--accent);color:#fff}
+button{background:var(--accent);color:#fff;width:100%;margin-top:1rem}
+ul.event-types{list-style:none;padding:0}
+ul.event-types li{border:1px solid var(--border);border-radius:.5rem;margin-bottom:.75rem}
+ul.event-types a{display:block;padding:.75rem 1rem;text-decoration:none;color:var(--fg)}
+ul.event-types strong{color:var(--accent)}
+label{display:block;margin-top:.75rem;font-weight:500}
+input,textarea{box-sizing:border-box;width:100%;margin-top:.25rem;padding:.5rem;border:1px solid var(--border);border-radius:.5rem;background:var(--bg);color:var(--fg);font:inherit}
+`;
+}
+
+// Add the timezone of the browser to the URL and tell the embedding page
+// the height of the content
+function script(options: { detectTimeZone: boolean; booked?: string }): string {
+  return `(function(){
+var url=new URL(location.href);
+var tz=Intl.DateTimeFormat().resolvedOptions().timeZone;
+if(${options.detectTimeZone}&&tz&&!url.searchParams.has("tz")){url.searchParams.set("tz",tz);location.replace(url.toString());return}
+if(window.parent===window)return;
+function resize(){parent.postMessage({type:"calendar-booking:resize",height:document.documentElement.scrollHeight},"*")}
+resize();if(window.ResizeObserver)new ResizeObserver(resize).observe(document.body);
+${options.booked ? `parent.postMessage({type:"calendar-booking:booked",status:${JSON.stringify(options.booked)}},"*");` : ""}
+})();`;
+}
+
+/**
+ * The HTML document of all booking pages
+ */
+export const Layout: FC<
+  PropsWithChildren<{
+    state: PageState;
+    heading: string;
+    detectTimeZone?: boolean;
+    booked?: string;
+  }>
+> = ({ state, heading, detectTimeZone = false, booked, children }) => (
+  <html lang={state.language}>
+    <head>
+      <meta charset="utf-8" />
+      <meta name="viewport" content="width=device-width, initial-scale=1" />
+      <meta name="robots" content="noindex" />
+      <title>{heading}</title>
+      <style dangerouslySetInnerHTML={{ __html: styles(state.theme) }} />
+    </head>
+    <body
+      class={`theme-${state.theme.mode}${state.theme.embed ? " embed" : ""}`}
+    >
+      <main>
+        <h1>{heading}</h1>
+        {children}
+      </main>
+      <script
+        dangerouslySetInnerHTML={{
+          __html: script({ detectTimeZone, booked }),
+        }}
+      />
+    </body>
+  </html>
+);
+
+// Duration of an event type as text, e.g. "30 min"
+function formatDuration(hours: number, messages: PageMessages): string {
+  return messages.minutes(Math.round(hours * 60));
+}
+
+export const EventTypeList: FC<{
+  state: PageState;
+  eventTypes: EventType[];
+}> = ({ state, eventTypes }) => (
+  <>
+    <p class="muted">{state.messages.chooseEventType}</p>
+    <ul class="event-types">
+      {eventTypes.map((eventType) => (
+        <li>
+          <a href={pageUrl(state, {}, `${state.path}/${eventType.slug}`)}>
+            <strong>{eventType.name}</strong>{" "}
+            <span class="muted">
+              {formatDuration(eventType.duration, state.messages)}
+            </span>
+            {eventType.description && (
+              <div class="muted">{eventType.description}</div>
+            )}
+          </a>
+        </li>
+      ))}
+    </ul>
+  </>
+);
+
+/**
+ * A month with links to the days that have free slots
+ */
+export const MonthView: FC<{
+  state: PageState;
+  month: string; // YYYY-MM
+  previousMonth?: string;
+  nextMonth: string;
+  slotCounts: Map<string, number>;
+  selectedDate?: string;
+}> = ({ state, month, previousMonth, nextMonth, slotCounts, selectedDate }) => {
+  const first = new Date(`${month}-01T00:00:00Z`);
+  const dayCount = new Date(
+    Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  // Weeks start on Monday
+  const leading = (first.getUTCDay() + 6) % 7;
+  const cells: (number | undefined)[] = [
+    ...Array<undefined>(leading).fill(undefined),
+    ...Array.from({ length: dayCount }, (_, index) => index + 1),
+  ];
+  const weeks: (number | undefined)[][] = [];
+  for (let index = 0; index < cells.length; index += 7) {
+    weeks.push(cells.slice(index, index + 7));
+  }
+
+  // 2024-01-01 was a Monday
+  const weekdays = Array.from({ length: 7 }, (_, index) =>
+    new Intl.DateTimeFormat(state.language, {
+      weekday: "short",
+      timeZone: "UTC",
+    }).format(new Date(Date.UTC(2024, 0, 1 + index)))
+  );
+  const label = new Intl.DateTimeFormat(state.language, {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  }).format(first);
+
+  return (
+    <>
+      <nav class="month-nav">
+        {previousMonth ? (
+          <a
+            href={pageUrl(state, { month: previousMonth })}
+            aria-label={state.messages.previousMonth}
+          >
+            ‹
+          </a>
+        ) : (
+          <span class="disabled">‹</span>
+        )}
+        <span>{label}</span>
+        <a
+          href={pageUrl(state, { month: nextMonth })}
+          aria-label={state.messages.nextMonth}
+        >
+          ›
+        </a>
+      </nav>
+      <table class="month">
+        <thead>
+          <tr>
+            {weekdays.map((weekday) => (
+              <th>{weekday}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {weeks.map((week) => (
+            <tr>
+              {Array.from({ length: 7 }, (_, index) => {
+                const day = week[index];
+                if (day === undefined) return <td></td>;
+                const date = `${month}-${String(day).padStart(2, "0")}`;
+                return (
+                  <td>
+                    {slotCounts.get(date) ? (
+                      <a
+                        href={pageUrl(state, { month, date })}
+                        class={date === selectedDate ? "selected" : undefined}
+                      >
+                        {day}
+                      </a>
+                    ) : (
+                      <span>{day}</span>
+                    )}
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {slotCounts.size === 0 && (
+        <p class="muted">{state.messages.noSlotsInMonth}</p>
+      )}
+    </>
+  );
+};
+
+export const SlotList: FC<{
+  state: PageState;
+  date: string;
+  slots: PageSlot[];
+}> = ({ state, date, slots }) => (
+  <>
+    <h2>{state.messages.chooseTime(formatDay(date, state.language))}</h2>
+    {slots.length === 0 ? (
+      <p class="muted">{state.messages.noSlotsOnDay}</p>
+    ) : (
+      <ul class="slots">
+        {slots.map((slot) => (
+          <li>
+            <a href={pageUrl(state, { date, start: slot.start })}>
+              {formatTime(slot.start, state.language, state.timeZone)}
+            </a>
+          </li>
+        ))}
+      </ul>
+    )}
+    <p class="muted">{state.messages.timesIn(state.timeZone)}</p>
+  </>
+);
+
+/**
+ * The free slots of a month, see getMonthSlots
+ */
+export interface MonthSlots {
+  month: string; // YYYY-MM
+  previousMonth?: string;
+  nextMonth: string;
+  days: { date: string; slots: PageSlot[] }[];
+}
+
+/**
+ * The month view with the free slots of the selected day
+ */
+export const SlotPicker: FC<{
+  state: PageState;
+  monthSlots: MonthSlots;
+  selectedDate?: string;
+}> = ({ state, monthSlots, selectedDate }) => {
+  const slotCounts = new Map(
+    monthSlots.days
+      .filter((day) => day.slots.length > 0)
+      .map((day) => [day.date, day.slots.length])
+  );
+  const selected = monthSlots.days.find((day) => day.date === selectedDate);
+
+  return (
+    <>
+      <MonthView
+        state={state}
+        month={monthSlots.month}
+        previousMonth={monthSlots.previousMonth}
+        nextMonth={monthSlots.nextMonth}
+        slotCounts={slotCounts}
+        selectedDate={selected?.date}
+      />
+      {selected ? (
+        <SlotList state={state} date={selected.date} slots={selected.slots} />
+      ) : (
+        slotCounts.size > 0 && <p class="muted">{state.messages.chooseDay}</p>
+      )}
+    </>
+  );
+};
+
+// e.g. "Monday, June 2, 09:30 – 10:00"
+export const SlotSummary: FC<{ state: PageState; slot: PageSlot }> = ({
+  state,
+  slot,
+}) => (
+  <p>
+    <strong>
+      {formatDay(
+        formatDateInTimeZone(new Date(slot.start), state.timeZone),
+        state.language
+      )}
+      , {formatTime(slot.start, state.language, state.timeZone)} –{" "}
+      {formatTime(slot.end, state.language, state.timeZone)}
+    </strong>
+    <br />
+    <span class="muted">{state.messages.timesIn(state.timeZone)}</span>
+  </p>
+);
+
+export interface BookingFormValues {
+  name?: string;
+  email?: string;
+  notes?: string;
+}
+
+export const BookingForm: FC<{
+  state: PageState;
+  slot: PageSlot;
+  date?: string;
+  values?: BookingFormValues;
+  error?: string;
+}> = ({ state, slot, date, values = {}, error }) => (
+  <>
+    <SlotSummary state={state} slot={slot} />
+    <p>
+      <a href={pageUrl(state, { date })}>‹ {state.messages.back}</a>
+    </p>
+    <h2>{state.messages.yourDetails}</h2>
+    {error && (
+      <p class="error" role="alert">
+        {error}
+      </p>
+    )}
+    <form method="post" action={pageUrl(state)}>
+      <input type="hidden" name="start" value={slot.start} />
+      <label>
+        {state.messages.name}
+        <input
+          name="name"
+          required
+          maxlength={200}
+          autocomplete="name"
+          value={values.name}
+        />
+      </label>
+      <label>
+        {state.messages.email}
+        <input
+          name="email"
+          type="email"
+          required
+          maxlength={320}
+          autocomplete="email"
+          value={values.email}
+        />
+      </label>
+      <label>
+        {state.messages.notes}
+        <textarea name="notes" rows={3} maxlength={2000}>
+          {values.notes}
+        </textarea>
+      </label>
+      <button type="submit">{state.messages.confirm}</button>
+    </form>
+  </>
+);
+
+export const Confirmation: FC<{
+  state: PageState;
+  slot: PageSlot;
+  // Address the confirmation was mailed to, if mails are sent
+  email?: string;
+  status: "confirmed" | "pending";
+  meetingUrl?: string;
+  meetingPassword?: string;
+  // Links to the pages to cancel or reschedule the booking
+  cancelUrl?: string;
+  rescheduleUrl?: string;
+}> = ({
+  state,
+  slot,
+  email,
+  status,
+  meetingUrl,
+  meetingPassword,
+  cancelUrl,
+  rescheduleUrl,
+}) => (
+  <>
+    <h2>
+      {status === "pending" ? state.messages.pending : state.messages.booked}
+    </h2>
+    <SlotSummary state={state} slot={slot} />
+    {email && <p>{state.messages.confirmationSent(email)}</p>}
+    {meetingUrl && status === "confirmed" && (
+      <p>
+        <a href={meetingUrl} target="_blank" rel="noopener">
+          {state.messages.joinMeeting}
+        </a>
+        {meetingPassword && (
+          <>
+            <br />
+            <span class="muted">
+              {state.messages.meetingPassword}: {meetingPassword}
+            </span>
+          </>
+        )}
+      </p>
+    )}
+    {cancelUrl && rescheduleUrl && (
+      <p class="muted">
+        <a href={rescheduleUrl} target="_top">
+          {state.messages.rescheduleBooking}
+        </a>{" "}
+        ·{" "}
+        <a href={cancelUrl} target="_top">
+          {state.messages.cancelBooking}
+        </a>
+      </p>
+    )}
+  </>
+);
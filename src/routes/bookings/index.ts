@@ -0,0 +1,339 @@
+import { describeRoute } from "hono-openapi";
+import { resolver, validator } from "hono-openapi/valibot";
+import * as v from "valibot";
+import type { BookingErrorCode } from "../../lib/bookings";
+import { getBooking, toPublicBooking } from "../../lib/bookings/store";
+import KSuiteClient from "../../lib/meetings/ksuite";
+import type { HonoApp } from "../../index";
+
+// HTTP status codes for the typed booking errors
+export const bookingErrorStatus: Record<BookingErrorCode, 400 | 409 | 424> = {
+  INVALID_SLOT: 400,
+  SLOT_TAKEN: 409,
+  PROVIDER_ERROR: 424,
+};
+
+const bookingSchema = v.object({
+  id: v.string(),
+  status: v.picklist(["confirmed", "pending", "cancelled"]),
+  title: v.string(),
+  start: v.string(),
+  end: v.string(),
+  eventType: v.optional(v.string()),
+  attendees: v.array(v.string()),
+  meetingUrl: v.optional(v.string()),
+  meetingId: v.optional(v.string()),
+  eventUid: v.optional(v.string()),
+  hostIds: v.optional(v.array(v.string())),
+  createdAt: v.string(),
+  updatedAt: v.string(),
+});
+
+export const bookingErrorSchema = v.object({
+  error: v.string(),
+  code: v.picklist(["INVALID_SLOT", "SLOT_TAKEN", "PROVIDER_ERROR"]),
+});
+
+const notFoundSchema = v.object({ error: v.string() });
+
+export function defineBookingRoutes(app: HonoApp) {
+  const ksuite = new KSuiteClient();
+
+  // Look up a booking
+  app.get(
+    "/admin/bookings/:id",
+    describeRoute({
+      method: "get",
+      path: "/admin/bookings/:id",
+      tags: ["bookings"],
+      summary: "Get a booking",
+      responses: {
+        200: {
+          description: "Successful response",
+          content: {
+            "application/json": {
+              schema: resolver(bookingSchema),
+            },
+          },
+        },
+        404: {
+          description: "Unknown booking",
+          content: {
+            "application/json": {
+              schema: resolver(notFoundSchema),
+            },
+          },
+        },
+      },
+    }),
+    (c) => {
+      const booking = getBooking(c.req.param("id"));
+      if (!booking) {
+        return c.json({ error: "Unknown booking" }, 404);
+      }
+      return c.json(toPublicBooking(booking));
+    }
+  );
+
+  // Cancel a booking
+  app.post(
+    "/admin/bookings/:id/cancel",
+    describeRoute({
+      method: "post",
+      path: "/admin/bookings/:id/cancel",
+      tags: ["bookings"],
+      summary: "Cancel a booking",
+      description:
+        "Deletes the meeting and the calendar events of the booking. Cancelling a cancelled booking returns it unchanged.",
+      responses: {
+        200: {
+          description: "Booking cancelled",
+          content: {
+            "application/json": {
+              schema: resolver(bookingSchema),
+            },
+          },
+        },
+        404: {
+          description: "Unknown booking",
+          content: {
+            "application/json": {
+              schema: resolver(notFoundSchema),
+            },
+          },
+        },
+        424: {
+          description: "The meeting provider or the CalDAV server failed",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+      },
+    }),
+    async (c) => {
+      const booking = getBooking(c.req.param("id"));
+      if (!booking) {
+        return c.json({ error: "Unknown booking" }, 404);
+      }
+
+      const result = await ksuite.cancelBooking(booking);
+      if (!result.success) {
+        return c.json(
+          { error: result.error, code: result.errorCode },
+          bookingErrorStatus[result.errorCode]
+        );
+      }
+      return c.json(toPublicBooking(result.booking));
+    }
+  );
+
+  // Approve a booking that waits for approval
+  app.post(
+    "/admin/bookings/:id/approve",
+    describeRoute({
+      method: "post",
+      path: "/admin/bookings/:id/approve",
+      tags: ["bookings"],
+      summary: "Approve a pending booking",
+      description:
+        "Confirms the tentative calendar events of a booking of an event type that requires approval. Approving a confirmed booking returns it unchanged.",
+      responses: {
+        200: {
+          description: "Booking approved",
+          content: {
+            "application/json": {
+              schema: resolver(bookingSchema),
+            },
+          },
+        },
+        400: {
+          description: "Cancelled booking",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+        404: {
+          description: "Unknown booking",
+          content: {
+            "application/json": {
+              schema: resolver(notFoundSchema),
+            },
+          },
+        },
+        424: {
+          description: "The meeting provider or the CalDAV server failed",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+      },
+    }),
+    async (c) => {
+      const booking = getBooking(c.req.param("id"));
+      if (!booking) {
+        return c.json({ error: "Unknown booking" }, 404);
+      }
+
+      const result = await ksuite.approveBooking(booking);
+      if (!result.success) {
+        return c.json(
+          { error: result.error, code: result.errorCode },
+          bookingErrorStatus[result.errorCode]
+        );
+      }
+      return c.json(toPublicBooking(result.booking));
+    }
+  );
+
+  // Decline a booking that waits for approval
+  app.post(
+    "/admin/bookings/:id/decline",
+    describeRoute({
+      method: "post",
+      path: "/admin/bookings/:id/decline",
+      tags: ["bookings"],
+      summary: "Decline a pending booking",
+      description:
+        "Deletes the meeting and the calendar events of a booking that waits for approval, like cancelling it. Confirmed bookings cannot be declined.",
+      responses: {
+        200: {
+          description: "Booking declined",
+          content: {
+            "application/json": {
+              schema: resolver(bookingSchema),
+            },
+          },
+        },
+        400: {
+          description: "Confirmed booking",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+        404: {
+          description: "Unknown booking",
+          content: {
+            "application/json": {
+              schema: resolver(notFoundSchema),
+            },
+          },
+        },
+        424: {
+          description: "The meeting provider or the CalDAV server failed",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+      },
+    }),
+    async (c) => {
+      const booking = getBooking(c.req.param("id"));
+      if (!booking) {
+        return c.json({ error: "Unknown booking" }, 404);
+      }
+
+      const result = await ksuite.declineBooking(booking);
+      if (!result.success) {
+        return c.json(
+          { error: result.error, code: result.errorCode },
+          bookingErrorStatus[result.errorCode]
+        );
+      }
+      return c.json(toPublicBooking(result.booking));
+    }
+  );
+
+  // Move a booking to another slot
+  app.post(
+    "/admin/bookings/:id/reschedule",
+    describeRoute({
+      method: "post",
+      path: "/admin/bookings/:id/reschedule",
+      tags: ["bookings"],
+      summary: "Reschedule a booking",
+      description:
+        "Moves the meeting and the calendar events of the booking to a new slot. The slot must be available, the booking itself does not block it. Team bookings keep their hosts. Pass the holdId of a held slot to reschedule to it.",
+      responses: {
+        200: {
+          description: "Booking rescheduled",
+          content: {
+            "application/json": {
+              schema: resolver(bookingSchema),
+            },
+          },
+        },
+        400: {
+          description: "Invalid slot or cancelled booking",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+        404: {
+          description: "Unknown booking",
+          content: {
+            "application/json": {
+              schema: resolver(notFoundSchema),
+            },
+          },
+        },
+        409: {
+          description: "The slot is already taken",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+        424: {
+          description: "The meeting provider or the CalDAV server failed",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+      },
+    }),
+    validator(
+      "json",
+      v.object({
+        start: v.pipe(
+          v.string("Start is required"),
+          v.isoTimestamp("Start must be an ISO timestamp")
+        ),
+        duration: v.optional(v.number("Duration must be a number (in hours)")),
+        holdId: v.optional(v.string()),
+      })
+    ),
+    async (c) => {
+      const booking = getBooking(c.req.param("id"));
+      if (!booking) {
+        return c.json({ error: "Unknown booking" }, 404);
+      }
+
+      const result = await ksuite.rescheduleBooking(
+        booking,
+        c.req.valid("json")
+      );
+      if (!result.success) {
+        return c.json(
+          { error: result.error, code: result.errorCode },
+          bookingErrorStatus[result.errorCode]
+        );
+      }
+      return c.json(toPublicBooking(result.booking));
+    }
+  );
+}
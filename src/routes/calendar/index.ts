@@ -1,19 +1,75 @@
 import { describeRoute } from "hono-openapi";
 import { resolver, validator } from "hono-openapi/valibot";
 import * as v from "valibot";
+import { requireScope } from "../../lib/auth";
 import {
   getAvailableSlotsForDay,
+  getAvailableSlotsForRange,
+  getBusyTimesForRange,
+  MAX_RANGE_DAYS,
+  parseSlotLength,
   testCalDAVConnection,
 } from "../../lib/calendar";
+import {
+  getCalendarTimezone,
+  getEnvConfig,
+  MAX_BUSY_RANGE_DAYS,
+} from "../../lib/calendar/config";
+import {
+  generateFreeBusyICS,
+  getFreeBusyDays,
+  isFreeBusyTokenValid,
+} from "../../lib/calendar/freebusy";
+import {
+  isValidTimeZone,
+  startOfDayInTimeZone,
+} from "../../lib/calendar/timezone";
+import { getDateOverridesInRange } from "../../lib/calendar/overrides";
+import { invalidateCalendarCache } from "../../lib/calendar/event-store";
+import { getEventType } from "../../lib/event-types";
+import KSuiteClient from "../../lib/meetings/ksuite";
+import type { BookMeetingResult } from "../../lib/meetings/ksuite";
+import { holdSlot } from "../../lib/bookings";
+import { releaseHold } from "../../lib/bookings/holds";
+import { runIdempotent } from "../../lib/bookings/idempotency";
+import { bookingErrorSchema, bookingErrorStatus } from "../bookings";
 import type { HonoApp } from "../../index";
 
+// Optional "tz" query parameter to show the slots in the visitor's timezone
+const timeZoneQuerySchema = v.optional(
+  v.pipe(
+    v.string(),
+    v.check(
+      isValidTimeZone,
+      "Invalid timezone. Use an IANA name like Europe/Berlin."
+    ),
+    v.description(
+      "IANA timezone of the visitor. The dates are read in this timezone and the slots are returned with its UTC offset. Defaults to the timezone of the calendar owner (UTC output)."
+    )
+  )
+);
+
+// Optional "Idempotency-Key" header to retry bookings safely
+const idempotencyHeaderSchema = v.object({
+  "idempotency-key": v.optional(
+    v.pipe(
+      v.string(),
+      v.nonEmpty(),
+      v.maxLength(255),
+      v.description(
+        "Unique key of the booking request. Retries with the same key return the first result instead of booking again."
+      )
+    )
+  ),
+});
+
 export function defineCalendarRoutes(app: HonoApp) {
   // Test CalDAV connection
   app.get(
-    "/calendar/test-connection",
+    "/admin/calendar/test-connection",
     describeRoute({
       method: "get",
-      path: "/calendar/test-connection",
+      path: "/admin/calendar/test-connection",
       tags: ["calendar"],
       summary: "Test CalDAV connection",
       responses: {
@@ -61,6 +117,212 @@ export function defineCalendarRoutes(app: HonoApp) {
     }
   );
 
+  // Drop the cached CalDAV connections, calendar lists and events
+  app.post(
+    "/admin/calendar/cache/invalidate",
+    describeRoute({
+      method: "post",
+      path: "/admin/calendar/cache/invalidate",
+      tags: ["calendar"],
+      summary: "Invalidate the calendar cache",
+      description:
+        "Drops the cached CalDAV connections, calendar lists and events. The next request loads them again from the server.",
+      responses: {
+        200: {
+          description: "Cache invalidated",
+          content: {
+            "application/json": {
+              schema: resolver(v.object({ status: v.string() })),
+            },
+          },
+        },
+      },
+    }),
+    (c) => {
+      invalidateCalendarCache();
+      return c.json({ status: "success" });
+    }
+  );
+
+  // List the date overrides, blackouts and holidays in effect
+  app.get(
+    "/admin/calendar/overrides",
+    describeRoute({
+      method: "get",
+      path: "/admin/calendar/overrides",
+      tags: ["calendar"],
+      summary: "List the date overrides, blackouts and holidays in effect",
+      description:
+        'Returns all dates from "from" to "to" (inclusive) whose availability differs from the weekday configuration. Blackouts and holidays close the whole day, hour overrides replace the working hours of the day.',
+      responses: {
+        200: {
+          description: "Successful response",
+          content: {
+            "application/json": {
+              schema: resolver(
+                v.array(
+                  v.object({
+                    date: v.string(),
+                    type: v.picklist(["hours", "blackout", "holiday"]),
+                    hours: v.optional(v.string()),
+                    reason: v.optional(v.string()),
+                  })
+                )
+              ),
+            },
+          },
+        },
+        400: {
+          description: "Error response",
+          content: {
+            "application/json": {
+              schema: resolver(
+                v.object({
+                  error: v.string(),
+                })
+              ),
+            },
+          },
+        },
+      },
+    }),
+    validator(
+      "query",
+      v.object({
+        from: v.pipe(
+          v.string("From parameter is required"),
+          v.isoDate("Invalid from date format. Use YYYY-MM-DD.")
+        ),
+        to: v.pipe(
+          v.string("To parameter is required"),
+          v.isoDate("Invalid to date format. Use YYYY-MM-DD.")
+        ),
+      })
+    ),
+    async (c) => {
+      const { from, to } = c.req.valid("query");
+
+      if (to < from) {
+        return c.json(
+          { error: "The end date must not be before the start date" },
+          400
+        );
+      }
+
+      try {
+        return c.json(getDateOverridesInRange(from, to));
+      } catch (error) {
+        console.error("Error getting date overrides:", error);
+        return c.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+          },
+          400
+        );
+      }
+    }
+  );
+
+  // Get available slots for a range of days
+  app.get(
+    "/calendar/slots",
+    describeRoute({
+      method: "get",
+      path: "/calendar/slots",
+      tags: ["calendar"],
+      summary: "Get available slots for a range of days",
+      description: `Returns the available slots grouped by day for all days from "from" to "to" (inclusive). The range must not be longer than ${MAX_RANGE_DAYS} days.`,
+      responses: {
+        200: {
+          description: "Successful response",
+          content: {
+            "application/json": {
+              schema: resolver(
+                v.array(
+                  v.object({
+                    date: v.string(),
+                    slots: v.array(
+                      v.object({
+                        start: v.string(),
+                        end: v.string(),
+                      })
+                    ),
+                  })
+                )
+              ),
+            },
+          },
+        },
+        400: {
+          description: "Error response",
+          content: {
+            "application/json": {
+              schema: resolver(
+                v.object({
+                  error: v.string(),
+                })
+              ),
+            },
+          },
+        },
+      },
+    }),
+    requireScope("slots:read"),
+    validator(
+      "query",
+      v.object({
+        from: v.pipe(
+          v.string("From parameter is required"),
+          v.isoDate("Invalid from date format. Use YYYY-MM-DD.")
+        ),
+        to: v.pipe(
+          v.string("To parameter is required"),
+          v.isoDate("Invalid to date format. Use YYYY-MM-DD.")
+        ),
+        slotLength: v.optional(
+          v.pipe(
+            v.string(),
+            v.description(
+              'Slot length in hours ("0.5") or with a unit ("45m", "1.5h")'
+            )
+          )
+        ),
+        tz: timeZoneQuerySchema,
+      })
+    ),
+    async (c) => {
+      const { from, to, slotLength, tz } = c.req.valid("query");
+
+      const timeZone = tz || getCalendarTimezone();
+      const fromDate = startOfDayInTimeZone(from, timeZone);
+      const toDate = startOfDayInTimeZone(to, timeZone);
+      if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+        return c.json(
+          { error: "Invalid date. Please provide a valid date." },
+          400
+        );
+      }
+
+      try {
+        const slotsByDay = await getAvailableSlotsForRange(
+          fromDate,
+          toDate,
+          parseSlotLength(slotLength ?? "1"),
+          tz
+        );
+        return c.json(slotsByDay);
+      } catch (error) {
+        console.error("Error getting available slots:", error);
+        return c.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+          },
+          400
+        );
+      }
+    }
+  );
+
   // Get available slots for a specific day
   app.get(
     "/calendar/slots/:date",
@@ -95,6 +357,7 @@ export function defineCalendarRoutes(app: HonoApp) {
         },
       },
     }),
+    requireScope("slots:read"),
     validator(
       "param",
       v.object({
@@ -104,27 +367,35 @@ export function defineCalendarRoutes(app: HonoApp) {
     validator(
       "query",
       v.object({
-        slotLength: v.optional(v.string()),
+        slotLength: v.optional(
+          v.pipe(
+            v.string(),
+            v.description(
+              'Slot length in hours ("0.5") or with a unit ("45m", "1.5h")'
+            )
+          )
+        ),
+        tz: timeZoneQuerySchema,
       })
     ),
     async (c) => {
       try {
         const { date } = c.req.valid("param");
-        let { slotLength } = c.req.valid("query");
+        let { slotLength, tz } = c.req.valid("query");
 
         // Convert slotLength to number if provided as string
         if (slotLength == undefined) {
           slotLength = "1";
         }
-        const slotLengthNum = Number(slotLength);
+        const slotLengthNum = parseSlotLength(slotLength);
 
         // Validate date format (YYYY-MM-DD)
         if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
           return c.json({ error: "Invalid date format. Use YYYY-MM-DD." }, 400);
         }
 
-        // Parse the date string to a Date object
-        const dateObj = new Date(date);
+        // Parse the date string to the start of the day in the requested timezone
+        const dateObj = startOfDayInTimeZone(date, tz || getCalendarTimezone());
 
         // Check if the date is valid
         if (isNaN(dateObj.getTime())) {
@@ -138,7 +409,8 @@ export function defineCalendarRoutes(app: HonoApp) {
         try {
           const availableSlots = await getAvailableSlotsForDay(
             dateObj,
-            slotLengthNum
+            slotLengthNum,
+            tz
           );
           return c.json(availableSlots);
         } catch (error) {
@@ -161,4 +433,464 @@ export function defineCalendarRoutes(app: HonoApp) {
       }
     }
   );
+
+  // Busy times of the owner without event details
+  app.get(
+    "/calendar/busy",
+    describeRoute({
+      method: "get",
+      path: "/calendar/busy",
+      tags: ["calendar"],
+      summary: "Get the busy times of a range of days",
+      description: `Returns the merged busy times of all conflict calendars from "from" to "to" (inclusive, days in the timezone of the calendar owner) without summaries or other details. Buffers and held slots are not included. The range must not be longer than ${MAX_BUSY_RANGE_DAYS} days.`,
+      responses: {
+        200: {
+          description: "Successful response",
+          content: {
+            "application/json": {
+              schema: resolver(
+                v.array(v.object({ start: v.string(), end: v.string() }))
+              ),
+            },
+          },
+        },
+        400: {
+          description: "Error response",
+          content: {
+            "application/json": {
+              schema: resolver(v.object({ error: v.string() })),
+            },
+          },
+        },
+      },
+    }),
+    requireScope("slots:read"),
+    validator(
+      "query",
+      v.object({
+        from: v.pipe(
+          v.string("From parameter is required"),
+          v.isoDate("Invalid from date format. Use YYYY-MM-DD.")
+        ),
+        to: v.pipe(
+          v.string("To parameter is required"),
+          v.isoDate("Invalid to date format. Use YYYY-MM-DD.")
+        ),
+      })
+    ),
+    async (c) => {
+      const { from, to } = c.req.valid("query");
+
+      const timeZone = getCalendarTimezone();
+      const fromDate = startOfDayInTimeZone(from, timeZone);
+      const toDate = startOfDayInTimeZone(to, timeZone);
+      if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+        return c.json(
+          { error: "Invalid date. Please provide a valid date." },
+          400
+        );
+      }
+      const days =
+        Math.round(
+          (new Date(to).getTime() - new Date(from).getTime()) /
+            (24 * 60 * 60 * 1000)
+        ) + 1;
+      if (days > MAX_BUSY_RANGE_DAYS) {
+        return c.json(
+          {
+            error: `The date range must not be longer than ${MAX_BUSY_RANGE_DAYS} days`,
+          },
+          400
+        );
+      }
+
+      try {
+        const busyTimes = await getBusyTimesForRange(fromDate, toDate);
+        return c.json(
+          busyTimes.map((busy) => ({
+            start: busy.start.toISOString(),
+            end: busy.end.toISOString(),
+          }))
+        );
+      } catch (error) {
+        console.error("Error getting busy times:", error);
+        return c.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+          },
+          400
+        );
+      }
+    }
+  );
+
+  // Free/busy feed for calendar clients
+  app.get(
+    "/calendar/freebusy.ics",
+    describeRoute({
+      method: "get",
+      path: "/calendar/freebusy.ics",
+      tags: ["calendar"],
+      summary: "Free/busy feed",
+      description: `iCalendar VFREEBUSY with the busy times of the next CALENDAR_FREEBUSY_DAYS days (default 60, at most ${MAX_BUSY_RANGE_DAYS}) as FBTYPE=BUSY periods, without event details. If CALENDAR_FREEBUSY_TOKENS is set, one of the tokens must be passed as "token".`,
+      responses: {
+        200: {
+          description: "VFREEBUSY calendar",
+          content: {
+            "text/calendar": {
+              schema: { type: "string" },
+            },
+          },
+        },
+        401: {
+          description: "Missing or invalid token",
+        },
+        502: {
+          description: "The calendars could not be read",
+        },
+      },
+    }),
+    validator("query", v.object({ token: v.optional(v.string()) })),
+    async (c) => {
+      const { token } = c.req.valid("query");
+      if (!isFreeBusyTokenValid(token)) {
+        return c.text("Invalid token", 401);
+      }
+
+      try {
+        const from = new Date();
+        const to = new Date(
+          from.getTime() + (getFreeBusyDays() - 1) * 24 * 60 * 60 * 1000
+        );
+        // The busy times cover full days, the feed starts now
+        const busyTimes = (await getBusyTimesForRange(from, to))
+          .filter((busy) => busy.end > from)
+          .map((busy) => ({
+            start: busy.start < from ? from : busy.start,
+            end: busy.end,
+          }));
+        const end = busyTimes.reduce(
+          (latest, busy) => (busy.end > latest ? busy.end : latest),
+          to
+        );
+        const ics = generateFreeBusyICS(
+          busyTimes,
+          from,
+          end,
+          getEnvConfig().CALENDAR_OWNER_EMAIL || undefined
+        );
+        return c.body(ics, 200, {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "Cache-Control": "private, max-age=300",
+        });
+      } catch (error) {
+        console.error("Error creating free/busy feed:", error);
+        return c.text("The calendars could not be read", 502);
+      }
+    }
+  );
+
+  // Hold a slot while the visitor fills in the booking form
+  app.post(
+    "/calendar/holds",
+    describeRoute({
+      method: "post",
+      path: "/calendar/holds",
+      tags: ["calendar"],
+      summary: "Hold an available slot for a few minutes",
+      description:
+        "Reserves the slot for CALENDAR_HOLD_MINUTES minutes. Held slots are not offered to other visitors. Pass the holdId to /calendar/bookings to book the held slot.",
+      responses: {
+        201: {
+          description: "Slot held",
+          content: {
+            "application/json": {
+              schema: resolver(
+                v.object({
+                  holdId: v.string(),
+                  start: v.string(),
+                  end: v.string(),
+                  expiresAt: v.string(),
+                })
+              ),
+            },
+          },
+        },
+        400: {
+          description: "Invalid slot",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+        409: {
+          description: "The slot is already taken or held",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+        424: {
+          description: "The CalDAV server failed",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+      },
+    }),
+    requireScope("bookings:write"),
+    validator(
+      "json",
+      v.object({
+        start: v.pipe(
+          v.string("Start is required"),
+          v.isoTimestamp("Start must be an ISO timestamp")
+        ),
+        duration: v.optional(v.number("Duration must be a number (in hours)")),
+        eventType: v.optional(v.string()),
+      })
+    ),
+    async (c) => {
+      const { eventType: eventTypeSlug, ...body } = c.req.valid("json");
+
+      const eventType = eventTypeSlug ? getEventType(eventTypeSlug) : undefined;
+      if (eventTypeSlug && !eventType) {
+        return c.json(
+          {
+            error: `Unknown event type: ${eventTypeSlug}`,
+            code: "INVALID_SLOT",
+          },
+          400
+        );
+      }
+
+      try {
+        const result = await holdSlot({ ...body, eventType });
+        if (!result.success) {
+          return c.json(
+            { error: result.error, code: result.errorCode },
+            bookingErrorStatus[result.errorCode]
+          );
+        }
+
+        return c.json(
+          {
+            holdId: result.hold.id,
+            start: result.hold.start.toISOString(),
+            end: result.hold.end.toISOString(),
+            expiresAt: result.hold.expiresAt.toISOString(),
+          },
+          201
+        );
+      } catch (error) {
+        console.error("Error holding slot:", error);
+        return c.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+            code: "PROVIDER_ERROR",
+          },
+          424
+        );
+      }
+    }
+  );
+
+  // Release a held slot, e.g. when the visitor leaves the form
+  app.delete(
+    "/calendar/holds/:id",
+    describeRoute({
+      method: "delete",
+      path: "/calendar/holds/:id",
+      tags: ["calendar"],
+      summary: "Release a held slot",
+      responses: {
+        204: {
+          description: "Hold released",
+        },
+        404: {
+          description: "Unknown or expired hold",
+          content: {
+            "application/json": {
+              schema: resolver(v.object({ error: v.string() })),
+            },
+          },
+        },
+      },
+    }),
+    requireScope("bookings:write"),
+    (c) => {
+      if (!releaseHold(c.req.param("id"))) {
+        return c.json({ error: "Unknown or expired hold" }, 404);
+      }
+      return c.body(null, 204);
+    }
+  );
+
+  // Book a meeting in a free slot
+  const ksuite = new KSuiteClient();
+  app.post(
+    "/calendar/bookings",
+    describeRoute({
+      method: "post",
+      path: "/calendar/bookings",
+      tags: ["calendar"],
+      summary: "Book a meeting in an available slot",
+      description:
+        "Creates a meeting (a kMeet room by default) and a calendar event for the requested slot and stores the booking. The slot must be one of the slots returned by /calendar/slots/:date or /event-types/:slug/slots/:date. If an event type is given, its duration, rules and meeting provider are used. Pass the holdId of a held slot to book it. With CALENDAR_LINK_SECRET set, the response contains signed links for the attendees to cancel or reschedule the booking. With an Idempotency-Key header, retries return the first result.",
+      responses: {
+        200: {
+          description: "Meeting booked",
+          content: {
+            "application/json": {
+              schema: resolver(
+                v.object({
+                  bookingId: v.string(),
+                  cancelUrl: v.optional(v.string()),
+                  rescheduleUrl: v.optional(v.string()),
+                  status: v.picklist(["confirmed", "pending"]),
+                  meetingUrl: v.optional(v.string()),
+                  meetingId: v.optional(v.string()),
+                  meetingPassword: v.optional(v.string()),
+                  eventUid: v.string(),
+                  hosts: v.optional(
+                    v.array(
+                      v.object({
+                        id: v.string(),
+                        name: v.string(),
+                        email: v.string(),
+                      })
+                    )
+                  ),
+                })
+              ),
+            },
+          },
+        },
+        400: {
+          description: "Invalid slot (unknown duration, malformed start, ...)",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+        409: {
+          description: "The slot is already taken",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+        422: {
+          description:
+            "The Idempotency-Key was already used for a different booking",
+          content: {
+            "application/json": {
+              schema: resolver(v.object({ error: v.string() })),
+            },
+          },
+        },
+        424: {
+          description: "The meeting provider or the CalDAV server failed",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+      },
+    }),
+    requireScope("bookings:write"),
+    validator("header", idempotencyHeaderSchema),
+    validator(
+      "json",
+      v.object({
+        title: v.pipe(v.string(), v.nonEmpty("Title is required")),
+        start: v.pipe(
+          v.string("Start is required"),
+          v.isoTimestamp("Start must be an ISO timestamp")
+        ),
+        duration: v.optional(v.number("Duration must be a number (in hours)")),
+        eventType: v.optional(v.string()),
+        description: v.optional(v.string()),
+        participants: v.optional(
+          v.array(v.pipe(v.string(), v.email("Invalid participant email")))
+        ),
+        holdId: v.optional(v.string()),
+      })
+    ),
+    async (c) => {
+      const request = c.req.valid("json");
+      const { eventType: eventTypeSlug, ...body } = request;
+      const idempotencyKey = c.req.valid("header")["idempotency-key"];
+
+      const eventType = eventTypeSlug ? getEventType(eventTypeSlug) : undefined;
+      if (eventTypeSlug && !eventType) {
+        return c.json(
+          {
+            error: `Unknown event type: ${eventTypeSlug}`,
+            code: "INVALID_SLOT",
+          },
+          400
+        );
+      }
+
+      const book = () => ksuite.bookMeeting({ ...body, eventType });
+
+      // Retries with the same Idempotency-Key get the first result. Provider
+      // errors are not kept, so that a retry books again.
+      let result: BookMeetingResult;
+      if (idempotencyKey) {
+        const idempotent = await runIdempotent(
+          idempotencyKey,
+          request,
+          book,
+          (result) => result.success || result.errorCode !== "PROVIDER_ERROR"
+        );
+        if (idempotent.status === "conflict") {
+          return c.json(
+            {
+              error:
+                "The Idempotency-Key was already used for a different booking",
+            },
+            422
+          );
+        }
+        if (idempotent.status === "replayed") {
+          c.header("Idempotent-Replayed", "true");
+        }
+        result = idempotent.result;
+      } else {
+        result = await book();
+      }
+
+      if (!result.success) {
+        const code = result.errorCode || "PROVIDER_ERROR";
+        return c.json(
+          {
+            error: result.error || "Failed to book meeting",
+            code,
+          },
+          bookingErrorStatus[code]
+        );
+      }
+
+      return c.json({
+        bookingId: result.bookingId,
+        cancelUrl: result.cancelUrl,
+        rescheduleUrl: result.rescheduleUrl,
+        status: result.status,
+        meetingUrl: result.meetingUrl,
+        meetingId: result.meetingId,
+        meetingPassword: result.meetingPassword,
+        eventUid: result.eventUid,
+        hosts: result.hosts,
+      });
+    }
+  );
 }
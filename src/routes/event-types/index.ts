@@ -0,0 +1,190 @@
+import { describeRoute } from "hono-openapi";
+import { resolver, validator } from "hono-openapi/valibot";
+import * as v from "valibot";
+import { requireScope } from "../../lib/auth";
+import { getAvailableSlotsForDay } from "../../lib/calendar";
+import { getCalendarTimezone } from "../../lib/calendar/config";
+import {
+  isValidTimeZone,
+  startOfDayInTimeZone,
+} from "../../lib/calendar/timezone";
+import { getEventType, getEventTypes } from "../../lib/event-types";
+import { getEventTypeHosts } from "../../lib/hosts";
+import type { HonoApp } from "../../index";
+
+const eventTypeSchema = v.object({
+  slug: v.string(),
+  name: v.string(),
+  duration: v.number(),
+  description: v.optional(v.string()),
+  meetingProvider: v.optional(
+    v.picklist(["kmeet", "jitsi", "link", "in-person", "none"])
+  ),
+  requiresApproval: v.boolean(),
+  schedulingType: v.optional(v.picklist(["collective", "round-robin"])),
+  hosts: v.optional(v.array(v.object({ id: v.string(), name: v.string() }))),
+});
+
+export function defineEventTypeRoutes(app: HonoApp) {
+  // List all event types
+  app.get(
+    "/event-types",
+    describeRoute({
+      method: "get",
+      path: "/event-types",
+      tags: ["event-types"],
+      summary: "List all event types",
+      responses: {
+        200: {
+          description: "Successful response",
+          content: {
+            "application/json": {
+              schema: resolver(v.array(eventTypeSchema)),
+            },
+          },
+        },
+        400: {
+          description: "Error response",
+          content: {
+            "application/json": {
+              schema: resolver(v.object({ error: v.string() })),
+            },
+          },
+        },
+      },
+    }),
+    requireScope("slots:read"),
+    async (c) => {
+      try {
+        const eventTypes = getEventTypes().map((eventType) => ({
+          slug: eventType.slug,
+          name: eventType.name,
+          duration: eventType.duration,
+          description: eventType.description,
+          meetingProvider: eventType.meetingProvider?.type,
+          requiresApproval: eventType.requiresApproval,
+          ...(eventType.hosts && {
+            schedulingType: eventType.schedulingType,
+            hosts: getEventTypeHosts(eventType).map((host) => ({
+              id: host.id,
+              name: host.name,
+            })),
+          }),
+        }));
+        return c.json(eventTypes);
+      } catch (error) {
+        console.error("Error getting event types:", error);
+        return c.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+          },
+          400
+        );
+      }
+    }
+  );
+
+  // Get available slots of an event type for a specific day
+  app.get(
+    "/event-types/:slug/slots/:date",
+    describeRoute({
+      method: "get",
+      path: "/event-types/:slug/slots/:date",
+      tags: ["event-types"],
+      summary: "Get available slots of an event type for a specific day",
+      responses: {
+        200: {
+          description: "Successful response",
+          content: {
+            "application/json": {
+              schema: resolver(
+                v.array(
+                  v.object({
+                    start: v.string(),
+                    end: v.string(),
+                  })
+                )
+              ),
+            },
+          },
+        },
+        400: {
+          description: "Error response",
+          content: {
+            "application/json": {
+              schema: resolver(v.object({ error: v.string() })),
+            },
+          },
+        },
+        404: {
+          description: "Unknown event type",
+          content: {
+            "application/json": {
+              schema: resolver(v.object({ error: v.string() })),
+            },
+          },
+        },
+      },
+    }),
+    requireScope("slots:read"),
+    validator(
+      "param",
+      v.object({
+        slug: v.string(),
+        date: v.pipe(
+          v.string("Date parameter is required"),
+          v.isoDate("Invalid date format. Use YYYY-MM-DD.")
+        ),
+      })
+    ),
+    validator(
+      "query",
+      v.object({
+        tz: v.optional(
+          v.pipe(
+            v.string(),
+            v.check(
+              isValidTimeZone,
+              "Invalid timezone. Use an IANA name like Europe/Berlin."
+            )
+          )
+        ),
+      })
+    ),
+    async (c) => {
+      const { slug, date } = c.req.valid("param");
+      const { tz } = c.req.valid("query");
+
+      try {
+        const eventType = getEventType(slug);
+        if (!eventType) {
+          return c.json({ error: `Unknown event type: ${slug}` }, 404);
+        }
+
+        const dateObj = startOfDayInTimeZone(date, tz || getCalendarTimezone());
+        if (isNaN(dateObj.getTime())) {
+          return c.json(
+            { error: "Invalid date. Please provide a valid date." },
+            400
+          );
+        }
+
+        const availableSlots = await getAvailableSlotsForDay(
+          dateObj,
+          eventType.duration,
+          tz,
+          eventType
+        );
+        return c.json(availableSlots);
+      } catch (error) {
+        console.error("Error getting available slots:", error);
+        return c.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+          },
+          400
+        );
+      }
+    }
+  );
+}
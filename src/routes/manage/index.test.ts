@@ -0,0 +1,161 @@
+import {
+  describe,
+  test,
+  expect,
+  beforeAll,
+  afterAll,
+  afterEach,
+  mock,
+  setSystemTime,
+} from "bun:test";
+import { Hono } from "hono";
+import { urlContains } from "tsdav";
+import { createBookingToken } from "../../lib/bookings/links";
+import {
+  getBooking,
+  saveBooking,
+  type Booking,
+} from "../../lib/bookings/store";
+
+const calendar = { url: "https://dav.example.com/manage-page/calendar/" };
+mock.module("tsdav", () => ({
+  urlContains,
+  createDAVClient: async () => ({
+    fetchCalendars: async () => [calendar],
+    isCollectionDirty: async () => ({ isDirty: true, newCtag: "1" }),
+    fetchCalendarObjects: async () => [],
+  }),
+}));
+
+const { defineManageRoutes } = await import(".");
+
+describe("manage pages", () => {
+  const environment = {
+    CALENDAR_BOOKINGS_DB: ":memory:",
+    CALENDAR_LINK_SECRET: "test-secret",
+    CALENDAR_CALDAV_URL: "https://dav.example.com/",
+    CALENDAR_CALDAV_USER: "manage-page",
+    CALENDAR_CALDAV_PASSWORD: "secret",
+    CALENDAR_CALDAV_CALENDARNAME: "",
+    CALENDAR_CALENDARS_FILE: "",
+    CALENDAR_HOSTS_FILE: "",
+    CALENDAR_AVAILABLE_MON: "09:00-17:00",
+    CALENDAR_TIMEZONE: "UTC",
+    CALENDAR_SLOTS_LENGTH: "1",
+    CALENDAR_MIN_NOTICE: "0",
+    CALENDAR_MAX_DAYS_AHEAD: "3650",
+    CALENDAR_BUFFER_BEFORE: "0",
+    CALENDAR_BUFFER_AFTER: "0",
+  };
+  const previous = Object.fromEntries(
+    Object.keys(environment).map((key) => [key, process.env[key]])
+  );
+
+  const app = new Hono<{ Variables: {} }>();
+  defineManageRoutes(app);
+
+  beforeAll(() => {
+    Object.assign(process.env, environment);
+  });
+
+  afterAll(() => {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  // A booking without calendar events or meeting on 2030-06-03 (Monday)
+  const book = (start: string): Booking =>
+    saveBooking({
+      status: "confirmed",
+      title: "Intro call",
+      start,
+      end: new Date(new Date(start).getTime() + 60 * 60 * 1000).toISOString(),
+      attendees: ["guest@example.com"],
+      events: [],
+    });
+
+  const open = (token: string, query = "") =>
+    app.request(`/manage/${token}?lang=en${query}`);
+  const submit = (token: string, form: Record<string, string> = {}) =>
+    app.request(`/manage/${token}?lang=en`, {
+      method: "POST",
+      body: new URLSearchParams(form),
+    });
+
+  test("asks before cancelling and cancels on submit", async () => {
+    const booking = book("2030-06-03T09:00:00.000Z");
+    const token = createBookingToken(booking, "cancel")!;
+
+    const page = await open(token);
+    expect(page.status).toBe(200);
+    expect(await page.text()).toContain("Do you want to cancel this booking?");
+    expect(getBooking(booking.id)?.status).toBe("confirmed");
+
+    const cancelled = await submit(token);
+    expect(cancelled.status).toBe(200);
+    expect(await cancelled.text()).toContain("Your booking has been cancelled");
+    expect(getBooking(booking.id)?.status).toBe("cancelled");
+
+    // The link still shows the cancelled booking
+    expect(await (await open(token)).text()).toContain(
+      "This booking is cancelled."
+    );
+  });
+
+  test("shows the free slots and moves the booking", async () => {
+    const booking = book("2030-06-03T10:00:00.000Z");
+    const token = createBookingToken(booking, "reschedule")!;
+
+    const page = await open(token, "&month=2030-06&date=2030-06-03");
+    expect(page.status).toBe(200);
+    expect(await page.text()).toContain("Choose a new time");
+
+    const form = await open(token, "&start=2030-06-03T13:00:00.000Z");
+    expect(await form.text()).toContain("Move booking");
+
+    const moved = await submit(token, { start: "2030-06-03T13:00:00.000Z" });
+    expect(moved.status).toBe(200);
+    expect(await moved.text()).toContain("Your booking has been moved");
+    expect(getBooking(booking.id)).toMatchObject({
+      start: "2030-06-03T13:00:00.000Z",
+      sequence: 1,
+    });
+
+    // Links from before the change are no longer valid
+    const old = await submit(token, { start: "2030-06-03T15:00:00.000Z" });
+    expect(old.status).toBe(401);
+    expect(await old.text()).toContain("This link is invalid or has expired.");
+    expect(getBooking(booking.id)?.start).toBe("2030-06-03T13:00:00.000Z");
+  });
+
+  test("rejects invalid and expired links", async () => {
+    const invalid = await open("garbage");
+    expect(invalid.status).toBe(401);
+    expect(await invalid.text()).toContain(
+      "This link is invalid or has expired."
+    );
+
+    const booking = book("2030-06-03T11:00:00.000Z");
+    const token = createBookingToken(booking, "cancel")!;
+    setSystemTime(new Date("2030-06-03T11:00:00.000Z"));
+    expect((await open(token)).status).toBe(401);
+    expect((await submit(token)).status).toBe(401);
+    expect(getBooking(booking.id)?.status).toBe("confirmed");
+  });
+
+  test("rejects links of unknown bookings", async () => {
+    const token = createBookingToken(
+      { ...book("2030-06-03T14:00:00.000Z"), id: "unknown" },
+      "cancel"
+    )!;
+    const page = await open(token);
+    expect(page.status).toBe(404);
+    expect(await page.text()).toContain("This booking does not exist.");
+  });
+});
@@ -0,0 +1,661 @@
+import type { Context } from "hono";
+import { describeRoute } from "hono-openapi";
+import { resolver, validator } from "hono-openapi/valibot";
+import * as v from "valibot";
+import { getAvailableSlotsForDay } from "../../lib/calendar";
+import { getCalendarTimezone } from "../../lib/calendar/config";
+import {
+  isValidTimeZone,
+  startOfDayInTimeZone,
+} from "../../lib/calendar/timezone";
+import { getEventType } from "../../lib/event-types";
+import {
+  getBookingLinks,
+  verifyBookingToken,
+  type BookingLinkAction,
+} from "../../lib/bookings/links";
+import { getBooking, type Booking } from "../../lib/bookings/store";
+import type { BookingErrorCode } from "../../lib/bookings";
+import KSuiteClient from "../../lib/meetings/ksuite";
+import { bookingErrorSchema, bookingErrorStatus } from "../bookings";
+import {
+  getMonthSlots,
+  getPageState,
+  getSlot,
+  htmlResponse,
+  pageQuerySchema,
+  type PageQuery,
+} from "../booking-page";
+import {
+  Layout,
+  SlotPicker,
+  SlotSummary,
+  pageUrl,
+  type MonthSlots,
+  type PageState,
+} from "../booking-page/views";
+import { CancelForm, Changed, RescheduleForm } from "./views";
+import type { HonoApp } from "../../index";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const managedBookingSchema = v.object({
+  action: v.picklist(["cancel", "reschedule"]),
+  booking: v.object({
+    id: v.string(),
+    status: v.picklist(["confirmed", "pending", "cancelled"]),
+    title: v.string(),
+    start: v.string(),
+    end: v.string(),
+    eventType: v.optional(v.string()),
+    meetingUrl: v.optional(v.string()),
+  }),
+  cancelUrl: v.optional(v.string()),
+  rescheduleUrl: v.optional(v.string()),
+});
+
+const tokenErrorSchema = v.object({ error: v.string() });
+
+const tokenErrorResponses = {
+  401: {
+    description: "Invalid or expired link",
+    content: {
+      "application/json": {
+        schema: resolver(tokenErrorSchema),
+      },
+    },
+  },
+  403: {
+    description: "The link does not allow this action",
+    content: {
+      "application/json": {
+        schema: resolver(tokenErrorSchema),
+      },
+    },
+  },
+  404: {
+    description: "Unknown booking",
+    content: {
+      "application/json": {
+        schema: resolver(tokenErrorSchema),
+      },
+    },
+  },
+  410: {
+    description: "The booking has already started",
+    content: {
+      "application/json": {
+        schema: resolver(tokenErrorSchema),
+      },
+    },
+  },
+};
+
+type TokenCheck =
+  | { booking: Booking; action: BookingLinkAction }
+  | { error: string; status: 401 | 403 | 404 | 410 };
+
+// Get the booking of a link. The link must allow "action" (if given), be
+// created after the last change of the booking and the booking must not have
+// started yet. Older links of a cancelled booking still show it.
+function checkToken(token: string, action?: BookingLinkAction): TokenCheck {
+  const verified = verifyBookingToken(token);
+  if (!verified) {
+    return { error: "Invalid or expired link", status: 401 };
+  }
+  if (action && verified.action !== action) {
+    return { error: `The link does not allow to ${action}`, status: 403 };
+  }
+
+  const booking = getBooking(verified.bookingId);
+  if (!booking) {
+    return { error: "Unknown booking", status: 404 };
+  }
+  if (
+    booking.status !== "cancelled" &&
+    verified.sequence !== booking.sequence
+  ) {
+    return { error: "Invalid or expired link", status: 401 };
+  }
+  if (new Date(booking.start).getTime() <= Date.now()) {
+    return { error: "The booking has already started", status: 410 };
+  }
+  return { booking, action: verified.action };
+}
+
+// Text of a failed link for the attendee
+function getTokenErrorMessage(
+  state: PageState,
+  status: 401 | 403 | 404 | 410
+): string {
+  switch (status) {
+    case 401:
+      return state.messages.invalidLink;
+    case 403:
+      return state.messages.wrongLink;
+    case 404:
+      return state.messages.unknownBooking;
+    case 410:
+      return state.messages.bookingStarted;
+  }
+}
+
+// Text of a failed change for the attendee
+function getChangeErrorMessage(
+  state: PageState,
+  code?: BookingErrorCode
+): string {
+  switch (code) {
+    case "SLOT_TAKEN":
+      return state.messages.slotTaken;
+    case "INVALID_SLOT":
+      return state.messages.invalidSlot;
+    default:
+      return state.messages.changeFailed;
+  }
+}
+
+// Duration of a booking in hours
+function getDuration(booking: Booking): number {
+  return (
+    (new Date(booking.end).getTime() - new Date(booking.start).getTime()) /
+    HOUR_MS
+  );
+}
+
+// Options to find the slots a booking can move to. The booking itself
+// does not block any slot and keeps its hosts.
+function getRescheduleOptions(booking: Booking) {
+  const hostIds = booking.events
+    .map((event) => event.hostId)
+    .filter((hostId): hostId is string => hostId !== undefined);
+  return {
+    ignoreEventUids: booking.events.map((event) => event.uid),
+    hostIds: hostIds.length > 0 ? hostIds : undefined,
+  };
+}
+
+// The fields of a booking shown to the attendees
+function toManagedBookingResponse(booking: Booking, action: BookingLinkAction) {
+  return {
+    action,
+    booking: {
+      id: booking.id,
+      status: booking.status,
+      title: booking.title,
+      start: booking.start,
+      end: booking.end,
+      eventType: booking.eventType,
+      meetingUrl: booking.meetingUrl,
+    },
+    ...getBookingLinks(booking),
+  };
+}
+
+/**
+ * Routes for the signed links in the booking confirmation. The attendees
+ * can cancel or reschedule their booking without an account.
+ */
+export function defineManageRoutes(app: HonoApp) {
+  const ksuite = new KSuiteClient();
+
+  function renderTokenError(
+    c: Context,
+    state: PageState,
+    status: 401 | 403 | 404 | 410
+  ) {
+    return c.html(
+      <Layout state={state} heading={state.messages.title}>
+        <p class="error">{getTokenErrorMessage(state, status)}</p>
+      </Layout>,
+      status
+    );
+  }
+
+  // Month view with the free slots to move the booking to, or the form for
+  // the selected slot
+  async function renderReschedulePage(
+    c: Context,
+    state: PageState,
+    query: PageQuery,
+    booking: Booking,
+    error?: { message: string; status: 400 | 409 | 424 }
+  ) {
+    const current = { start: booking.start, end: booking.end };
+    if (query.start) {
+      return c.html(
+        <Layout state={state} heading={booking.title}>
+          <RescheduleForm
+            state={state}
+            current={current}
+            slot={getSlot(query.start, getDuration(booking))}
+            date={query.date}
+            error={error?.message}
+          />
+        </Layout>,
+        error?.status ?? 200
+      );
+    }
+
+    const eventType = booking.eventType
+      ? getEventType(booking.eventType)
+      : undefined;
+    let monthSlots: MonthSlots;
+    try {
+      monthSlots = await getMonthSlots(
+        state,
+        query,
+        getDuration(booking),
+        eventType,
+        getRescheduleOptions(booking)
+      );
+    } catch (error) {
+      console.error("Error getting slots to reschedule:", error);
+      return c.html(
+        <Layout state={state} heading={booking.title}>
+          <p class="error">{state.messages.loadingFailed}</p>
+        </Layout>,
+        500
+      );
+    }
+
+    return c.html(
+      <Layout state={state} heading={booking.title} detectTimeZone>
+        <h2>{state.messages.currentTime}</h2>
+        <SlotSummary state={state} slot={current} />
+        <h2>{state.messages.chooseNewTime}</h2>
+        <SlotPicker
+          state={state}
+          monthSlots={monthSlots}
+          selectedDate={query.date}
+        />
+      </Layout>
+    );
+  }
+
+  // Page of a link. Opening it changes nothing, the change needs a POST.
+  app.get(
+    "/manage/:token",
+    describeRoute({
+      method: "get",
+      path: "/manage/:token",
+      tags: ["manage"],
+      summary: "Page of a cancel or reschedule link",
+      description:
+        "Asks to confirm the cancellation, or shows the free slots to move the booking to. Query parameters: lang, theme, accent, tz, month, date and start like the booking page.",
+      responses: {
+        200: htmlResponse,
+        401: htmlResponse,
+        403: htmlResponse,
+        404: htmlResponse,
+        410: htmlResponse,
+      },
+    }),
+    async (c) => {
+      const token = c.req.param("token");
+      const query = v.parse(pageQuerySchema, c.req.query());
+      const state = getPageState(c, `/manage/${token}`, query);
+      const check = checkToken(token);
+      if ("error" in check) {
+        return renderTokenError(c, state, check.status);
+      }
+      const { booking } = check;
+
+      if (booking.status === "cancelled") {
+        return c.html(
+          <Layout state={state} heading={booking.title}>
+            <SlotSummary state={state} slot={booking} />
+            <p>{state.messages.isCancelled}</p>
+          </Layout>
+        );
+      }
+      if (check.action === "cancel") {
+        return c.html(
+          <Layout state={state} heading={booking.title}>
+            <CancelForm state={state} slot={booking} />
+          </Layout>
+        );
+      }
+      return renderReschedulePage(c, state, query, booking);
+    }
+  );
+
+  // Cancel or move the booking of a link from its page
+  app.post(
+    "/manage/:token",
+    describeRoute({
+      method: "post",
+      path: "/manage/:token",
+      tags: ["manage"],
+      summary: "Cancel or reschedule the booking of a link from its page",
+      description:
+        "Cancels the booking of a cancel link, or moves the booking of a reschedule link to the start of the form.",
+      responses: {
+        200: htmlResponse,
+        400: htmlResponse,
+        401: htmlResponse,
+        403: htmlResponse,
+        404: htmlResponse,
+        409: htmlResponse,
+        410: htmlResponse,
+        424: htmlResponse,
+      },
+    }),
+    async (c) => {
+      const token = c.req.param("token");
+      const query = v.parse(pageQuerySchema, c.req.query());
+      const state = getPageState(c, `/manage/${token}`, query);
+      const check = checkToken(token);
+      if ("error" in check) {
+        return renderTokenError(c, state, check.status);
+      }
+      const { booking } = check;
+
+      if (check.action === "cancel") {
+        const result = await ksuite.cancelBooking(booking);
+        if (!result.success) {
+          return c.html(
+            <Layout state={state} heading={booking.title}>
+              <CancelForm
+                state={state}
+                slot={booking}
+                error={getChangeErrorMessage(state, result.errorCode)}
+              />
+            </Layout>,
+            bookingErrorStatus[result.errorCode]
+          );
+        }
+        return c.html(
+          <Layout state={state} heading={booking.title}>
+            <Changed
+              state={state}
+              heading={state.messages.cancelled}
+              slot={booking}
+            />
+          </Layout>
+        );
+      }
+
+      const body = await c.req.parseBody();
+      const start = v.safeParse(
+        v.pipe(v.string(), v.isoTimestamp()),
+        body.start
+      );
+      if (!start.success) {
+        return c.redirect(pageUrl(state), 303);
+      }
+
+      const result = await ksuite.rescheduleBooking(booking, {
+        start: start.output,
+      });
+      if (!result.success) {
+        return renderReschedulePage(
+          c,
+          state,
+          { ...query, start: start.output },
+          booking,
+          {
+            message: getChangeErrorMessage(state, result.errorCode),
+            status: bookingErrorStatus[result.errorCode],
+          }
+        );
+      }
+      return c.html(
+        <Layout state={state} heading={result.booking.title}>
+          <Changed
+            state={state}
+            heading={state.messages.rescheduled}
+            slot={result.booking}
+            {...getBookingLinks(result.booking)}
+          />
+        </Layout>
+      );
+    }
+  );
+
+  // Get the booking of a link
+  app.get(
+    "/manage/:token/booking",
+    describeRoute({
+      method: "get",
+      path: "/manage/:token/booking",
+      tags: ["manage"],
+      summary: "Get the booking of a cancel or reschedule link",
+      responses: {
+        200: {
+          description: "Successful response",
+          content: {
+            "application/json": {
+              schema: resolver(managedBookingSchema),
+            },
+          },
+        },
+        ...tokenErrorResponses,
+      },
+    }),
+    (c) => {
+      const check = checkToken(c.req.param("token"));
+      if ("error" in check) {
+        return c.json({ error: check.error }, check.status);
+      }
+      return c.json(toManagedBookingResponse(check.booking, check.action));
+    }
+  );
+
+  // Offer the free slots of a day to reschedule the booking to
+  app.get(
+    "/manage/:token/slots/:date",
+    describeRoute({
+      method: "get",
+      path: "/manage/:token/slots/:date",
+      tags: ["manage"],
+      summary: "Get the slots of a day to reschedule a booking to",
+      description:
+        "Returns the available slots with the duration of the booking. The booking itself does not block any slot.",
+      responses: {
+        200: {
+          description: "Successful response",
+          content: {
+            "application/json": {
+              schema: resolver(
+                v.array(
+                  v.object({
+                    start: v.string(),
+                    end: v.string(),
+                  })
+                )
+              ),
+            },
+          },
+        },
+        400: {
+          description: "Error response",
+          content: {
+            "application/json": {
+              schema: resolver(v.object({ error: v.string() })),
+            },
+          },
+        },
+        ...tokenErrorResponses,
+      },
+    }),
+    validator(
+      "param",
+      v.object({
+        token: v.string(),
+        date: v.pipe(
+          v.string("Date parameter is required"),
+          v.isoDate("Invalid date format. Use YYYY-MM-DD.")
+        ),
+      })
+    ),
+    validator(
+      "query",
+      v.object({
+        tz: v.optional(
+          v.pipe(
+            v.string(),
+            v.check(
+              isValidTimeZone,
+              "Invalid timezone. Use an IANA name like Europe/Berlin."
+            )
+          )
+        ),
+      })
+    ),
+    async (c) => {
+      const { token, date } = c.req.valid("param");
+      const { tz } = c.req.valid("query");
+
+      const check = checkToken(token, "reschedule");
+      if ("error" in check) {
+        return c.json({ error: check.error }, check.status);
+      }
+      const { booking } = check;
+
+      const eventType = booking.eventType
+        ? getEventType(booking.eventType)
+        : undefined;
+      try {
+        const slots = await getAvailableSlotsForDay(
+          startOfDayInTimeZone(date, tz || getCalendarTimezone()),
+          getDuration(booking),
+          tz,
+          eventType,
+          getRescheduleOptions(booking)
+        );
+        return c.json(slots);
+      } catch (error) {
+        console.error("Error getting slots to reschedule:", error);
+        return c.json(
+          {
+            error: error instanceof Error ? error.message : String(error),
+          },
+          400
+        );
+      }
+    }
+  );
+
+  // Cancel the booking of a cancel link
+  app.post(
+    "/manage/:token/cancel",
+    describeRoute({
+      method: "post",
+      path: "/manage/:token/cancel",
+      tags: ["manage"],
+      summary: "Cancel a booking with a cancel link",
+      responses: {
+        200: {
+          description: "Booking cancelled",
+          content: {
+            "application/json": {
+              schema: resolver(managedBookingSchema),
+            },
+          },
+        },
+        ...tokenErrorResponses,
+        424: {
+          description: "The meeting provider or the CalDAV server failed",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+      },
+    }),
+    async (c) => {
+      const check = checkToken(c.req.param("token"), "cancel");
+      if ("error" in check) {
+        return c.json({ error: check.error }, check.status);
+      }
+
+      const result = await ksuite.cancelBooking(check.booking);
+      if (!result.success) {
+        return c.json(
+          { error: result.error, code: result.errorCode },
+          bookingErrorStatus[result.errorCode]
+        );
+      }
+      return c.json(toManagedBookingResponse(result.booking, check.action));
+    }
+  );
+
+  // Move the booking of a reschedule link to another slot
+  app.post(
+    "/manage/:token/reschedule",
+    describeRoute({
+      method: "post",
+      path: "/manage/:token/reschedule",
+      tags: ["manage"],
+      summary: "Reschedule a booking with a reschedule link",
+      description:
+        "Moves the booking to one of the slots of /manage/:token/slots/:date. The response contains new links, the old ones expire at the old start time.",
+      responses: {
+        200: {
+          description: "Booking rescheduled",
+          content: {
+            "application/json": {
+              schema: resolver(managedBookingSchema),
+            },
+          },
+        },
+        400: {
+          description: "Invalid slot or cancelled booking",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+        409: {
+          description: "The slot is already taken",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+        ...tokenErrorResponses,
+        424: {
+          description: "The meeting provider or the CalDAV server failed",
+          content: {
+            "application/json": {
+              schema: resolver(bookingErrorSchema),
+            },
+          },
+        },
+      },
+    }),
+    validator(
+      "json",
+      v.object({
+        start: v.pipe(
+          v.string("Start is required"),
+          v.isoTimestamp("Start must be an ISO timestamp")
+        ),
+        holdId: v.optional(v.string()),
+      })
+    ),
+    async (c) => {
+      const check = checkToken(c.req.param("token"), "reschedule");
+      if ("error" in check) {
+        return c.json({ error: check.error }, check.status);
+      }
+
+      // Attendees can move the booking, but not change its duration
+      const result = await ksuite.rescheduleBooking(
+        check.booking,
+        c.req.valid("json")
+      );
+      if (!result.success) {
+        return c.json(
+          { error: result.error, code: result.errorCode },
+          bookingErrorStatus[result.errorCode]
+        );
+      }
+      return c.json(toManagedBookingResponse(result.booking, check.action));
+    }
+  );
+}
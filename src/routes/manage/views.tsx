@@ -0,0 +1,79 @@
+import type { FC } from "hono/jsx";
+import {
+  SlotSummary,
+  pageUrl,
+  type PageSlot,
+  type PageState,
+} from "../booking-page/views";
+
+const ErrorMessage: FC<{ error?: string }> = ({ error }) =>
+  error ? (
+    <p class="error" role="alert">
+      {error}
+    </p>
+  ) : null;
+
+/**
+ * Asks before the booking of a cancel link is cancelled. Opening the link
+ * changes nothing, so that link scanners of mail servers cannot cancel it.
+ */
+export const CancelForm: FC<{
+  state: PageState;
+  slot: PageSlot;
+  error?: string;
+}> = ({ state, slot, error }) => (
+  <>
+    <SlotSummary state={state} slot={slot} />
+    <ErrorMessage error={error} />
+    <p>{state.messages.cancelQuestion}</p>
+    <form method="post" action={pageUrl(state)}>
+      <button type="submit">{state.messages.cancelBooking}</button>
+    </form>
+  </>
+);
+
+/**
+ * Asks before the booking of a reschedule link is moved to the chosen slot
+ */
+export const RescheduleForm: FC<{
+  state: PageState;
+  current: PageSlot;
+  slot: PageSlot;
+  date?: string;
+  error?: string;
+}> = ({ state, current, slot, date, error }) => (
+  <>
+    <h2>{state.messages.currentTime}</h2>
+    <SlotSummary state={state} slot={current} />
+    <h2>{state.messages.newTime}</h2>
+    <SlotSummary state={state} slot={slot} />
+    <p>
+      <a href={pageUrl(state, { date })}>‹ {state.messages.back}</a>
+    </p>
+    <ErrorMessage error={error} />
+    <form method="post" action={pageUrl(state)}>
+      <input type="hidden" name="start" value={slot.start} />
+      <button type="submit">{state.messages.moveBooking}</button>
+    </form>
+  </>
+);
+
+export const Changed: FC<{
+  state: PageState;
+  heading: string;
+  slot: PageSlot;
+  // New links of a moved booking
+  cancelUrl?: string;
+  rescheduleUrl?: string;
+}> = ({ state, heading, slot, cancelUrl, rescheduleUrl }) => (
+  <>
+    <h2>{heading}</h2>
+    <SlotSummary state={state} slot={slot} />
+    {cancelUrl && rescheduleUrl && (
+      <p class="muted">
+        <a href={rescheduleUrl}>{state.messages.rescheduleBooking}</a> ·{" "}
+        <a href={cancelUrl}>{state.messages.cancelBooking}</a>
+      </p>
+    )}
+  </>
+);
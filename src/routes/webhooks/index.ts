@@ -0,0 +1,66 @@
+import { describeRoute } from "hono-openapi";
+import { resolver, validator } from "hono-openapi/valibot";
+import * as v from "valibot";
+import { listWebhookDeliveries, webhookEvents } from "../../lib/webhooks";
+import type { HonoApp } from "../../index";
+
+const deliveryStatusSchema = v.picklist(["pending", "delivered", "failed"]);
+
+const deliverySchema = v.object({
+  id: v.string(),
+  webhookId: v.string(),
+  event: v.picklist(webhookEvents),
+  status: deliveryStatusSchema,
+  attempts: v.number(),
+  lastStatusCode: v.optional(v.number()),
+  lastError: v.optional(v.string()),
+  nextAttemptAt: v.optional(v.string()),
+  createdAt: v.string(),
+  updatedAt: v.string(),
+});
+
+export function defineWebhookRoutes(app: HonoApp) {
+  // Recent deliveries of the webhooks
+  app.get(
+    "/admin/webhooks/deliveries",
+    describeRoute({
+      method: "get",
+      path: "/admin/webhooks/deliveries",
+      tags: ["webhooks"],
+      summary: "List recent webhook deliveries",
+      description:
+        "Returns the most recent deliveries with their status, the number of attempts and the HTTP status code of the last attempt. Pending deliveries are retried with backoff.",
+      responses: {
+        200: {
+          description: "Successful response",
+          content: {
+            "application/json": {
+              schema: resolver(
+                v.object({ deliveries: v.array(deliverySchema) })
+              ),
+            },
+          },
+        },
+      },
+    }),
+    validator(
+      "query",
+      v.object({
+        limit: v.optional(
+          v.pipe(
+            v.string(),
+            v.transform(Number),
+            v.integer("Limit must be an integer"),
+            v.minValue(1),
+            v.maxValue(500)
+          )
+        ),
+        status: v.optional(deliveryStatusSchema),
+      })
+    ),
+    (c) => {
+      const { limit, status } = c.req.valid("query");
+      return c.json({ deliveries: listWebhookDeliveries({ limit, status }) });
+    }
+  );
+}